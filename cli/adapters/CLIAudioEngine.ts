@@ -1,19 +1,23 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import { decode } from 'wav-decoder';
-import { CLIAudioTrack, type CLIAudioBuffer } from './CLIAudioTrack.js';
+import { CLIAudioTrack } from './CLIAudioTrack.js';
+import { CLIDecoderRegistry } from './CLIDecoderRegistry.js';
+import { StemAligner } from '../../src/core/StemAligner.js';
+import type { TrackAlignment } from '../../src/types/audio.types.js';
 import { Logger } from '../utils/Logger.js';
 
 export class CLIAudioEngine {
   private tracks: CLIAudioTrack[] = [];
   private logger: Logger;
+  private decoders: CLIDecoderRegistry;
 
-  constructor(logger: Logger) {
+  constructor(logger: Logger, decoders: CLIDecoderRegistry = CLIDecoderRegistry.createDefault()) {
     this.logger = logger;
+    this.decoders = decoders;
   }
 
   /**
-   * Load a WAV file and create an audio track
+   * Load an audio file (WAV, AIFF, FLAC, MP3, OGG) and create an audio track
    */
   async loadTrack(
     filePath: string,
@@ -23,31 +27,22 @@ export class CLIAudioEngine {
     const startTime = Date.now();
 
     try {
-      // Read WAV file
+      // Read audio file
       const buffer = await fs.readFile(filePath);
       const fileSize = buffer.length;
 
-      // Decode WAV data
-      const audioData = await decode(buffer);
-
-      // Create AudioBuffer-compatible interface
-      const cliBuffer: CLIAudioBuffer = {
-        duration: audioData.channelData[0].length / audioData.sampleRate,
-        sampleRate: audioData.sampleRate,
-        numberOfChannels: audioData.channelData.length,
-        length: audioData.channelData[0].length,
-        getChannelData: (channel: number) => {
-          if (channel < 0 || channel >= audioData.channelData.length) {
-            throw new Error(`Channel ${channel} out of range`);
-          }
-          return audioData.channelData[channel];
-        }
-      };
+      // Decode with the decoder registered for this file extension
+      const audioData = await this.decoders.decode(filePath, buffer);
+
+      // Create AudioBuffer-compatible interface (shared memory, so render workers read
+      // the samples without copying them)
+      const cliBuffer = CLIAudioTrack.createBuffer(audioData.channelData, audioData.sampleRate, true);
 
       // Create track
       const trackId = `track_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
       const trackName = path.basename(filePath);
       const track = new CLIAudioTrack(trackId, trackName, cliBuffer, color, opacity);
+      track.buildPeakCache();
 
       this.tracks.push(track);
 
@@ -71,15 +66,37 @@ export class CLIAudioEngine {
    * Load multiple tracks
    */
   async loadTracks(
-    files: Array<{ path: string; color: string; opacity: number }>
+    files: Array<{
+      path: string;
+      color: string;
+      opacity: number;
+      volume?: number;
+      muted?: boolean;
+      solo?: boolean;
+      offset?: number;
+    }>
   ): Promise<CLIAudioTrack[]> {
     const tracks: CLIAudioTrack[] = [];
 
     for (const file of files) {
       const track = await this.loadTrack(file.path, file.color, file.opacity);
+      track.setVolume(file.volume !== undefined ? file.volume : 1);
+      track.setMuted(file.muted || false);
+      track.setSolo(file.solo || false);
+      track.setStartOffset(file.offset || 0);
+      if (track.startOffset !== 0) {
+        this.logger.verbose(`${track.name} starts at ${track.startOffset.toFixed(3)}s on the timeline`);
+      }
       tracks.push(track);
     }
 
+    const anySoloed = this.hasSoloedTracks();
+    for (const track of tracks) {
+      if (!track.isAudible(anySoloed)) {
+        this.logger.verbose(`${track.name} is ${track.muted ? 'muted' : 'silenced by solo'}`);
+      }
+    }
+
     return tracks;
   }
 
@@ -91,34 +108,84 @@ export class CLIAudioEngine {
   }
 
   /**
-   * Get total duration (maximum of all tracks)
+   * Automatically align tracks by cross-correlating them against a reference
+   * @param referenceIndex - Index of the reference track, or null to use the mix of the other tracks
+   * @param maxLag - Largest offset searched in seconds
+   */
+  autoAlignTracks(referenceIndex: number | null, maxLag?: number): TrackAlignment[] {
+    if (this.tracks.length < 2) {
+      this.logger.warn('Auto-align needs at least two tracks - skipping');
+      return [];
+    }
+
+    const reference = referenceIndex !== null ? this.tracks[referenceIndex] : null;
+    this.logger.header(`Auto-aligning tracks (reference: ${reference ? reference.name : 'mix'}):`);
+
+    const alignments = StemAligner.alignTracks(this.tracks, reference ? reference.id : null, maxLag);
+
+    for (const alignment of alignments) {
+      const track = this.tracks.find(t => t.id === alignment.trackId)!;
+      if (track === reference) {
+        continue;
+      }
+      const sign = alignment.offset >= 0 ? '+' : '';
+      const message =
+        `${track.name}: offset ${sign}${alignment.offset.toFixed(3)}s ` +
+        `(confidence ${Math.round(alignment.confidence * 100)}%)`;
+      if (alignment.confidence < StemAligner.LOW_CONFIDENCE) {
+        this.logger.warn(`${message} - low confidence, check the result`);
+      } else {
+        this.logger.success(message);
+      }
+    }
+
+    return alignments;
+  }
+
+  /**
+   * Check whether any track is soloed
+   */
+  hasSoloedTracks(): boolean {
+    return this.tracks.some(t => t.solo);
+  }
+
+  /**
+   * Get total duration (latest track end on the timeline, including start offsets)
    */
   getDuration(): number {
     if (this.tracks.length === 0) {
       return 0;
     }
-    return Math.max(...this.tracks.map(t => t.duration));
+    return Math.max(0, ...this.tracks.map(t => t.endTime));
   }
 
   /**
    * Mix all tracks into a single stereo audio buffer
    * Returns raw PCM data as Float32Array for left and right channels
+   * @param startTime - Range start in seconds (default: 0)
+   * @param endTime - Range end in seconds (default: end of the song)
    */
-  mixTracks(): { left: Float32Array; right: Float32Array; sampleRate: number } {
+  mixTracks(startTime: number = 0, endTime?: number): { left: Float32Array; right: Float32Array; sampleRate: number } {
     if (this.tracks.length === 0) {
       throw new Error('No tracks to mix');
     }
 
-    const duration = this.getDuration();
+    const end = endTime ?? this.getDuration();
     const sampleRate = this.tracks[0].sampleRate;
-    const numSamples = Math.ceil(duration * sampleRate);
+    const numSamples = Math.max(0, Math.ceil((end - startTime) * sampleRate));
 
     // Create output buffers
     const left = new Float32Array(numSamples);
     const right = new Float32Array(numSamples);
 
-    // Mix all tracks
+    // Mix all tracks (respecting mute/solo/volume, same as browser playback)
+    const anySoloed = this.hasSoloedTracks();
     for (const track of this.tracks) {
+      const gain = track.getEffectiveGain(anySoloed);
+      if (gain === 0) {
+        continue;
+      }
+
       const trackSamples = track.buffer.length;
       const numChannels = track.numberOfChannels;
 
@@ -126,11 +193,36 @@ export class CLIAudioEngine {
       const channel0 = track.buffer.getChannelData(0);
       const channel1 = numChannels > 1 ? track.buffer.getChannelData(1) : channel0;
 
-      // Add to mix (with opacity/volume control)
-      const gain = track.opacity;
-      for (let i = 0; i < trackSamples && i < numSamples; i++) {
-        left[i] += channel0[i] * gain;
-        right[i] += channel1[i] * gain;
+      // Output sample where the track's first sample lands relative to the range start
+      // (negative trims its beginning)
+      const offsetSamples = Math.round((track.startOffset - startTime) * sampleRate);
+
+      if (track.sampleRate === sampleRate) {
+        // Add to mix
+        const first = Math.max(0, offsetSamples);
+        for (let i = first; i < numSamples; i++) {
+          const j = i - offsetSamples;
+          if (j >= trackSamples) {
+            break;
+          }
+          left[i] += channel0[j] * gain;
+          right[i] += channel1[j] * gain;
+        }
+      } else {
+        // Different source formats may have different sample rates - resample linearly
+        const rateRatio = track.sampleRate / sampleRate;
+        this.logger.verbose(`Resampling ${track.name} from ${track.sampleRate} Hz to ${sampleRate} Hz`);
+        for (let i = Math.max(0, offsetSamples); i < numSamples; i++) {
+          const position = (i - offsetSamples) * rateRatio;
+          const index = Math.floor(position);
+          if (index >= trackSamples) {
+            break;
+          }
+          const next = Math.min(index + 1, trackSamples - 1);
+          const frac = position - index;
+          left[i] += (channel0[index] + (channel0[next] - channel0[index]) * frac) * gain;
+          right[i] += (channel1[index] + (channel1[next] - channel1[index]) * frac) * gain;
+        }
       }
     }
 
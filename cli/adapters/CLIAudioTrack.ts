@@ -1,8 +1,9 @@
 import { AudioTrack } from '../../src/core/AudioTrack.js';
+import { PeakCache, type PeakLevel } from '../../src/core/PeakCache.js';
 
 /**
  * AudioBuffer-compatible interface for CLI
- * This mimics the Web Audio API AudioBuffer interface using raw WAV data
+ * This mimics the Web Audio API AudioBuffer interface using decoded PCM data
  */
 export interface CLIAudioBuffer {
   duration: number;
@@ -12,6 +13,25 @@ export interface CLIAudioBuffer {
   getChannelData(channel: number): Float32Array;
 }
 
+/**
+ * Everything needed to rebuild a track in a render worker. Channel data backed by a
+ * SharedArrayBuffer is shared with the worker rather than copied; the peak cache levels
+ * are copied, which is cheaper than rebuilding them.
+ */
+export interface CLITrackSnapshot {
+  id: string;
+  name: string;
+  color: string;
+  opacity: number;
+  volume: number;
+  muted: boolean;
+  solo: boolean;
+  startOffset: number;
+  sampleRate: number;
+  channels: Float32Array[];
+  peakLevels: PeakLevel[] | null;
+}
+
 /**
  * CLI version of AudioTrack that accepts CLIAudioBuffer instead of Web Audio API AudioBuffer
  * This allows us to reuse all the waveform extraction logic from AudioTrack
@@ -28,4 +48,71 @@ export class CLIAudioTrack extends AudioTrack {
     // This works because CLIAudioBuffer implements the same interface
     super(id, name, buffer as any, color, opacity);
   }
+
+  /**
+   * Create an AudioBuffer-compatible buffer over decoded channel data
+   * @param shared - Copy the samples into SharedArrayBuffers so render workers can read them
+   */
+  static createBuffer(channelData: Float32Array[], sampleRate: number, shared: boolean = false): CLIAudioBuffer {
+    const channels = shared
+      ? channelData.map(data => {
+        const copy = new Float32Array(new SharedArrayBuffer(data.byteLength));
+        copy.set(data);
+        return copy;
+      })
+      : channelData;
+
+    return {
+      duration: channels[0].length / sampleRate,
+      sampleRate,
+      numberOfChannels: channels.length,
+      length: channels[0].length,
+      getChannelData: (channel: number) => {
+        if (channel < 0 || channel >= channels.length) {
+          throw new Error(`Channel ${channel} out of range`);
+        }
+        return channels[channel];
+      }
+    };
+  }
+
+  /**
+   * Rebuild a track from a snapshot (in a render worker)
+   */
+  static fromSnapshot(snapshot: CLITrackSnapshot): CLIAudioTrack {
+    const buffer = CLIAudioTrack.createBuffer(snapshot.channels, snapshot.sampleRate);
+    const track = new CLIAudioTrack(snapshot.id, snapshot.name, buffer, snapshot.color, snapshot.opacity);
+    track.setVolume(snapshot.volume);
+    track.setMuted(snapshot.muted);
+    track.setSolo(snapshot.solo);
+    track.setStartOffset(snapshot.startOffset);
+    if (snapshot.peakLevels) {
+      track.peakCache = new PeakCache(snapshot.channels[0], snapshot.peakLevels);
+    }
+    return track;
+  }
+
+  /**
+   * Capture the track's settings and channel data for a render worker
+   */
+  toSnapshot(): CLITrackSnapshot {
+    const channels: Float32Array[] = [];
+    for (let channel = 0; channel < this.numberOfChannels; channel++) {
+      channels.push(this.buffer.getChannelData(channel));
+    }
+
+    return {
+      id: this.id,
+      name: this.name,
+      color: this.color,
+      opacity: this.opacity,
+      volume: this.volume,
+      muted: this.muted,
+      solo: this.solo,
+      startOffset: this.startOffset,
+      sampleRate: this.sampleRate,
+      channels,
+      peakLevels: this.peakCache ? this.peakCache.levels : null
+    };
+  }
 }
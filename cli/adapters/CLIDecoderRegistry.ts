@@ -0,0 +1,170 @@
+import * as path from 'path';
+import { decode as decodeWav } from 'wav-decoder';
+import { FLACDecoder } from '@wasm-audio-decoders/flac';
+import { OggVorbisDecoder } from '@wasm-audio-decoders/ogg-vorbis';
+import { MPEGDecoder } from 'mpg123-decoder';
+import { AiffDecoder, type DecodedPCM } from '../../src/utils/AiffDecoder.js';
+
+/**
+ * A decoder that turns an encoded audio file into per-channel float samples
+ */
+export interface CLIAudioDecoder {
+  name: string;
+  extensions: string[]; // Lowercase, without the leading dot
+  decode(data: Buffer): Promise<DecodedPCM>;
+}
+
+/**
+ * Copy a Node Buffer into a standalone ArrayBuffer
+ */
+function toArrayBuffer(data: Buffer): ArrayBuffer {
+  return data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer;
+}
+
+/**
+ * Reject decoder results that produced no audio
+ */
+function checkDecoded(name: string, decoded: DecodedPCM): DecodedPCM {
+  if (decoded.channelData.length === 0 || decoded.channelData[0].length === 0) {
+    throw new Error(`${name} decoder produced no audio samples`);
+  }
+  return decoded;
+}
+
+const wavDecoder: CLIAudioDecoder = {
+  name: 'wav',
+  extensions: ['wav', 'wave'],
+  decode: async (data) => {
+    const audioData = await decodeWav(data);
+    return checkDecoded('WAV', {
+      sampleRate: audioData.sampleRate,
+      channelData: audioData.channelData,
+    });
+  },
+};
+
+const aiffDecoder: CLIAudioDecoder = {
+  name: 'aiff',
+  extensions: ['aif', 'aiff', 'aifc'],
+  decode: async (data) => checkDecoded('AIFF', AiffDecoder.decode(toArrayBuffer(data))),
+};
+
+const flacDecoder: CLIAudioDecoder = {
+  name: 'flac',
+  extensions: ['flac'],
+  decode: async (data) => {
+    const decoder = new FLACDecoder();
+    await decoder.ready;
+    try {
+      const result = await decoder.decodeFile(new Uint8Array(data));
+      return checkDecoded('FLAC', {
+        sampleRate: result.sampleRate,
+        channelData: result.channelData,
+      });
+    } finally {
+      decoder.free();
+    }
+  },
+};
+
+const mp3Decoder: CLIAudioDecoder = {
+  name: 'mp3',
+  extensions: ['mp3'],
+  decode: async (data) => {
+    const decoder = new MPEGDecoder();
+    await decoder.ready;
+    try {
+      const result = decoder.decode(new Uint8Array(data));
+      return checkDecoded('MP3', {
+        sampleRate: result.sampleRate,
+        channelData: result.channelData,
+      });
+    } finally {
+      decoder.free();
+    }
+  },
+};
+
+const oggDecoder: CLIAudioDecoder = {
+  name: 'ogg-vorbis',
+  extensions: ['ogg', 'oga'],
+  decode: async (data) => {
+    const decoder = new OggVorbisDecoder();
+    await decoder.ready;
+    try {
+      const result = await decoder.decodeFile(new Uint8Array(data));
+      return checkDecoded('OGG', {
+        sampleRate: result.sampleRate,
+        channelData: result.channelData,
+      });
+    } finally {
+      decoder.free();
+    }
+  },
+};
+
+/**
+ * Registry of CLI audio decoders keyed by file extension.
+ * Decoders registered later take precedence for the same extension.
+ */
+export class CLIDecoderRegistry {
+  private decoders: CLIAudioDecoder[] = [];
+
+  /**
+   * Create a registry with all built-in decoders (WAV, AIFF, FLAC, MP3, OGG Vorbis)
+   */
+  static createDefault(): CLIDecoderRegistry {
+    const registry = new CLIDecoderRegistry();
+    registry.register(wavDecoder);
+    registry.register(aiffDecoder);
+    registry.register(flacDecoder);
+    registry.register(mp3Decoder);
+    registry.register(oggDecoder);
+    return registry;
+  }
+
+  /**
+   * Register a decoder
+   */
+  register(decoder: CLIAudioDecoder): void {
+    this.decoders.push(decoder);
+  }
+
+  /**
+   * Find the decoder for a file path, or null if the extension is unsupported
+   */
+  findDecoder(filePath: string): CLIAudioDecoder | null {
+    const extension = path.extname(filePath).slice(1).toLowerCase();
+    for (let i = this.decoders.length - 1; i >= 0; i--) {
+      if (this.decoders[i].extensions.includes(extension)) {
+        return this.decoders[i];
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Get all supported file extensions
+   */
+  getSupportedExtensions(): string[] {
+    const extensions = new Set<string>();
+    for (const decoder of this.decoders) {
+      decoder.extensions.forEach((ext) => extensions.add(ext));
+    }
+    return [...extensions].sort();
+  }
+
+  /**
+   * Decode file contents using the decoder registered for its extension
+   */
+  async decode(filePath: string, data: Buffer): Promise<DecodedPCM> {
+    const decoder = this.findDecoder(filePath);
+    if (!decoder) {
+      throw new Error(
+        `Unsupported audio format "${path.extname(filePath)}". ` +
+          `Supported formats: ${this.getSupportedExtensions().join(', ')}`
+      );
+    }
+    return decoder.decode(data);
+  }
+}
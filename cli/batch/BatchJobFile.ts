@@ -0,0 +1,235 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { ConfigParser, type CLIExportConfig } from '../config.js';
+import { CLIDecoderRegistry } from '../adapters/CLIDecoderRegistry.js';
+import { FolderGlob } from '../utils/FolderGlob.js';
+import { SongFolder } from '../utils/SongFolder.js';
+import { Logger } from '../utils/Logger.js';
+import { ExportFormats } from '../../src/export/ExportFormats.js';
+
+/**
+ * A job file entry with a complete export config
+ */
+export interface BatchConfigEntry extends CLIExportConfig {
+  name?: string;
+}
+
+/**
+ * A job file entry that exports every song folder matching `songs` once per preset.
+ * A song's tracks are the audio files directly inside its folder, in name order, and
+ * its settings file (SongFolder.CONFIG_FILE) overrides the entry.
+ */
+export interface BatchSongsEntry extends Omit<Partial<CLIExportConfig>, 'audioFiles'> {
+  name?: string;
+  songs: string | string[]; // Folder glob(s), e.g. "songs/*"
+  presets?: string[]; // One export per preset (default: the entry's or defaults' preset)
+  output?: string; // Template with {song}, {preset} and {ext} (default: in the song folder)
+}
+
+/**
+ * Contents of a batch job file (JSON, or YAML for .yaml/.yml files)
+ */
+export interface BatchJobFileContent {
+  concurrency?: number; // Exports run at the same time (default: 1)
+  defaults?: Partial<CLIExportConfig>; // Merged into every entry
+  jobs: Array<BatchConfigEntry | BatchSongsEntry>;
+}
+
+/**
+ * One export of a batch
+ */
+export interface BatchJob {
+  name: string;
+  config: CLIExportConfig;
+}
+
+/**
+ * The exports listed by a job file
+ */
+export interface BatchPlan {
+  jobs: BatchJob[];
+  concurrency?: number;
+}
+
+/**
+ * Loads batch job files and expands them into individual export configs. Paths in the
+ * file (audio files, song globs, outputs) are relative to the working directory, like
+ * in export config files.
+ */
+export class BatchJobFile {
+  /** Output of a song export when the entry has no output template (in the song folder) */
+  static readonly SONG_OUTPUT_TEMPLATE = '{song} - {preset}.{ext}';
+
+  private configParser: ConfigParser;
+  private logger: Logger;
+  private decoders: CLIDecoderRegistry;
+
+  constructor(
+    configParser: ConfigParser,
+    logger: Logger,
+    decoders: CLIDecoderRegistry = CLIDecoderRegistry.createDefault()
+  ) {
+    this.configParser = configParser;
+    this.logger = logger;
+    this.decoders = decoders;
+  }
+
+  /**
+   * Load a job file and expand its entries
+   * @throws Error if the file cannot be read or an entry is invalid
+   */
+  async load(filePath: string): Promise<BatchPlan> {
+    let content: BatchJobFileContent;
+    try {
+      content = BatchJobFile.parse(await fs.readFile(filePath, 'utf-8'), filePath);
+    } catch (error) {
+      throw new Error(
+        `Failed to load job file: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+
+    const jobs: BatchJob[] = [];
+    for (let i = 0; i < content.jobs.length; i++) {
+      try {
+        jobs.push(...(await this.expandEntry(content.jobs[i], content.defaults ?? {})));
+      } catch (error) {
+        throw new Error(
+          `Job file entry ${i + 1}: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+
+    // Concurrent jobs must not overwrite each other's output
+    const outputs = new Map<string, string>();
+    for (const job of jobs) {
+      const output = path.resolve(job.config.output);
+      const other = outputs.get(output);
+      if (other) {
+        throw new Error(`Jobs "${other}" and "${job.name}" both write to ${job.config.output}`);
+      }
+      outputs.set(output, job.name);
+    }
+
+    return { jobs, concurrency: content.concurrency };
+  }
+
+  /**
+   * Parse job file contents (YAML for .yaml/.yml files, JSON otherwise)
+   * @throws Error if the contents are not a valid job file
+   */
+  static parse(content: string, filePath: string): BatchJobFileContent {
+    const extension = path.extname(filePath).toLowerCase();
+    const data =
+      extension === '.yaml' || extension === '.yml' ? parseYaml(content) : JSON.parse(content);
+
+    if (!data || typeof data !== 'object' || !Array.isArray(data.jobs) || data.jobs.length === 0) {
+      throw new Error('Job file must include a "jobs" array with at least one entry');
+    }
+    if (
+      data.concurrency !== undefined &&
+      (!Number.isInteger(data.concurrency) || data.concurrency < 1)
+    ) {
+      throw new Error('concurrency must be a positive integer');
+    }
+    if (
+      data.defaults !== undefined &&
+      (typeof data.defaults !== 'object' || Array.isArray(data.defaults))
+    ) {
+      throw new Error('defaults must be an object');
+    }
+
+    return data;
+  }
+
+  /**
+   * Fill {name} placeholders in an output template
+   */
+  static fillTemplate(template: string, values: Record<string, string>): string {
+    return template.replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match);
+  }
+
+  /**
+   * Expand an entry (merged over the defaults) into its exports
+   */
+  private async expandEntry(
+    entry: BatchConfigEntry | BatchSongsEntry,
+    defaults: Partial<CLIExportConfig>
+  ): Promise<BatchJob[]> {
+    if (!('songs' in entry)) {
+      const { name, ...config } = this.configParser.mergeConfig(
+        defaults,
+        entry
+      ) as BatchConfigEntry;
+      this.configParser.validateConfig(config);
+      return [{ name: name || config.output, config }];
+    }
+
+    const { songs, presets, ...settings } = entry;
+    const patterns = Array.isArray(songs) ? songs : [songs];
+    const merged = this.configParser.mergeConfig(defaults, settings) as Partial<BatchConfigEntry>;
+
+    const folders: string[] = [];
+    for (const pattern of patterns) {
+      const matches = await FolderGlob.expand(pattern);
+      if (matches.length === 0) {
+        this.logger.warn(`No song folders match "${pattern}"`);
+      }
+      folders.push(...matches.filter((folder) => !folders.includes(folder)));
+    }
+
+    const jobs: BatchJob[] = [];
+    for (const folder of folders) {
+      // The song's own settings file takes precedence over the entry
+      const songSettings = this.configParser.mergeConfig<Partial<BatchConfigEntry>>(
+        merged,
+        (await SongFolder.loadConfig(folder)) ?? {}
+      );
+      const audioFiles =
+        songSettings.audioFiles ?? (await SongFolder.findAudioFiles(folder, this.decoders));
+      if (audioFiles.length === 0) {
+        this.logger.warn(`Skipping ${folder}: no audio files`);
+        continue;
+      }
+
+      const song = path.basename(folder);
+      const songPresets = presets?.length ? presets : [songSettings.preset];
+      for (const preset of songPresets) {
+        const output = this.songOutput(songSettings, folder, song, preset);
+        const { name, ...rest } = songSettings;
+        const config: CLIExportConfig = { ...rest, audioFiles, output, preset };
+        this.configParser.validateConfig(config);
+        jobs.push({ name: [name, song, preset].filter(Boolean).join(' / '), config });
+      }
+    }
+
+    return jobs;
+  }
+
+  /**
+   * Output path of a song export, from the entry's template or next to the song's files
+   */
+  private songOutput(
+    settings: Partial<CLIExportConfig>,
+    folder: string,
+    song: string,
+    preset: string | undefined
+  ): string {
+    const exportSettings = settings.export ?? {};
+    const format = this.configParser.resolveFormat(exportSettings);
+
+    let template = settings.output;
+    if (!template) {
+      template = exportSettings.imageSequence
+        ? BatchJobFile.SONG_OUTPUT_TEMPLATE.replace('.{ext}', ' frames')
+        : BatchJobFile.SONG_OUTPUT_TEMPLATE;
+      template = path.join(folder, preset ? template : template.replace(' - {preset}', ''));
+    }
+
+    return BatchJobFile.fillTemplate(template, {
+      song,
+      preset: (preset ?? '').replace(/[\\/:*?"<>|]/g, '-'),
+      ext: ExportFormats.FORMATS[format].extension,
+    });
+  }
+}
@@ -0,0 +1,154 @@
+import * as fs from 'fs/promises';
+import { ConfigParser } from '../config.js';
+import { ExportJob, type ExportJobOptions } from '../export/ExportJob.js';
+import { Logger } from '../utils/Logger.js';
+import type { BatchJob } from './BatchJobFile.js';
+
+/**
+ * Outcome of one batch job
+ */
+export interface BatchResult {
+  name: string;
+  output: string;
+  status: 'succeeded' | 'failed';
+  seconds: number;
+  error?: string;
+}
+
+/**
+ * Summary written by --report
+ */
+export interface BatchReport {
+  startedAt: string;
+  seconds: number;
+  succeeded: number;
+  failed: number;
+  results: BatchResult[];
+}
+
+/**
+ * Runs batch jobs one after another, or up to `concurrency` at a time. A failed job is
+ * recorded and the batch continues with the next one.
+ */
+export class BatchRunner {
+  private logger: Logger;
+  private verbose: boolean;
+  private configParser: ConfigParser;
+
+  constructor(
+    logger: Logger,
+    verbose: boolean = false,
+    configParser: ConfigParser = new ConfigParser()
+  ) {
+    this.logger = logger;
+    this.verbose = verbose;
+    this.configParser = configParser;
+  }
+
+  /**
+   * Run all jobs
+   * @returns The results, in job order
+   */
+  async run(
+    jobs: BatchJob[],
+    concurrency: number = 1,
+    options: ExportJobOptions = {}
+  ): Promise<BatchResult[]> {
+    const results: BatchResult[] = new Array(jobs.length);
+    const runners = Math.max(1, Math.min(concurrency, jobs.length));
+    let next = 0;
+
+    // Each runner takes the next job until none are left
+    const runNext = async (): Promise<void> => {
+      while (next < jobs.length) {
+        const index = next++;
+        results[index] = await this.runJob(jobs[index], index, jobs.length, runners > 1, options);
+      }
+    };
+
+    await Promise.all(Array.from({ length: runners }, runNext));
+    return results;
+  }
+
+  /**
+   * Print the successes, failures and timings of a batch
+   */
+  printSummary(results: BatchResult[], seconds: number): void {
+    const failed = results.filter((result) => result.status === 'failed').length;
+    const nameWidth = Math.max(...results.map((result) => result.name.length));
+
+    this.logger.info('');
+    this.logger.info('Batch summary:');
+    for (const result of results) {
+      const line = `${result.name.padEnd(nameWidth)}  ${this.logger.formatTime(result.seconds).padStart(7)}  `;
+      if (result.status === 'succeeded') {
+        this.logger.success(`${line}${result.output}`);
+      } else {
+        this.logger.error(`${line}${result.error}`);
+      }
+    }
+
+    this.logger.info('');
+    this.logger.info(
+      `${results.length - failed} succeeded, ${failed} failed, ` +
+        `${results.length} job(s) in ${this.logger.formatTime(seconds)}`
+    );
+  }
+
+  /**
+   * Write the summary as JSON
+   */
+  async writeReport(
+    reportPath: string,
+    results: BatchResult[],
+    startedAt: Date,
+    seconds: number
+  ): Promise<void> {
+    const report: BatchReport = {
+      startedAt: startedAt.toISOString(),
+      seconds,
+      succeeded: results.filter((result) => result.status === 'succeeded').length,
+      failed: results.filter((result) => result.status === 'failed').length,
+      results,
+    };
+    await fs.writeFile(reportPath, JSON.stringify(report, null, 2));
+    this.logger.info(`Report written to ${reportPath}`);
+  }
+
+  private async runJob(
+    job: BatchJob,
+    index: number,
+    total: number,
+    concurrent: boolean,
+    options: ExportJobOptions
+  ): Promise<BatchResult> {
+    const label = `${index + 1}/${total}`;
+    const startTime = Date.now();
+
+    // Concurrent jobs label their lines, since their output interleaves
+    const logger = new Logger(this.verbose, concurrent ? label : '');
+    this.logger.info(
+      concurrent ? `Starting job ${label}: ${job.name}` : `\nJob ${label}: ${job.name}`
+    );
+
+    try {
+      const output = await ExportJob.run({ ...job.config }, logger, options, this.configParser);
+      return {
+        name: job.name,
+        output,
+        status: 'succeeded',
+        seconds: (Date.now() - startTime) / 1000,
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error occurred';
+      logger.error(message);
+      return {
+        name: job.name,
+        output: job.config.output,
+        status: 'failed',
+        seconds: (Date.now() - startTime) / 1000,
+        error: message,
+      };
+    }
+  }
+}
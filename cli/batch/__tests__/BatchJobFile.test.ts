@@ -0,0 +1,227 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { BatchJobFile } from '../BatchJobFile.js';
+import { ConfigParser } from '../../config.js';
+import { Logger } from '../../utils/Logger.js';
+
+describe('BatchJobFile', () => {
+  describe('parse', () => {
+    it('should parse JSON job files', () => {
+      const content = BatchJobFile.parse(
+        JSON.stringify({ concurrency: 2, jobs: [{ audioFiles: ['a.wav'], output: 'a.mp4' }] }),
+        'jobs.json'
+      );
+
+      expect(content.concurrency).toBe(2);
+      expect(content.jobs).toHaveLength(1);
+    });
+
+    it('should parse YAML job files by extension', () => {
+      const yaml = ['defaults:', '  preset: Neon', 'jobs:', '  - songs: songs/*'].join('\n');
+
+      for (const file of ['jobs.yaml', 'JOBS.YML']) {
+        const content = BatchJobFile.parse(yaml, file);
+
+        expect(content.defaults).toEqual({ preset: 'Neon' });
+        expect(content.jobs).toEqual([{ songs: 'songs/*' }]);
+      }
+    });
+
+    it('should require a non-empty jobs array', () => {
+      expect(() => BatchJobFile.parse('{}', 'jobs.json')).toThrow('"jobs" array');
+      expect(() => BatchJobFile.parse('{"jobs": []}', 'jobs.json')).toThrow('"jobs" array');
+      expect(() => BatchJobFile.parse('null', 'jobs.json')).toThrow('"jobs" array');
+    });
+
+    it('should validate concurrency and defaults', () => {
+      const jobs = '"jobs": [{ "songs": "songs/*" }]';
+
+      expect(() => BatchJobFile.parse(`{ "concurrency": 0, ${jobs} }`, 'jobs.json')).toThrow(
+        'concurrency must be a positive integer'
+      );
+      expect(() => BatchJobFile.parse(`{ "concurrency": 1.5, ${jobs} }`, 'jobs.json')).toThrow(
+        'concurrency must be a positive integer'
+      );
+      expect(() => BatchJobFile.parse(`{ "defaults": [], ${jobs} }`, 'jobs.json')).toThrow(
+        'defaults must be an object'
+      );
+    });
+
+    it('should reject malformed JSON', () => {
+      expect(() => BatchJobFile.parse('{ jobs', 'jobs.json')).toThrow();
+    });
+  });
+
+  describe('fillTemplate', () => {
+    it('should fill known placeholders and keep unknown ones', () => {
+      const output = BatchJobFile.fillTemplate('out/{song}/{preset}-{take}.{ext}', {
+        song: 'Intro',
+        preset: 'Neon',
+        ext: 'mp4',
+      });
+
+      expect(output).toBe('out/Intro/Neon-{take}.mp4');
+    });
+
+    it('should fill a placeholder every time it appears', () => {
+      expect(BatchJobFile.fillTemplate('{song}/{song}.{ext}', { song: 'a', ext: 'webm' })).toBe(
+        'a/a.webm'
+      );
+    });
+  });
+
+  describe('load', () => {
+    let root: string;
+    let logger: Logger;
+    let jobFile: BatchJobFile;
+
+    async function writeSong(name: string, files: string[]): Promise<string> {
+      const folder = path.join(root, 'songs', name);
+      await fs.mkdir(folder, { recursive: true });
+      for (const file of files) {
+        await fs.writeFile(path.join(folder, file), '');
+      }
+      return folder;
+    }
+
+    async function load(content: object): Promise<ReturnType<BatchJobFile['load']>> {
+      const filePath = path.join(root, 'jobs.json');
+      await fs.writeFile(filePath, JSON.stringify(content));
+      return jobFile.load(filePath);
+    }
+
+    beforeEach(async () => {
+      root = await fs.mkdtemp(path.join(os.tmpdir(), 'batch-job-file-test-'));
+      logger = new Logger();
+      vi.spyOn(logger, 'warn').mockImplementation(() => {});
+      jobFile = new BatchJobFile(new ConfigParser(), logger);
+    });
+
+    afterEach(async () => {
+      await fs.rm(root, { recursive: true, force: true });
+    });
+
+    it('should merge the defaults into config entries', async () => {
+      const plan = await load({
+        concurrency: 2,
+        defaults: { preset: 'Neon' },
+        jobs: [{ audioFiles: ['a.wav'], output: 'a.mp4' }],
+      });
+
+      expect(plan.concurrency).toBe(2);
+      expect(plan.jobs).toHaveLength(1);
+      expect(plan.jobs[0].name).toBe('a.mp4');
+      expect(plan.jobs[0].config).toMatchObject({
+        audioFiles: ['a.wav'],
+        output: 'a.mp4',
+        preset: 'Neon',
+      });
+    });
+
+    it('should export every song folder once per preset', async () => {
+      const alpha = await writeSong('alpha', ['2-bass.wav', '1-drums.wav', 'notes.txt']);
+      const beta = await writeSong('beta', ['vox.mp3', '.partial.wav']);
+
+      const plan = await load({
+        jobs: [
+          {
+            name: 'Album',
+            songs: path.join(root, 'songs', '*'),
+            presets: ['Neon', 'Mono/Dark'],
+            output: path.join(root, 'out', '{song} ({preset}).{ext}'),
+          },
+        ],
+      });
+
+      expect(plan.jobs.map((job) => job.name)).toEqual([
+        'Album / alpha / Neon',
+        'Album / alpha / Mono/Dark',
+        'Album / beta / Neon',
+        'Album / beta / Mono/Dark',
+      ]);
+      expect(plan.jobs[0].config.audioFiles).toEqual([
+        path.join(alpha, '1-drums.wav'),
+        path.join(alpha, '2-bass.wav'),
+      ]);
+      expect(plan.jobs[2].config.audioFiles).toEqual([path.join(beta, 'vox.mp3')]);
+      expect(plan.jobs[1].config.preset).toBe('Mono/Dark');
+      expect(plan.jobs[1].config.output).toBe(path.join(root, 'out', 'alpha (Mono-Dark).mp4'));
+    });
+
+    it('should write into the song folder by default', async () => {
+      const alpha = await writeSong('alpha', ['drums.wav']);
+
+      const plan = await load({
+        jobs: [
+          { songs: path.join(root, 'songs', '*'), presets: ['Neon'], export: { format: 'webm' } },
+          { songs: path.join(root, 'songs', 'alpha'), output: path.join(root, '{song}.{ext}') },
+        ],
+      });
+
+      expect(plan.jobs.map((job) => job.config.output)).toEqual([
+        path.join(alpha, 'alpha - Neon.webm'),
+        path.join(root, 'alpha.mp4'),
+      ]);
+    });
+
+    it("should let a song's settings file override the entry", async () => {
+      const alpha = await writeSong('alpha', ['drums.wav', 'bass.wav']);
+      await fs.writeFile(
+        path.join(alpha, 'visualizer.json'),
+        JSON.stringify({ preset: 'Mono', audioFiles: ['bass.wav'], output: 'ignored.mp4' })
+      );
+
+      const plan = await load({
+        jobs: [{ songs: path.join(root, 'songs', '*'), preset: 'Neon' }],
+      });
+
+      expect(plan.jobs).toHaveLength(1);
+      expect(plan.jobs[0].config.preset).toBe('Mono');
+      expect(plan.jobs[0].config.audioFiles).toEqual([path.join(alpha, 'bass.wav')]);
+      expect(plan.jobs[0].config.output).toBe(path.join(alpha, 'alpha - Mono.mp4'));
+    });
+
+    it('should skip song folders without audio and warn about unmatched globs', async () => {
+      await writeSong('empty', ['cover.jpg']);
+
+      const plan = await load({
+        jobs: [
+          { songs: path.join(root, 'songs', '*') },
+          { songs: path.join(root, 'missing', '*') },
+          { audioFiles: ['a.wav'], output: 'a.mp4' },
+        ],
+      });
+
+      expect(plan.jobs.map((job) => job.name)).toEqual(['a.mp4']);
+      expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('no audio files'));
+      expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('No song folders match'));
+    });
+
+    it('should reject jobs that write to the same output', async () => {
+      await writeSong('alpha', ['drums.wav']);
+
+      await expect(
+        load({
+          jobs: [
+            { name: 'first', audioFiles: ['a.wav'], output: path.join(root, 'out.mp4') },
+            { songs: path.join(root, 'songs', '*'), output: path.join(root, 'out.{ext}') },
+          ],
+        })
+      ).rejects.toThrow(`Jobs "first" and "alpha" both write to ${path.join(root, 'out.mp4')}`);
+    });
+
+    it('should report the entry an invalid config comes from', async () => {
+      await expect(
+        load({ jobs: [{ audioFiles: ['a.wav'], output: 'a.mp4' }, { output: 'b.mp4' }] })
+      ).rejects.toThrow('Job file entry 2:');
+    });
+
+    it('should report unreadable job files', async () => {
+      await expect(jobFile.load(path.join(root, 'missing.json'))).rejects.toThrow(
+        'Failed to load job file'
+      );
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { BatchRunner } from '../BatchRunner.js';
+import { ExportJob } from '../../export/ExportJob.js';
+import { Logger } from '../../utils/Logger.js';
+import type { BatchJob } from '../BatchJobFile.js';
+import type { CLIExportConfig } from '../../config.js';
+
+vi.mock('../../export/ExportJob.js', () => ({ ExportJob: { run: vi.fn() } }));
+
+/**
+ * Jobs whose exports take `delays[i]` milliseconds (read back from their audio file name
+ * by the mocked export); the jobs at the `failing` indices write to "fail.mp4" and fail
+ */
+function createJobs(delays: number[], failing: number[] = []): BatchJob[] {
+  return delays.map((delay, i) => ({
+    name: `job ${i + 1}`,
+    config: {
+      audioFiles: [`${delay}.wav`],
+      output: failing.includes(i) ? 'fail.mp4' : `out-${i + 1}.mp4`,
+    } as CLIExportConfig,
+  }));
+}
+
+describe('BatchRunner', () => {
+  let running: number;
+  let maxRunning: number;
+
+  beforeEach(() => {
+    running = 0;
+    maxRunning = 0;
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    vi.mocked(ExportJob.run).mockReset();
+    vi.mocked(ExportJob.run).mockImplementation(async (config) => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise((resolve) => setTimeout(resolve, parseInt(String(config.audioFiles[0]))));
+      running--;
+      if (config.output === 'fail.mp4') {
+        throw new Error('FFmpeg exited with code 1');
+      }
+      return config.output;
+    });
+  });
+
+  describe('run', () => {
+    it('should return the results in job order when jobs finish out of order', async () => {
+      const runner = new BatchRunner(new Logger());
+
+      const results = await runner.run(createJobs([30, 5, 15, 1]), 3);
+
+      expect(results.map((result) => result.name)).toEqual(['job 1', 'job 2', 'job 3', 'job 4']);
+      expect(results.map((result) => result.output)).toEqual([
+        'out-1.mp4',
+        'out-2.mp4',
+        'out-3.mp4',
+        'out-4.mp4',
+      ]);
+      expect(maxRunning).toBe(3);
+    });
+
+    it('should run one job at a time by default', async () => {
+      const runner = new BatchRunner(new Logger());
+
+      await runner.run(createJobs([5, 1, 5]));
+
+      expect(maxRunning).toBe(1);
+      expect(ExportJob.run).toHaveBeenCalledTimes(3);
+    });
+
+    it('should record a failed job and continue with the others', async () => {
+      const runner = new BatchRunner(new Logger());
+
+      const results = await runner.run(createJobs([1, 1, 1], [1]), 2);
+
+      expect(results.map((result) => result.status)).toEqual(['succeeded', 'failed', 'succeeded']);
+      expect(results[1]).toMatchObject({ output: 'fail.mp4', error: 'FFmpeg exited with code 1' });
+    });
+
+    it('should not start more runners than jobs', async () => {
+      const runner = new BatchRunner(new Logger());
+
+      const results = await runner.run(createJobs([1, 1]), 8);
+
+      expect(results).toHaveLength(2);
+      expect(maxRunning).toBe(2);
+    });
+  });
+});
@@ -1,27 +1,62 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import type { Preset, PresetSettings } from '../src/types/preset.types.js';
-import type { ExportOptions } from '../src/types/audio.types.js';
-import type { LayoutMode, AmplitudeMode } from '../src/types/visualizer.types.js';
+import type { ExportCodec, ExportFormat, ExportOptions, ImageSequenceFormat } from '../src/types/audio.types.js';
+import type { LayoutMode, AmplitudeMode, SpectrumSettings } from '../src/types/visualizer.types.js';
+import { TimeSync } from '../src/utils/TimeSync.js';
+import { FrequencyBands } from '../src/visualization/FrequencyBands.js';
+import { RenderContext } from '../src/rendering/RenderContext.js';
+import { ExportFormats } from '../src/export/ExportFormats.js';
+import type { CLIFrameMode } from './export/CLIVideoExporter.js';
 
 export interface CLIExportConfig {
-  audioFiles: string[];
+  audioFiles: string[] | CLIAudioFileConfig[];
   preset?: string;
   output: string;
-  overrides?: Partial<PresetSettings>;
+  overrides?: CLIPresetOverrides;
   export?: Partial<{
     fps: number;
-    codec: 'h264' | 'h265';
+    format: ExportFormat; // Default: from the output file extension, else mp4
+    codec: ExportCodec; // Default: the format's default codec
     quality: number;
     audioBitrate: string;
+    hideMutedTracks: boolean;
+    imageSequence: ImageSequenceFormat; // Write png/jpeg frames + audio.wav to the output directory instead of a video
+    transparentBackground: boolean; // Requires an alpha-capable codec (vp9, prores, apng)
+    startTime: number | string; // Seconds or "mm:ss.ms"
+    endTime: number | string; // Seconds or "mm:ss.ms"
+    width: number; // Output width in pixels
+    height: number; // Output height in pixels
+    aspect: string; // Aspect ratio "W:H", used when width or height is missing
+    frameMode: 'pipe' | 'png'; // Stream raw frames to FFmpeg (default) or write temp PNGs
+    jobs: number; // Worker threads rendering frames in parallel (default: 1)
+    workDir: string; // Keep frames here (not in a temp dir) so an interrupted export can be resumed
+    resume: boolean; // Use the work directory "<output>.work" (shorthand for workDir)
   }>;
+  autoAlign?: boolean | CLIAutoAlignConfig;
   verbose?: boolean;
 }
 
+/**
+ * Preset settings to override; spectrum settings are overridden one by one
+ */
+export type CLIPresetOverrides = Omit<Partial<PresetSettings>, 'spectrum'> & {
+  spectrum?: Partial<SpectrumSettings>;
+};
+
+export interface CLIAutoAlignConfig {
+  reference?: number | 'mix'; // 1-based track number, or 'mix' of the other tracks (default)
+  maxLag?: number; // Largest offset searched in seconds (default: 10)
+}
+
 export interface CLIAudioFileConfig {
   path: string;
   color?: string;
   opacity?: number;
+  volume?: number;
+  muted?: boolean;
+  solo?: boolean;
+  offset?: number; // Start offset on the timeline in seconds (negative trims the start)
 }
 
 export class ConfigParser {
@@ -81,7 +116,7 @@ export class ConfigParser {
   /**
    * Validate config structure
    */
-  private validateConfig(config: any): void {
+  validateConfig(config: any): void {
     if (!config.audioFiles || !Array.isArray(config.audioFiles) || config.audioFiles.length === 0) {
       throw new Error('Config must include "audioFiles" array with at least one file');
     }
@@ -101,13 +136,23 @@ export class ConfigParser {
     if (config.export) {
       this.validateExportSettings(config.export);
     }
+
+    if (config.autoAlign !== undefined && typeof config.autoAlign !== 'boolean') {
+      const { reference, maxLag } = config.autoAlign;
+      if (reference !== undefined && reference !== 'mix' && !Number.isInteger(reference)) {
+        throw new Error('autoAlign.reference must be a track number or "mix"');
+      }
+      if (maxLag !== undefined && (typeof maxLag !== 'number' || maxLag <= 0)) {
+        throw new Error('autoAlign.maxLag must be a positive number of seconds');
+      }
+    }
   }
 
   /**
    * Validate preset settings partial
    */
-  private validatePresetSettings(settings: Partial<PresetSettings>): void {
-    const validLayouts: LayoutMode[] = ['overlay', 'overlay-additive', 'stacked', 'spectrum-overlay', 'spectrum-stacked'];
+  private validatePresetSettings(settings: CLIPresetOverrides): void {
+    const validLayouts: LayoutMode[] = ['overlay', 'overlay-additive', 'stacked', 'spectrum-overlay', 'spectrum-stacked', 'spectrogram', 'spectrogram-stacked'];
     const validAmplitudeModes: AmplitudeMode[] = ['individual', 'normalized'];
 
     if (settings.layout && !validLayouts.includes(settings.layout)) {
@@ -129,6 +174,11 @@ export class ConfigParser {
     if (settings.windowDuration !== undefined && settings.windowDuration <= 0) {
       throw new Error('windowDuration must be greater than 0');
     }
+
+    // Ranges are checked once merged with the preset (buildExportOptions)
+    if (settings.spectrum !== undefined && (typeof settings.spectrum !== 'object' || settings.spectrum === null)) {
+      throw new Error('spectrum must be an object');
+    }
   }
 
   /**
@@ -139,13 +189,113 @@ export class ConfigParser {
       throw new Error('fps must be between 1 and 120');
     }
 
-    if (exportSettings.codec && exportSettings.codec !== 'h264' && exportSettings.codec !== 'h265') {
-      throw new Error('codec must be "h264" or "h265"');
+    if (exportSettings.format || exportSettings.codec) {
+      const format = exportSettings.format || this.findFormatForCodec(exportSettings.codec);
+      ExportFormats.validate(format, exportSettings.codec);
     }
 
     if (exportSettings.quality && (exportSettings.quality < 0 || exportSettings.quality > 51)) {
       throw new Error('quality (CRF) must be between 0 and 51');
     }
+
+    if (exportSettings.hideMutedTracks !== undefined && typeof exportSettings.hideMutedTracks !== 'boolean') {
+      throw new Error('hideMutedTracks must be a boolean');
+    }
+
+    if (exportSettings.imageSequence !== undefined) {
+      ExportFormats.validateImageSequence(exportSettings.imageSequence);
+    }
+
+    if (exportSettings.transparentBackground !== undefined && typeof exportSettings.transparentBackground !== 'boolean') {
+      throw new Error('transparentBackground must be a boolean');
+    }
+
+    const startTime = exportSettings.startTime !== undefined ? this.parseTime(exportSettings.startTime, 'startTime') : 0;
+    const endTime = exportSettings.endTime !== undefined ? this.parseTime(exportSettings.endTime, 'endTime') : undefined;
+    if (endTime !== undefined && endTime <= startTime) {
+      throw new Error('endTime must be after startTime');
+    }
+
+    for (const key of ['width', 'height']) {
+      if (exportSettings[key] !== undefined && !Number.isInteger(exportSettings[key])) {
+        throw new Error(`${key} must be an integer number of pixels`);
+      }
+    }
+    RenderContext.resolveExportSize(exportSettings.width, exportSettings.height, exportSettings.aspect);
+
+    if (exportSettings.frameMode && exportSettings.frameMode !== 'pipe' && exportSettings.frameMode !== 'png') {
+      throw new Error('frameMode must be "pipe" or "png"');
+    }
+
+    if (exportSettings.jobs !== undefined) {
+      this.parseJobs(exportSettings.jobs);
+    }
+
+    if (exportSettings.workDir !== undefined && (typeof exportSettings.workDir !== 'string' || !exportSettings.workDir)) {
+      throw new Error('workDir must be a directory path');
+    }
+
+    if (exportSettings.resume !== undefined && typeof exportSettings.resume !== 'boolean') {
+      throw new Error('resume must be a boolean');
+    }
+  }
+
+  /**
+   * Container of export settings before the output path is known: the format, else the
+   * codec's format, else mp4
+   */
+  resolveFormat(exportSettings: CLIExportConfig['export'] = {}): ExportFormat {
+    if (exportSettings.format) {
+      return exportSettings.format;
+    }
+    return exportSettings.codec ? this.findFormatForCodec(exportSettings.codec) : 'mp4';
+  }
+
+  /**
+   * Merge config settings over a base (overrides and export settings are merged key by key)
+   */
+  mergeConfig<T extends Partial<CLIExportConfig>>(base: Partial<CLIExportConfig>, config: T): T {
+    return {
+      ...base,
+      ...config,
+      overrides: {
+        ...base.overrides,
+        ...config.overrides,
+        spectrum: { ...base.overrides?.spectrum, ...config.overrides?.spectrum }
+      },
+      export: { ...base.export, ...config.export }
+    };
+  }
+
+  /**
+   * Find the format that holds a codec (e.g. vp9 -> webm)
+   */
+  findFormatForCodec(codec: string): ExportFormat {
+    const formats = Object.keys(ExportFormats.FORMATS) as ExportFormat[];
+    const format = formats.find(f => ExportFormats.FORMATS[f].codecs.includes(codec as ExportCodec));
+    if (!format) {
+      const codecs = formats.flatMap(f => ExportFormats.FORMATS[f].codecs);
+      throw new Error(`Invalid codec: "${codec}". Must be one of: ${codecs.join(', ')}`);
+    }
+    return format;
+  }
+
+  /**
+   * Parse a time value given in seconds or as a "mm:ss.ms" timecode
+   */
+  parseTime(value: number | string, name: string): number {
+    if (typeof value === 'number') {
+      if (!Number.isFinite(value) || value < 0) {
+        throw new Error(`${name} must be a non-negative number of seconds`);
+      }
+      return value;
+    }
+
+    try {
+      return TimeSync.parseTimecode(String(value));
+    } catch (error) {
+      throw new Error(`${name}: ${(error as Error).message}`);
+    }
   }
 
   /**
@@ -175,14 +325,33 @@ export class ConfigParser {
     }
 
     // Apply overrides
-    if (config.overrides) {
-      settings = { ...settings, ...config.overrides };
+    const { spectrum: spectrumOverrides, ...overrides } = config.overrides ?? {};
+    settings = { ...settings, ...overrides };
+    const spectrum = FrequencyBands.resolve({ ...settings.spectrum, ...spectrumOverrides });
+    FrequencyBands.validate(spectrum);
+
+    // Format: explicit, else from the codec or output extension, else MP4
+    const format = config.export?.format
+      || (config.export?.codec ? this.findFormatForCodec(config.export.codec) : null)
+      || ExportFormats.formatForPath(config.output)
+      || 'mp4';
+    ExportFormats.validate(format, config.export?.codec);
+    const codec = config.export?.codec || ExportFormats.defaultCodec(format);
+    const imageSequence = config.export?.imageSequence;
+    if (imageSequence) {
+      ExportFormats.validateImageSequence(imageSequence);
+      if (imageSequence === 'webp') {
+        throw new Error('WebP image sequences are only supported in the browser (node-canvas cannot encode WebP); use png or jpeg');
+      }
+    }
+    if (config.export?.transparentBackground) {
+      ExportFormats.validateTransparency({ codec, imageSequence });
     }
 
     // Build export options
     const exportOptions: ExportOptions = {
-      format: 'mp4',
-      codec: config.export?.codec || 'h264',
+      format,
+      codec,
       fps: config.export?.fps || settings.fpsCap || 60,
       quality: config.export?.quality || 23,
       audioBitrate: config.export?.audioBitrate || '192k',
@@ -190,7 +359,14 @@ export class ConfigParser {
       amplitudeMode: settings.amplitudeMode,
       heightPercent: settings.heightPercent,
       smoothingLevel: settings.smoothingLevel,
-      windowDuration: settings.windowDuration
+      windowDuration: settings.windowDuration,
+      hideMutedTracks: config.export?.hideMutedTracks || false,
+      spectrum,
+      imageSequence,
+      transparentBackground: config.export?.transparentBackground || false,
+      startTime: config.export?.startTime !== undefined ? this.parseTime(config.export.startTime, 'startTime') : undefined,
+      endTime: config.export?.endTime !== undefined ? this.parseTime(config.export.endTime, 'endTime') : undefined,
+      ...RenderContext.resolveExportSize(config.export?.width, config.export?.height, config.export?.aspect)
     };
 
     return exportOptions;
@@ -205,17 +381,111 @@ export class ConfigParser {
         return {
           path: file,
           color: this.getDefaultColor(index),
-          opacity: 0.7
+          opacity: 0.7,
+          volume: 1,
+          muted: false,
+          solo: false,
+          offset: 0
         };
       }
       return {
         path: file.path,
         color: file.color || this.getDefaultColor(index),
-        opacity: file.opacity !== undefined ? file.opacity : 0.7
+        opacity: file.opacity !== undefined ? file.opacity : 0.7,
+        volume: file.volume !== undefined ? file.volume : 1,
+        muted: file.muted || false,
+        solo: file.solo || false,
+        offset: file.offset || 0
       };
     });
   }
 
+  /**
+   * Parse comma-separated 1-based track numbers into 0-based indices
+   */
+  parseTrackIndices(value: string, trackCount: number): number[] {
+    return value.split(',').map(part => {
+      const trackNumber = parseInt(part.trim(), 10);
+      if (isNaN(trackNumber) || trackNumber < 1 || trackNumber > trackCount) {
+        throw new Error(`Invalid track number: "${part.trim()}". Must be between 1 and ${trackCount}`);
+      }
+      return trackNumber - 1;
+    });
+  }
+
+  /**
+   * Parse comma-separated per-track start offsets in seconds (one value per track, in order)
+   */
+  parseTrackOffsets(value: string, trackCount: number): number[] {
+    const parts = value.split(',');
+    if (parts.length > trackCount) {
+      throw new Error(`Too many offsets: got ${parts.length} for ${trackCount} track(s)`);
+    }
+    return parts.map(part => {
+      const offset = part.trim() === '' ? 0 : Number(part.trim());
+      if (!Number.isFinite(offset)) {
+        throw new Error(`Invalid track offset: "${part.trim()}". Must be a number of seconds`);
+      }
+      return offset;
+    });
+  }
+
+  /**
+   * Resolve the frame transport mode (default: pipe)
+   */
+  parseFrameMode(frameMode: string | undefined): CLIFrameMode {
+    if (frameMode === undefined || frameMode === 'pipe' || frameMode === 'png') {
+      return frameMode ?? 'pipe';
+    }
+    throw new Error(`Invalid frame mode: "${frameMode}". Must be "pipe" or "png"`);
+  }
+
+  /**
+   * Validate the number of render jobs (default: 1)
+   */
+  parseJobs(jobs: number | undefined): number {
+    if (jobs === undefined) {
+      return 1;
+    }
+    if (!Number.isInteger(jobs) || jobs < 1) {
+      throw new Error(`Invalid jobs: "${jobs}". Must be a positive integer`);
+    }
+    return jobs;
+  }
+
+  /**
+   * Resolve the work directory of a resumable export, or null to render into a temp
+   * directory that is removed afterwards. `resume` is a shorthand for the work directory
+   * "<output>.work".
+   */
+  parseWorkDir(config: CLIExportConfig): string | null {
+    const { workDir, resume, imageSequence } = config.export ?? {};
+    if (!workDir && !resume) {
+      return null;
+    }
+    if (imageSequence) {
+      throw new Error('--work-dir/--resume cannot be used with image sequences (frames are written to the output directory)');
+    }
+    return path.resolve(workDir || `${config.output}.work`);
+  }
+
+  /**
+   * Resolve auto-align settings to a 0-based reference index (null = mix), or null if disabled
+   */
+  parseAutoAlign(
+    autoAlign: boolean | CLIAutoAlignConfig | undefined,
+    trackCount: number
+  ): { referenceIndex: number | null; maxLag?: number } | null {
+    if (!autoAlign) {
+      return null;
+    }
+    if (autoAlign === true || autoAlign.reference === undefined || autoAlign.reference === 'mix') {
+      return { referenceIndex: null, maxLag: autoAlign === true ? undefined : autoAlign.maxLag };
+    }
+    const [referenceIndex] = this.parseTrackIndices(String(autoAlign.reference), trackCount);
+    return { referenceIndex, maxLag: autoAlign.maxLag };
+  }
+
   /**
    * Get default color for track index
    */
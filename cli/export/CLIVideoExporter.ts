@@ -1,35 +1,40 @@
-import { createCanvas, Canvas } from 'canvas';
 import * as fs from 'fs/promises';
 import * as os from 'os';
 import * as path from 'path';
-import { spawn } from 'child_process';
-import { WaveformRenderer } from '../../src/rendering/WaveformRenderer.js';
+import { spawn, ChildProcess } from 'child_process';
+import { once } from 'events';
 import { RenderContext } from '../../src/rendering/RenderContext.js';
 import { CLIAudioTrack } from '../adapters/CLIAudioTrack.js';
 import { CLIAudioEngine } from '../adapters/CLIAudioEngine.js';
 import { Logger } from '../utils/Logger.js';
 import { ProgressReporter } from '../utils/ProgressReporter.js';
-import type { ExportOptions } from '../../src/types/audio.types.js';
+import { FrameRenderer, RAW_PIXEL_FORMAT, type FrameEncoding } from './FrameRenderer.js';
+import { RenderWorkerPool } from './RenderWorkerPool.js';
+import { WorkDirectory } from './WorkDirectory.js';
+import { TimeSync } from '../../src/utils/TimeSync.js';
+import { ExportFormats } from '../../src/export/ExportFormats.js';
+import type { ExportOptions, ImageSequenceFormat } from '../../src/types/audio.types.js';
+
+/**
+ * How rendered frames reach FFmpeg:
+ * - pipe: raw pixels streamed to FFmpeg's stdin while rendering (default)
+ * - png: PNG files written to a temp directory, encoded afterwards (fallback)
+ */
+export type CLIFrameMode = 'pipe' | 'png';
 
 export class CLIVideoExporter {
-  private canvas: Canvas;
-  private renderer: WaveformRenderer;
+  private frameRenderer: FrameRenderer;
   private logger: Logger;
   private audioEngine: CLIAudioEngine;
   private tempDir: string | null = null;
+  private jobs: number = 1;
 
   constructor(audioEngine: CLIAudioEngine, logger: Logger) {
     this.audioEngine = audioEngine;
     this.logger = logger;
 
-    // Create offscreen canvas at fixed 1920x1080
-    this.canvas = createCanvas(1920, 1080);
-
-    // Create render context for export
-    const context = RenderContext.forExport();
-
-    // Create renderer (cast canvas to any for type compatibility)
-    this.renderer = new WaveformRenderer(this.canvas as any, context);
+    // Renders frames on this thread (render workers have their own)
+    this.frameRenderer = new FrameRenderer();
   }
 
   /**
@@ -60,26 +65,51 @@ export class CLIVideoExporter {
 
   /**
    * Export video with visualization
+   * @param jobs - Number of worker threads to render frames on (1 renders on the main thread)
+   * @param workDir - Keep frames in this directory instead of a temp directory (implies png
+   *   frame mode), so an interrupted export resumes when run again
    */
   async export(
     options: ExportOptions,
     outputPath: string,
     verbose: boolean = false,
-    maxFrames?: number
+    maxFrames?: number,
+    frameMode: CLIFrameMode = 'pipe',
+    jobs: number = 1,
+    workDir?: string
   ): Promise<void> {
     const startTime = Date.now();
+    let completed = false;
 
-    try {
-      // Check FFmpeg availability
-      await this.checkFFmpeg();
+    // Image sequences are written directly to the output directory without FFmpeg
+    if (options.imageSequence) {
+      workDir = undefined;
+    }
 
-      // Create temporary directory for frames
-      this.tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'visualizer-'));
-      this.logger.verbose(`Created temp directory: ${this.tempDir}`);
+    try {
+      if (workDir) {
+        // Frames have to reach the disk to survive an interruption
+        await this.checkFFmpeg();
+        frameMode = 'png';
+        this.tempDir = null;
+        this.logger.verbose(`Using work directory: ${workDir}`);
+      } else if (!options.imageSequence) {
+        // Check FFmpeg availability
+        await this.checkFFmpeg();
+
+        // Create temporary directory for the mixed audio (and PNG frames in png mode)
+        this.tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'visualizer-'));
+        this.logger.verbose(`Created temp directory: ${this.tempDir}`);
+      }
 
       const tracks = this.audioEngine.getTracks();
       const duration = this.audioEngine.getDuration();
-      let totalFrames = Math.ceil(duration * options.fps);
+      const range = TimeSync.resolveTimeRange(options.startTime, options.endTime, duration);
+      let totalFrames = Math.ceil((range.end - range.start) * options.fps);
+
+      // Size the canvas to the output resolution
+      const size = RenderContext.resolveExportSize(options.width, options.height, options.aspect);
+      this.frameRenderer.resize(size.width, size.height);
 
       // Limit frames for testing if specified
       if (maxFrames !== undefined && maxFrames > 0) {
@@ -87,53 +117,134 @@ export class CLIVideoExporter {
         this.logger.warn(`\nLIMITED TEST MODE: Rendering only ${totalFrames} frames`);
       }
 
+      // No more workers than frames
+      this.jobs = Math.max(1, Math.min(jobs, totalFrames));
+
       this.logger.header(`Export Configuration:`);
       this.logger.verbose(`  Layout: ${options.layout}`);
       this.logger.verbose(`  Amplitude Mode: ${options.amplitudeMode}`);
       this.logger.verbose(`  Height: ${options.heightPercent}%`);
       this.logger.verbose(`  Smoothing: ${options.smoothingLevel}`);
       this.logger.verbose(`  Window Duration: ${options.windowDuration}s`);
+      if ((options.layout.startsWith('spectrum') || options.layout.startsWith('spectrogram')) && options.spectrum) {
+        const { frequencyScale, minFrequency, maxFrequency, barCount } = options.spectrum;
+        const bars = frequencyScale.endsWith('octave') ? 'fixed bands' : `${barCount} bars`;
+        this.logger.verbose(`  Spectrum: ${frequencyScale}, ${minFrequency}-${maxFrequency} Hz, ${bars}`);
+        const { fftSize, windowFunction, analysis, overlap } = options.spectrum;
+        const frames = analysis === 'average' ? `averaged, ${Math.round(overlap * 100)}% overlap` : 'latest frame';
+        this.logger.verbose(`  Spectrum FFT: ${fftSize} samples, ${windowFunction} window, ${frames}`);
+        const { minDecibels, maxDecibels, showAxis } = options.spectrum;
+        this.logger.verbose(`  Spectrum Levels: ${minDecibels} to ${maxDecibels} dBFS${showAxis ? ', with axis' : ''}`);
+      }
+      this.logger.verbose(`  Hide Muted Tracks: ${options.hideMutedTracks}`);
+      this.logger.verbose(`  Transparent Background: ${options.transparentBackground ?? false}`);
+      this.logger.verbose(`  Resolution: ${size.width}x${size.height}`);
       this.logger.verbose(`  FPS: ${options.fps}`);
+      this.logger.verbose(`  Format: ${options.format}`);
       this.logger.verbose(`  Codec: ${options.codec}`);
       this.logger.verbose(`  Quality (CRF): ${options.quality}`);
       this.logger.verbose(`  Total Frames: ${totalFrames}`);
-      this.logger.verbose(`  Duration: ${this.formatDuration(duration)}`);
+      this.logger.verbose(`  Duration: ${this.formatDuration(range.end - range.start)}`);
+      this.logger.verbose(`  Range: ${TimeSync.formatTimecode(range.start)} - ${TimeSync.formatTimecode(range.end)}`);
+      if (options.imageSequence) {
+        this.logger.verbose(`  Image Sequence: ${options.imageSequence}`);
+      } else {
+        this.logger.verbose(`  Frame Mode: ${frameMode}`);
+      }
+      this.logger.verbose(`  Render Jobs: ${this.jobs}`);
 
-      // Phase 1: Render frames
-      const progress = new ProgressReporter(this.logger, verbose);
-      progress.start(totalFrames, 'Rendering frames');
+      let outputSize = 0;
+      if (options.imageSequence) {
+        await fs.mkdir(outputPath, { recursive: true });
 
-      await this.renderFrames(tracks, duration, options, totalFrames, progress);
+        // Phase 1: Mix audio into the output directory
+        this.logger.info('Mixing audio tracks...');
+        const audioPath = await this.mixAudio(range.start, range.end, outputPath);
+        this.logger.success(`Audio mixed: ${path.basename(audioPath)}`);
 
-      progress.finish(`Rendered ${totalFrames} frames`);
+        // Phase 2: Render frames as numbered images
+        const progress = new ProgressReporter(this.logger, verbose);
+        progress.start(totalFrames, 'Rendering frames');
+
+        const imagesSize = await this.writeImageSequence(
+          tracks, duration, range.start, options, options.imageSequence, totalFrames, outputPath, progress
+        );
+
+        progress.finish(`Rendered ${totalFrames} frames`);
+        outputSize = imagesSize + (await fs.stat(audioPath)).size;
+      } else if (frameMode === 'pipe') {
+        // Phase 1: Mix audio (first, so FFmpeg can read it while frames stream in)
+        this.logger.info('Mixing audio tracks...');
+        const audioPath = await this.mixAudio(range.start, range.end);
+        this.logger.success(`Audio mixed: ${path.basename(audioPath)}`);
+
+        // Phase 2: Render frames and encode them concurrently
+        const progress = new ProgressReporter(this.logger, verbose);
+        progress.start(totalFrames, 'Rendering and encoding frames');
+
+        await this.streamFrames(tracks, duration, range.start, options, totalFrames, outputPath, audioPath, progress);
+
+        progress.finish(`Rendered and encoded ${totalFrames} frames`);
+      } else {
+        const frameDir = workDir ?? this.tempDir!;
+        const frames = new WorkDirectory(frameDir, this.logger);
+
+        // Skip the frames an interrupted run of the same export already rendered
+        let firstFrame = 0;
+        if (workDir) {
+          const manifest = WorkDirectory.createManifest(
+            tracks, options, range.start, size.width, size.height, totalFrames
+          );
+          firstFrame = await frames.open(manifest);
+          if (firstFrame > 0) {
+            this.logger.info(`Resuming: ${firstFrame}/${totalFrames} frames already rendered`);
+          }
+        }
 
-      // Phase 2: Mix audio
-      this.logger.info('Mixing audio tracks...');
-      const audioPath = await this.mixAudio();
-      this.logger.success(`Audio mixed: ${path.basename(audioPath)}`);
+        // Phase 1: Render frames
+        const progress = new ProgressReporter(this.logger, verbose);
+        progress.start(totalFrames, 'Rendering frames');
 
-      // Phase 3: Encode video with FFmpeg
-      const encodeProgress = new ProgressReporter(this.logger, verbose);
-      encodeProgress.start(totalFrames, 'Encoding video with FFmpeg');
+        await this.renderFrames(tracks, duration, range.start, options, totalFrames, progress, frames, firstFrame);
 
-      await this.encodeVideo(options, outputPath, audioPath, totalFrames, encodeProgress);
+        progress.finish(`Rendered ${totalFrames} frames`);
 
-      encodeProgress.finish('Video encoding complete');
+        // Phase 2: Mix audio
+        this.logger.info('Mixing audio tracks...');
+        const audioPath = await this.mixAudio(range.start, range.end, frameDir);
+        this.logger.success(`Audio mixed: ${path.basename(audioPath)}`);
+
+        // Phase 3: Encode video with FFmpeg
+        const encodeProgress = new ProgressReporter(this.logger, verbose);
+        encodeProgress.start(totalFrames, 'Encoding video with FFmpeg');
+
+        await this.encodeVideo(options, outputPath, audioPath, frameDir, totalFrames, encodeProgress);
+
+        encodeProgress.finish('Video encoding complete');
+      }
 
       // Get output file size
-      const stats = await fs.stat(outputPath);
-      const fileSize = this.logger.formatFileSize(stats.size);
+      if (!options.imageSequence) {
+        outputSize = (await fs.stat(outputPath)).size;
+      }
+      const fileSize = this.logger.formatFileSize(outputSize);
       const totalTime = (Date.now() - startTime) / 1000;
 
       this.logger.info('');
       this.logger.success(`Export complete!`);
-      this.logger.info(`  Output: ${outputPath}`);
+      this.logger.info(`  Output: ${outputPath}${options.imageSequence ? ` (${totalFrames} images + audio.wav)` : ''}`);
       this.logger.info(`  Size: ${fileSize}`);
       this.logger.info(`  Total time: ${this.logger.formatTime(totalTime)}`);
+      completed = true;
 
     } finally {
-      // Clean up temporary directory
-      if (this.tempDir) {
+      if (workDir) {
+        // The work directory is left for the user to resume from or delete
+        this.logger.info(completed
+          ? `  Frames kept in work directory: ${workDir}`
+          : `Rendered frames kept in ${workDir}; run the same command again to continue`);
+      } else if (this.tempDir) {
+        // Clean up temporary directory
         try {
           await fs.rm(this.tempDir, { recursive: true, force: true });
           this.logger.verbose(`Cleaned up temp directory: ${this.tempDir}`);
@@ -145,41 +256,74 @@ export class CLIVideoExporter {
   }
 
   /**
-   * Render all frames to PNG files
+   * Render the frames in the export range (from firstFrame on) to PNG files
    */
   private async renderFrames(
     tracks: CLIAudioTrack[],
     duration: number,
+    rangeStart: number,
     options: ExportOptions,
     totalFrames: number,
-    progress: ProgressReporter
+    progress: ProgressReporter,
+    frames: WorkDirectory,
+    firstFrame: number = 0
   ): Promise<void> {
     const startTime = Date.now();
     let framesRendered = 0;
 
-    for (let i = 0; i < totalFrames; i++) {
-      const time = i / options.fps;
-
-      // Render frame
-      this.renderer.render(
-        tracks,
-        time,
-        duration,
-        options.layout,
-        options.amplitudeMode,
-        options.heightPercent,
-        options.smoothingLevel,
-        options.windowDuration
-      );
-
+    const buffers = this.renderFrameBuffers(tracks, duration, rangeStart, options, totalFrames, 'png', firstFrame);
+    for await (const buffer of buffers) {
       // Save frame as PNG
-      const framePath = path.join(this.tempDir!, `frame_${String(i).padStart(5, '0')}.png`);
-      const buffer = this.canvas.toBuffer('image/png');
-      await fs.writeFile(framePath, buffer);
+      await frames.writeFrame(firstFrame + framesRendered, buffer);
 
       framesRendered++;
 
       // Update progress
+      const frameNumber = firstFrame + framesRendered;
+      if (framesRendered % 10 === 0 || frameNumber === totalFrames) {
+        const elapsed = (Date.now() - startTime) / 1000;
+        const fps = framesRendered / elapsed;
+        progress.update(
+          frameNumber,
+          totalFrames,
+          `Frame ${frameNumber}/${totalFrames} (${fps.toFixed(1)} fps)`
+        );
+      }
+    }
+
+    if (framesRendered > 0) {
+      const elapsed = (Date.now() - startTime) / 1000;
+      const avgFps = framesRendered / elapsed;
+      this.logger.verbose(`Average rendering speed: ${avgFps.toFixed(1)} fps`);
+    }
+  }
+
+  /**
+   * Render all frames in the export range as numbered images in the output directory
+   * @returns Total size of the images in bytes
+   */
+  private async writeImageSequence(
+    tracks: CLIAudioTrack[],
+    duration: number,
+    rangeStart: number,
+    options: ExportOptions,
+    imageFormat: ImageSequenceFormat,
+    totalFrames: number,
+    outputDir: string,
+    progress: ProgressReporter
+  ): Promise<number> {
+    const startTime = Date.now();
+    let totalSize = 0;
+    let framesRendered = 0;
+
+    // node-canvas encodes PNG and JPEG only (webp is rejected by ConfigParser)
+    const encoding: FrameEncoding = imageFormat === 'jpeg' ? 'jpeg' : 'png';
+
+    for await (const buffer of this.renderFrameBuffers(tracks, duration, rangeStart, options, totalFrames, encoding)) {
+      await fs.writeFile(path.join(outputDir, ExportFormats.sequenceFrameName(framesRendered, imageFormat)), buffer);
+      totalSize += buffer.length;
+
+      framesRendered++;
       if (framesRendered % 10 === 0 || framesRendered === totalFrames) {
         const elapsed = (Date.now() - startTime) / 1000;
         const fps = framesRendered / elapsed;
@@ -191,19 +335,133 @@ export class CLIVideoExporter {
       }
     }
 
+    return totalSize;
+  }
+
+  /**
+   * Render frames and stream their raw pixels to FFmpeg's stdin as they are produced,
+   * so rendering and encoding overlap and no frames touch the disk
+   */
+  private async streamFrames(
+    tracks: CLIAudioTrack[],
+    duration: number,
+    rangeStart: number,
+    options: ExportOptions,
+    totalFrames: number,
+    outputPath: string,
+    audioPath: string,
+    progress: ProgressReporter
+  ): Promise<void> {
+    const videoInput = [
+      '-f', 'rawvideo',
+      '-pix_fmt', RAW_PIXEL_FORMAT,
+      '-s', `${this.frameRenderer.width}x${this.frameRenderer.height}`,
+      '-framerate', options.fps.toString(),
+      '-i', 'pipe:0'
+    ];
+    const args = this.buildEncodeArgs(options, videoInput, audioPath, outputPath);
+    this.logger.verbose(`FFmpeg command: ffmpeg ${args.join(' ')}`);
+
+    const { ffmpeg, done } = this.runFFmpeg(args);
+    const stdin = ffmpeg.stdin!;
+
+    // FFmpeg exiting early closes the pipe; the exit error is reported through `done`
+    let encodeFailed = false;
+    const settled = done.catch(() => {
+      encodeFailed = true;
+    });
+    stdin.on('error', () => {});
+
+    const startTime = Date.now();
+    let framesRendered = 0;
+
+    try {
+      for await (const pixels of this.renderFrameBuffers(tracks, duration, rangeStart, options, totalFrames, 'raw')) {
+        if (encodeFailed) {
+          break;
+        }
+
+        // Respect backpressure: wait for FFmpeg to drain its input before rendering more
+        if (!stdin.write(pixels)) {
+          await Promise.race([once(stdin, 'drain').catch(() => {}), settled]);
+        }
+
+        framesRendered++;
+
+        if (framesRendered % 10 === 0 || framesRendered === totalFrames) {
+          const elapsed = (Date.now() - startTime) / 1000;
+          const fps = framesRendered / elapsed;
+          progress.update(
+            framesRendered,
+            totalFrames,
+            `Frame ${framesRendered}/${totalFrames} (${fps.toFixed(1)} fps)`
+          );
+        }
+      }
+    } catch (error) {
+      // Rendering failed: stop FFmpeg instead of leaving it waiting on stdin (and holding
+      // audio.wav open), and remove the partial output
+      stdin.destroy();
+      ffmpeg.kill('SIGKILL');
+      await settled;
+      await fs.rm(outputPath, { force: true });
+      throw error;
+    }
+
+    stdin.end();
+    await done;
+
     const elapsed = (Date.now() - startTime) / 1000;
-    const avgFps = framesRendered / elapsed;
-    this.logger.verbose(`Average rendering speed: ${avgFps.toFixed(1)} fps`);
+    this.logger.verbose(`Average rendering + encoding speed: ${(framesRendered / elapsed).toFixed(1)} fps`);
+  }
+
+  /**
+   * Render and encode the frames in the export range (from firstFrame on), in order. With
+   * more than one job the frames are rendered by a RenderWorkerPool.
+   */
+  private async *renderFrameBuffers(
+    tracks: CLIAudioTrack[],
+    duration: number,
+    rangeStart: number,
+    options: ExportOptions,
+    totalFrames: number,
+    encoding: FrameEncoding,
+    firstFrame: number = 0
+  ): AsyncGenerator<Buffer> {
+    if (this.jobs <= 1) {
+      for (let i = firstFrame; i < totalFrames; i++) {
+        this.frameRenderer.render(tracks, rangeStart + i / options.fps, duration, options);
+        yield this.frameRenderer.encode(encoding, options.transparentBackground);
+      }
+      return;
+    }
+
+    const pool = new RenderWorkerPool(this.jobs, {
+      tracks: tracks.map(track => track.toSnapshot()),
+      width: this.frameRenderer.width,
+      height: this.frameRenderer.height,
+      duration,
+      rangeStart,
+      options,
+      encoding
+    });
+
+    try {
+      yield* pool.render(totalFrames, firstFrame);
+    } finally {
+      await pool.terminate();
+    }
   }
 
   /**
-   * Mix audio tracks and save to WAV file
+   * Mix audio tracks in the export range and save to WAV file
+   * @param directory - Where to write audio.wav (default: the temp directory)
    */
-  private async mixAudio(): Promise<string> {
-    const mixed = this.audioEngine.mixTracks();
+  private async mixAudio(startTime: number, endTime: number, directory: string = this.tempDir!): Promise<string> {
+    const mixed = this.audioEngine.mixTracks(startTime, endTime);
     const wavBuffer = this.audioEngine.encodeWAV(mixed);
 
-    const audioPath = path.join(this.tempDir!, 'audio.wav');
+    const audioPath = path.join(directory, 'audio.wav');
     await fs.writeFile(audioPath, wavBuffer);
 
     this.logger.verbose(`Mixed audio: ${this.logger.formatFileSize(wavBuffer.length)}`);
@@ -212,52 +470,68 @@ export class CLIVideoExporter {
   }
 
   /**
-   * Encode video using FFmpeg CLI
+   * Encode PNG frames from the temp (or work) directory using FFmpeg CLI
    */
   private async encodeVideo(
     options: ExportOptions,
     outputPath: string,
     audioPath: string,
+    frameDir: string,
     totalFrames: number,
     progress: ProgressReporter
   ): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const videoCodec = options.codec === 'h265' ? 'libx265' : 'libx264';
-
-      const args = [
-        '-y', // Overwrite output file
-        '-framerate', options.fps.toString(),
-        '-i', path.join(this.tempDir!, 'frame_%05d.png'),
-        '-i', audioPath,
-        '-c:v', videoCodec,
-        '-preset', 'medium',
-        '-crf', options.quality.toString(),
-        '-c:a', 'aac',
-        '-b:a', options.audioBitrate,
-        '-pix_fmt', 'yuv420p',
-        '-shortest',
-        outputPath
-      ];
-
-      this.logger.verbose(`FFmpeg command: ffmpeg ${args.join(' ')}`);
-
-      const ffmpeg = spawn('ffmpeg', args);
+    const videoInput = [
+      '-framerate', options.fps.toString(),
+      '-i', path.join(frameDir, WorkDirectory.FRAME_PATTERN)
+    ];
+    const args = this.buildEncodeArgs(options, videoInput, audioPath, outputPath);
+    this.logger.verbose(`FFmpeg command: ffmpeg ${args.join(' ')}`);
+
+    const { done } = this.runFFmpeg(args, (stderr) => {
+      // Parse FFmpeg progress output
+      const frameMatch = stderr.match(/frame=\s*(\d+)/);
+      if (frameMatch) {
+        const currentFrame = parseInt(frameMatch[1], 10);
+        progress.update(
+          currentFrame,
+          totalFrames,
+          `Frame ${currentFrame}/${totalFrames}`
+        );
+      }
+    });
 
+    await done;
+  }
+
+  /**
+   * Build FFmpeg arguments for the given video input arguments (container-specific
+   * codec, audio and filter arguments come from ExportFormats)
+   */
+  private buildEncodeArgs(
+    options: ExportOptions,
+    videoInput: string[],
+    audioPath: string,
+    outputPath: string
+  ): string[] {
+    return ExportFormats.buildEncodeArgs(options, videoInput, audioPath, outputPath);
+  }
+
+  /**
+   * Spawn FFmpeg; `done` resolves when it exits successfully
+   * @param onStderr - Called with the accumulated stderr output as it arrives
+   */
+  private runFFmpeg(
+    args: string[],
+    onStderr?: (stderr: string) => void
+  ): { ffmpeg: ChildProcess; done: Promise<void> } {
+    const ffmpeg = spawn('ffmpeg', args);
+
+    const done = new Promise<void>((resolve, reject) => {
       let stderr = '';
 
-      ffmpeg.stderr.on('data', (data) => {
+      ffmpeg.stderr!.on('data', (data) => {
         stderr += data.toString();
-
-        // Parse FFmpeg progress output
-        const frameMatch = stderr.match(/frame=\s*(\d+)/);
-        if (frameMatch) {
-          const currentFrame = parseInt(frameMatch[1], 10);
-          progress.update(
-            currentFrame,
-            totalFrames,
-            `Frame ${currentFrame}/${totalFrames}`
-          );
-        }
+        onStderr?.(stderr);
       });
 
       ffmpeg.on('error', (error) => {
@@ -274,6 +548,8 @@ export class CLIVideoExporter {
         }
       });
     });
+
+    return { ffmpeg, done };
   }
 
   /**
@@ -0,0 +1,122 @@
+import * as path from 'path';
+import { ConfigParser, type CLIExportConfig } from '../config.js';
+import { CLIAudioEngine } from '../adapters/CLIAudioEngine.js';
+import { CLIVideoExporter } from './CLIVideoExporter.js';
+import { Logger } from '../utils/Logger.js';
+import { ExportFormats } from '../../src/export/ExportFormats.js';
+import type { ExportOptions } from '../../src/types/audio.types.js';
+
+/**
+ * Per-run settings given on the command line rather than in the config
+ */
+export interface ExportJobOptions {
+  mute?: string; // Comma-separated 1-based track numbers
+  solo?: string; // Comma-separated 1-based track numbers
+  offsets?: string; // Comma-separated start offsets in seconds
+  maxFrames?: number;
+}
+
+/**
+ * One export: loads the config's audio files and renders them to the output.
+ * Shared by the `export` and `batch` commands.
+ */
+export class ExportJob {
+  /**
+   * Run an export
+   * @returns The output path (defaulted when the config has none)
+   * @throws Error if the config is invalid or the export fails
+   */
+  static async run(
+    config: CLIExportConfig,
+    logger: Logger,
+    options: ExportJobOptions = {},
+    configParser: ConfigParser = new ConfigParser()
+  ): Promise<string> {
+    // Update logger verbose setting from config
+    if (config.verbose !== undefined) {
+      logger.setVerbose(config.verbose);
+    }
+
+    // Parse and validate config
+    const audioFileConfigs = configParser.parseAudioFiles(config.audioFiles);
+    await configParser.validateAudioFiles(audioFileConfigs);
+
+    // Apply per-track mute/solo flags
+    if (options.mute) {
+      for (const index of configParser.parseTrackIndices(options.mute, audioFileConfigs.length)) {
+        audioFileConfigs[index].muted = true;
+      }
+    }
+    if (options.solo) {
+      for (const index of configParser.parseTrackIndices(options.solo, audioFileConfigs.length)) {
+        audioFileConfigs[index].solo = true;
+      }
+    }
+    if (options.offsets) {
+      configParser
+        .parseTrackOffsets(options.offsets, audioFileConfigs.length)
+        .forEach((offset, index) => {
+          audioFileConfigs[index].offset = offset;
+        });
+    }
+
+    const autoAlign = configParser.parseAutoAlign(config.autoAlign, audioFileConfigs.length);
+
+    // Build export options
+    const exportOptions: ExportOptions = await configParser.buildExportOptions(config);
+    const frameMode = configParser.parseFrameMode(config.export?.frameMode);
+    const jobs = configParser.parseJobs(config.export?.jobs);
+
+    // Default output name, and a hint when the extension does not match the container
+    // (image sequences are written to an output directory)
+    let output = config.output;
+    const extension = ExportFormats.FORMATS[exportOptions.format].extension;
+    if (exportOptions.imageSequence) {
+      output = output || 'output-frames';
+    } else if (!output) {
+      output = `output.${extension}`;
+    } else if (path.extname(output).toLowerCase() !== `.${extension}`) {
+      logger.warn(
+        `Output "${output}" will contain ${exportOptions.format} (expected .${extension} extension)`
+      );
+    }
+
+    const workDir = configParser.parseWorkDir({ ...config, output });
+
+    // Show configuration
+    if (config.preset) {
+      logger.info(`Using preset: ${config.preset}`);
+    }
+    logger.info(`Audio files: ${audioFileConfigs.length} track(s)`);
+    logger.info(`Output: ${output}\n`);
+
+    // Load audio tracks
+    logger.header('Loading audio files:');
+    const audioEngine = new CLIAudioEngine(logger);
+    const tracks = await audioEngine.loadTracks(audioFileConfigs);
+
+    if (tracks.length === 0) {
+      throw new Error('No audio tracks loaded');
+    }
+
+    if (autoAlign) {
+      audioEngine.autoAlignTracks(autoAlign.referenceIndex, autoAlign.maxLag);
+    }
+
+    logger.info('');
+
+    // Create exporter and export video
+    const exporter = new CLIVideoExporter(audioEngine, logger);
+    await exporter.export(
+      exportOptions,
+      output,
+      config.verbose || false,
+      options.maxFrames,
+      frameMode,
+      jobs,
+      workDir ?? undefined
+    );
+
+    return output;
+  }
+}
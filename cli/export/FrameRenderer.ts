@@ -0,0 +1,118 @@
+import { createCanvas, Canvas } from 'canvas';
+import * as os from 'os';
+import { WaveformRenderer } from '../../src/rendering/WaveformRenderer.js';
+import { RenderContext } from '../../src/rendering/RenderContext.js';
+import { ExportFormats } from '../../src/export/ExportFormats.js';
+import { FrequencyBands } from '../../src/visualization/FrequencyBands.js';
+import { CLIAudioTrack } from '../adapters/CLIAudioTrack.js';
+import type { ExportOptions } from '../../src/types/audio.types.js';
+
+/**
+ * How a rendered frame is encoded:
+ * - raw: pixels for FFmpeg's rawvideo input (RAW_PIXEL_FORMAT, straight alpha)
+ * - png / jpeg: image files
+ */
+export type FrameEncoding = 'raw' | 'png' | 'jpeg';
+
+/**
+ * Pixel layout of node-canvas raw buffers (Cairo ARGB32 in native byte order)
+ */
+export const RAW_PIXEL_FORMAT = os.endianness() === 'LE' ? 'bgra' : 'argb';
+
+/**
+ * Byte offset of the alpha channel within each raw pixel
+ */
+const RAW_ALPHA_OFFSET = os.endianness() === 'LE' ? 3 : 0;
+
+/**
+ * Convert premultiplied raw pixels to straight alpha in place
+ */
+function unpremultiplyAlpha(pixels: Buffer): void {
+  for (let i = 0; i < pixels.length; i += 4) {
+    const alpha = pixels[i + RAW_ALPHA_OFFSET];
+    if (alpha === 0 || alpha === 255) {
+      continue;
+    }
+    for (let c = 0; c < 4; c++) {
+      if (c !== RAW_ALPHA_OFFSET) {
+        pixels[i + c] = Math.min(255, Math.round((pixels[i + c] * 255) / alpha));
+      }
+    }
+  }
+}
+
+/**
+ * Renders export frames onto a node-canvas and encodes them. Each frame depends only on
+ * the tracks, its time and the options, so frames can be rendered by several
+ * FrameRenderers (one per render worker) in any order.
+ */
+export class FrameRenderer {
+  private canvas: Canvas;
+  private renderer: WaveformRenderer;
+
+  constructor() {
+    // Create offscreen canvas (resized to the requested resolution on export)
+    this.canvas = createCanvas(
+      RenderContext.DEFAULT_EXPORT_WIDTH,
+      RenderContext.DEFAULT_EXPORT_HEIGHT
+    );
+
+    // Create renderer (cast canvas to any for type compatibility)
+    this.renderer = new WaveformRenderer(this.canvas as any, RenderContext.forExport());
+  }
+
+  get width(): number {
+    return this.canvas.width;
+  }
+
+  get height(): number {
+    return this.canvas.height;
+  }
+
+  /**
+   * Resize the canvas to the output resolution
+   */
+  resize(width: number, height: number): void {
+    this.renderer.resize(width, height);
+  }
+
+  /**
+   * Render the frame at a timeline time onto the canvas
+   */
+  render(tracks: CLIAudioTrack[], time: number, duration: number, options: ExportOptions): void {
+    this.renderer.render(
+      tracks,
+      time,
+      duration,
+      options.layout,
+      options.amplitudeMode,
+      options.heightPercent,
+      options.smoothingLevel,
+      options.windowDuration,
+      options.hideMutedTracks,
+      options.transparentBackground,
+      FrequencyBands.resolve(options.spectrum)
+    );
+  }
+
+  /**
+   * Encode the current canvas contents
+   * @param transparent - Convert raw pixels to straight alpha (Cairo stores premultiplied
+   *   alpha; FFmpeg expects straight alpha)
+   */
+  encode(encoding: FrameEncoding, transparent: boolean = false): Buffer {
+    switch (encoding) {
+      case 'raw': {
+        const pixels = this.canvas.toBuffer('raw');
+        if (transparent) {
+          unpremultiplyAlpha(pixels);
+        }
+        return pixels;
+      }
+      case 'jpeg':
+        return this.canvas.toBuffer('image/jpeg', { quality: ExportFormats.IMAGE_QUALITY });
+      case 'png':
+        return this.canvas.toBuffer('image/png');
+    }
+  }
+}
@@ -0,0 +1,29 @@
+import { parentPort, workerData } from 'worker_threads';
+import { CLIAudioTrack } from '../adapters/CLIAudioTrack.js';
+import { FrameRenderer } from './FrameRenderer.js';
+import type { RenderedFrame, RenderRequest, RenderWorkerData } from './RenderWorkerPool.js';
+
+/**
+ * Render worker entry point (started by RenderWorkerPool): renders and encodes the frames
+ * it is asked for with its own canvas, reading the tracks' samples from shared memory
+ */
+const data = workerData as RenderWorkerData;
+const tracks = data.tracks.map((snapshot) => CLIAudioTrack.fromSnapshot(snapshot));
+
+const frameRenderer = new FrameRenderer();
+frameRenderer.resize(data.width, data.height);
+
+parentPort!.on('message', ({ index }: RenderRequest) => {
+  frameRenderer.render(
+    tracks,
+    data.rangeStart + index / data.options.fps,
+    data.duration,
+    data.options
+  );
+
+  const frame: RenderedFrame = {
+    index,
+    data: frameRenderer.encode(data.encoding, data.options.transparentBackground),
+  };
+  parentPort!.postMessage(frame);
+});
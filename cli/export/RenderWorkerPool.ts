@@ -0,0 +1,137 @@
+import { Worker } from 'worker_threads';
+import type { CLITrackSnapshot } from '../adapters/CLIAudioTrack.js';
+import type { FrameEncoding } from './FrameRenderer.js';
+import type { ExportOptions } from '../../src/types/audio.types.js';
+
+/**
+ * Export settings each render worker is started with
+ */
+export interface RenderWorkerData {
+  tracks: CLITrackSnapshot[];
+  width: number;
+  height: number;
+  duration: number;
+  rangeStart: number;
+  options: ExportOptions;
+  encoding: FrameEncoding;
+}
+
+/**
+ * Request for a worker to render a frame (index within the export range)
+ */
+export interface RenderRequest {
+  index: number;
+}
+
+/**
+ * An encoded frame sent back by a worker
+ */
+export interface RenderedFrame {
+  index: number;
+  data: Uint8Array;
+}
+
+/**
+ * Start a worker running RenderWorker. Under tsx (the `export` script) the worker source
+ * is TypeScript and worker threads do not inherit tsx's loader, so the worker registers
+ * it before importing the script.
+ */
+function startRenderWorker(workerData: RenderWorkerData): Worker {
+  if (!import.meta.url.endsWith('.ts')) {
+    return new Worker(new URL('./RenderWorker.js', import.meta.url), { workerData });
+  }
+
+  const scriptURL = new URL('./RenderWorker.ts', import.meta.url).href;
+  const tsxURL = import.meta.resolve('tsx/esm/api');
+  const bootstrap =
+    `import(${JSON.stringify(tsxURL)})` +
+    `.then(({ register }) => { register(); return import(${JSON.stringify(scriptURL)}); })`;
+  return new Worker(bootstrap, { eval: true, workerData });
+}
+
+/**
+ * Renders export frames on several worker threads, each with its own canvas and renderer.
+ * Frame i is rendered by worker i % jobs, and frames are handed back in order so they can
+ * go straight to the encoder. Track samples are shared with the workers through
+ * SharedArrayBuffers rather than copied.
+ */
+export class RenderWorkerPool {
+  /** Frames each worker may have queued, which bounds the frames buffered for reordering */
+  static readonly FRAMES_PER_WORKER = 2;
+
+  private workers: Worker[] = [];
+  private resolvers = new Map<number, (frame: Buffer) => void>();
+  private failed: Promise<never>;
+  private fail!: (error: Error) => void;
+  private terminated = false;
+
+  constructor(jobs: number, workerData: RenderWorkerData) {
+    this.failed = new Promise<never>((_, reject) => {
+      this.fail = reject;
+    });
+    this.failed.catch(() => {});
+
+    for (let i = 0; i < jobs; i++) {
+      const worker = startRenderWorker(workerData);
+
+      worker.on('message', (frame: RenderedFrame) => {
+        const resolve = this.resolvers.get(frame.index);
+        this.resolvers.delete(frame.index);
+        resolve?.(Buffer.from(frame.data.buffer, frame.data.byteOffset, frame.data.byteLength));
+      });
+
+      worker.on('error', (error) => {
+        this.fail(new Error(`Render worker ${i + 1} failed: ${error.message}`));
+      });
+
+      worker.on('exit', (code) => {
+        if (!this.terminated) {
+          this.fail(new Error(`Render worker ${i + 1} exited unexpectedly with code ${code}`));
+        }
+      });
+
+      this.workers.push(worker);
+    }
+  }
+
+  get size(): number {
+    return this.workers.length;
+  }
+
+  /**
+   * Render frames firstFrame..totalFrames-1, yielding the encoded frames in order
+   * @throws Error if a worker fails
+   */
+  async *render(totalFrames: number, firstFrame: number = 0): AsyncGenerator<Buffer> {
+    const maxAhead = this.workers.length * RenderWorkerPool.FRAMES_PER_WORKER;
+    const pending = new Map<number, Promise<Buffer>>();
+    let requested = firstFrame;
+
+    for (let i = firstFrame; i < totalFrames; i++) {
+      // Keep every worker busy without rendering too far ahead of the encoder
+      for (; requested < totalFrames && requested < i + maxAhead; requested++) {
+        pending.set(requested, this.request(requested));
+      }
+
+      const frame = await Promise.race([pending.get(i)!, this.failed]);
+      pending.delete(i);
+      yield frame;
+    }
+  }
+
+  /**
+   * Stop all workers
+   */
+  async terminate(): Promise<void> {
+    this.terminated = true;
+    await Promise.all(this.workers.map((worker) => worker.terminate()));
+  }
+
+  private request(index: number): Promise<Buffer> {
+    return new Promise((resolve) => {
+      this.resolvers.set(index, resolve);
+      const request: RenderRequest = { index };
+      this.workers[index % this.workers.length].postMessage(request);
+    });
+  }
+}
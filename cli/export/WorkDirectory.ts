@@ -0,0 +1,194 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { CLIAudioTrack } from '../adapters/CLIAudioTrack.js';
+import { Logger } from '../utils/Logger.js';
+import type { ExportOptions } from '../../src/types/audio.types.js';
+
+/**
+ * Identifies the frames in a work directory, so a resumed export only reuses frames
+ * rendered from the same audio with the same settings
+ */
+export interface WorkManifest {
+  version: number;
+  optionsHash: string; // Everything that affects how frames look (not codec/quality)
+  frameCount: number;
+  audioHash: string; // Decoded samples of every track
+}
+
+/**
+ * Directory of PNG frames for FFmpeg: a temp directory, or a persistent work directory
+ * for resumable exports. Frames are written in order and renamed into place once
+ * complete, so after an interruption the finished frames are always frame 0 up to the
+ * first missing one.
+ */
+export class WorkDirectory {
+  static readonly MANIFEST_VERSION = 1;
+  static readonly MANIFEST_FILE = 'manifest.json';
+
+  /** FFmpeg input pattern for the frames */
+  static readonly FRAME_PATTERN = 'frame_%05d.png';
+
+  readonly dir: string;
+  private logger: Logger;
+
+  constructor(dir: string, logger: Logger) {
+    this.dir = dir;
+    this.logger = logger;
+  }
+
+  /**
+   * Path of frame `index` (zero-based) in a frame directory
+   */
+  static framePath(dir: string, index: number): string {
+    return path.join(dir, `frame_${String(index).padStart(5, '0')}.png`);
+  }
+
+  /**
+   * Describe an export for comparison with an earlier run
+   */
+  static createManifest(
+    tracks: CLIAudioTrack[],
+    options: ExportOptions,
+    rangeStart: number,
+    width: number,
+    height: number,
+    frameCount: number
+  ): WorkManifest {
+    const frameSettings = {
+      rangeStart,
+      width,
+      height,
+      fps: options.fps,
+      layout: options.layout,
+      amplitudeMode: options.amplitudeMode,
+      heightPercent: options.heightPercent,
+      smoothingLevel: options.smoothingLevel,
+      windowDuration: options.windowDuration,
+      hideMutedTracks: options.hideMutedTracks,
+      spectrum: options.spectrum ?? null,
+      transparentBackground: options.transparentBackground ?? false,
+      tracks: tracks.map((track) => ({
+        name: track.name,
+        color: track.color,
+        opacity: track.opacity,
+        volume: track.volume,
+        muted: track.muted,
+        solo: track.solo,
+        startOffset: track.startOffset,
+      })),
+    };
+
+    const audio = createHash('sha256');
+    for (const track of tracks) {
+      audio.update(`${track.sampleRate}:${track.numberOfChannels}:${track.buffer.length};`);
+      for (let channel = 0; channel < track.numberOfChannels; channel++) {
+        const samples = track.buffer.getChannelData(channel);
+        audio.update(new Uint8Array(samples.buffer, samples.byteOffset, samples.byteLength));
+      }
+    }
+
+    return {
+      version: WorkDirectory.MANIFEST_VERSION,
+      optionsHash: createHash('sha256').update(JSON.stringify(frameSettings)).digest('hex'),
+      frameCount,
+      audioHash: audio.digest('hex'),
+    };
+  }
+
+  /**
+   * Prepare the directory for an export. Frames from an earlier run of the same export are
+   * kept; frames from a different export are deleted.
+   * @returns Index of the first frame that still has to be rendered
+   */
+  async open(manifest: WorkManifest): Promise<number> {
+    await fs.mkdir(this.dir, { recursive: true });
+
+    const previous = await this.readManifest();
+    let firstFrame = 0;
+
+    if (previous) {
+      const mismatch = this.findMismatch(previous, manifest);
+      if (mismatch) {
+        this.logger.warn(
+          `Cannot resume: ${mismatch} since the frames in ${this.dir} were rendered; starting over`
+        );
+      } else {
+        firstFrame = await this.countFrames(manifest.frameCount);
+      }
+    } else {
+      this.logger.verbose(`No previous export in ${this.dir}; starting from the first frame`);
+    }
+
+    if (firstFrame === 0) {
+      await this.clearFrames();
+    }
+    await fs.writeFile(
+      path.join(this.dir, WorkDirectory.MANIFEST_FILE),
+      JSON.stringify(manifest, null, 2)
+    );
+
+    return firstFrame;
+  }
+
+  /**
+   * Write a frame; it only appears under its final name once it is complete
+   */
+  async writeFrame(index: number, data: Buffer): Promise<void> {
+    const framePath = WorkDirectory.framePath(this.dir, index);
+    await fs.writeFile(`${framePath}.tmp`, data);
+    await fs.rename(`${framePath}.tmp`, framePath);
+  }
+
+  private async readManifest(): Promise<WorkManifest | null> {
+    try {
+      const content = await fs.readFile(path.join(this.dir, WorkDirectory.MANIFEST_FILE), 'utf-8');
+      return JSON.parse(content) as WorkManifest;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Describe why frames from a previous run cannot be reused (null if they can)
+   */
+  private findMismatch(previous: WorkManifest, current: WorkManifest): string | null {
+    if (previous.version !== current.version) {
+      return 'the work directory format changed';
+    }
+    if (previous.audioHash !== current.audioHash) {
+      return 'the audio changed';
+    }
+    if (previous.optionsHash !== current.optionsHash) {
+      return 'the export settings changed';
+    }
+    if (previous.frameCount !== current.frameCount) {
+      return `the frame count changed (${previous.frameCount} -> ${current.frameCount})`;
+    }
+    return null;
+  }
+
+  /**
+   * Count the complete frames from frame 0 up to the first missing one
+   */
+  private async countFrames(frameCount: number): Promise<number> {
+    const files = new Set(await fs.readdir(this.dir));
+    let count = 0;
+    while (
+      count < frameCount &&
+      files.has(path.basename(WorkDirectory.framePath(this.dir, count)))
+    ) {
+      count++;
+    }
+    return count;
+  }
+
+  private async clearFrames(): Promise<void> {
+    const files = await fs.readdir(this.dir);
+    await Promise.all(
+      files
+        .filter((file) => /^frame_\d+\.png(\.tmp)?$/.test(file))
+        .map((file) => fs.rm(path.join(this.dir, file), { force: true }))
+    );
+  }
+}
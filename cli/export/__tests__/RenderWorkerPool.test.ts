@@ -0,0 +1,122 @@
+import { EventEmitter } from 'events';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { RenderWorkerPool, type RenderWorkerData } from '../RenderWorkerPool.js';
+
+/**
+ * Stand-in for a worker thread that records the frames it is asked to render
+ */
+interface FakeWorker extends EventEmitter {
+  requests: number[];
+}
+
+const workers = vi.hoisted(() => [] as FakeWorker[]);
+
+vi.mock('worker_threads', async () => {
+  const { EventEmitter } = await import('events');
+
+  class FakeWorker extends EventEmitter {
+    requests: number[] = [];
+
+    constructor() {
+      super();
+      workers.push(this);
+    }
+
+    postMessage(request: { index: number }): void {
+      this.requests.push(request.index);
+    }
+
+    terminate(): Promise<number> {
+      this.emit('exit', 1);
+      return Promise.resolve(1);
+    }
+  }
+
+  return { default: { Worker: FakeWorker }, Worker: FakeWorker };
+});
+
+function reply(worker: EventEmitter, index: number): void {
+  worker.emit('message', { index, data: new Uint8Array([index]) });
+}
+
+async function collect(frames: AsyncGenerator<Buffer>): Promise<number[]> {
+  const indices: number[] = [];
+  for await (const frame of frames) {
+    indices.push(frame[0]);
+  }
+  return indices;
+}
+
+describe('RenderWorkerPool', () => {
+  beforeEach(() => {
+    workers.length = 0;
+  });
+
+  describe('render', () => {
+    it('should yield frames in index order when workers reply out of order', async () => {
+      const pool = new RenderWorkerPool(2, {} as RenderWorkerData);
+
+      const result = collect(pool.render(4));
+      reply(workers[1], 3);
+      reply(workers[1], 1);
+      reply(workers[0], 2);
+      reply(workers[0], 0);
+
+      expect(await result).toEqual([0, 1, 2, 3]);
+    });
+
+    it('should spread frames across workers by index', async () => {
+      const pool = new RenderWorkerPool(2, {} as RenderWorkerData);
+
+      const result = collect(pool.render(4));
+      [0, 1, 2, 3].forEach((index) => reply(workers[index % 2], index));
+      await result;
+
+      expect(workers[0].requests).toEqual([0, 2]);
+      expect(workers[1].requests).toEqual([1, 3]);
+    });
+
+    it('should start from firstFrame', async () => {
+      const pool = new RenderWorkerPool(2, {} as RenderWorkerData);
+
+      const result = collect(pool.render(5, 3));
+      reply(workers[0], 4);
+      reply(workers[1], 3);
+
+      expect(await result).toEqual([3, 4]);
+      expect(workers[0].requests).toEqual([4]);
+      expect(workers[1].requests).toEqual([3]);
+    });
+
+    it('should reject when a worker fails', async () => {
+      const pool = new RenderWorkerPool(2, {} as RenderWorkerData);
+
+      const result = collect(pool.render(4));
+      reply(workers[0], 0);
+      workers[1].emit('error', new Error('canvas unavailable'));
+
+      await expect(result).rejects.toThrow('Render worker 2 failed: canvas unavailable');
+    });
+
+    it('should reject when a worker exits unexpectedly', async () => {
+      const pool = new RenderWorkerPool(2, {} as RenderWorkerData);
+
+      const result = collect(pool.render(4));
+      workers[0].emit('exit', 1);
+
+      await expect(result).rejects.toThrow('Render worker 1 exited unexpectedly with code 1');
+    });
+  });
+
+  describe('terminate', () => {
+    it('should not treat the exit of terminated workers as a failure', async () => {
+      const pool = new RenderWorkerPool(2, {} as RenderWorkerData);
+      await pool.terminate();
+
+      const result = collect(pool.render(1));
+      reply(workers[0], 0);
+
+      expect(await result).toEqual([0]);
+    });
+  });
+});
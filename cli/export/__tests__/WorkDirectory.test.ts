@@ -0,0 +1,120 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { WorkDirectory, type WorkManifest } from '../WorkDirectory.js';
+import { Logger } from '../../utils/Logger.js';
+
+function createManifest(overrides: Partial<WorkManifest> = {}): WorkManifest {
+  return {
+    version: WorkDirectory.MANIFEST_VERSION,
+    optionsHash: 'options',
+    frameCount: 5,
+    audioHash: 'audio',
+    ...overrides,
+  };
+}
+
+describe('WorkDirectory', () => {
+  let dir: string;
+  let logger: Logger;
+
+  async function writeFrames(indices: number[]): Promise<void> {
+    for (const index of indices) {
+      await fs.writeFile(WorkDirectory.framePath(dir, index), 'png');
+    }
+  }
+
+  async function listFrames(): Promise<string[]> {
+    return (await fs.readdir(dir)).filter((file) => file.startsWith('frame_')).sort();
+  }
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'work-directory-test-'));
+    logger = new Logger();
+    vi.spyOn(logger, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  describe('open', () => {
+    it('should start from the first frame in a new directory and write the manifest', async () => {
+      const workDir = new WorkDirectory(path.join(dir, 'new'), logger);
+      const manifest = createManifest();
+
+      expect(await workDir.open(manifest)).toBe(0);
+
+      const written = await fs.readFile(
+        path.join(dir, 'new', WorkDirectory.MANIFEST_FILE),
+        'utf-8'
+      );
+      expect(JSON.parse(written)).toEqual(manifest);
+    });
+
+    it('should reuse the frames of the same export', async () => {
+      await new WorkDirectory(dir, logger).open(createManifest());
+      await writeFrames([0, 1, 2]);
+
+      expect(await new WorkDirectory(dir, logger).open(createManifest())).toBe(3);
+      expect(await listFrames()).toHaveLength(3);
+    });
+
+    it('should delete the frames and start over when the export changed', async () => {
+      await new WorkDirectory(dir, logger).open(createManifest());
+      await writeFrames([0, 1, 2]);
+      await fs.writeFile(`${WorkDirectory.framePath(dir, 3)}.tmp`, 'partial');
+      const changed = createManifest({ audioHash: 'other audio' });
+
+      expect(await new WorkDirectory(dir, logger).open(changed)).toBe(0);
+      expect(await listFrames()).toEqual([]);
+      expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('the audio changed'));
+
+      const written = await fs.readFile(path.join(dir, WorkDirectory.MANIFEST_FILE), 'utf-8');
+      expect(JSON.parse(written)).toEqual(changed);
+    });
+
+    it('should report a changed frame count', async () => {
+      await new WorkDirectory(dir, logger).open(createManifest());
+      await writeFrames([0]);
+
+      expect(await new WorkDirectory(dir, logger).open(createManifest({ frameCount: 8 }))).toBe(0);
+      expect(logger.warn).toHaveBeenCalledWith(
+        expect.stringContaining('the frame count changed (5 -> 8)')
+      );
+    });
+
+    it('should not count a frame that was still being written', async () => {
+      await new WorkDirectory(dir, logger).open(createManifest());
+      await writeFrames([0, 1]);
+      await fs.writeFile(`${WorkDirectory.framePath(dir, 2)}.tmp`, 'partial');
+
+      expect(await new WorkDirectory(dir, logger).open(createManifest())).toBe(2);
+    });
+
+    it('should resume from the first missing frame of a gap', async () => {
+      await new WorkDirectory(dir, logger).open(createManifest());
+      await writeFrames([0, 1, 3, 4]);
+
+      expect(await new WorkDirectory(dir, logger).open(createManifest())).toBe(2);
+    });
+
+    it('should not count more frames than the export has', async () => {
+      await new WorkDirectory(dir, logger).open(createManifest({ frameCount: 2 }));
+      await writeFrames([0, 1, 2]);
+
+      expect(await new WorkDirectory(dir, logger).open(createManifest({ frameCount: 2 }))).toBe(2);
+    });
+  });
+
+  describe('writeFrame', () => {
+    it('should leave only the complete frame', async () => {
+      const workDir = new WorkDirectory(dir, logger);
+
+      await workDir.writeFrame(7, Buffer.from('png'));
+
+      expect(await listFrames()).toEqual(['frame_00007.png']);
+    });
+  });
+});
@@ -1,15 +1,80 @@
 #!/usr/bin/env node
 
+import * as fs from 'fs/promises';
 import { Command } from 'commander';
-import * as path from 'path';
 import { ConfigParser, type CLIExportConfig } from './config.js';
-import { CLIAudioEngine } from './adapters/CLIAudioEngine.js';
-import { CLIVideoExporter } from './export/CLIVideoExporter.js';
+import { ExportJob } from './export/ExportJob.js';
+import { BatchJobFile } from './batch/BatchJobFile.js';
+import { BatchRunner } from './batch/BatchRunner.js';
+import { SongFolderWatcher } from './watch/SongFolderWatcher.js';
 import { Logger } from './utils/Logger.js';
-import type { ExportOptions } from '../src/types/audio.types.js';
+import { FrequencyBands } from '../src/visualization/FrequencyBands.js';
+import type { SpectrumSettings } from '../src/types/visualizer.types.js';
 
 const program = new Command();
 
+/**
+ * Parse the --auto-align value: a 1-based track number or "mix"
+ */
+function parseAlignReference(value: string): number | 'mix' {
+  return value === 'mix' ? 'mix' : parseInt(value, 10);
+}
+
+/**
+ * Parse the --resolution value: "WxH" (e.g. 1080x1920)
+ */
+function parseResolution(value: string): { width: number; height: number } {
+  const match = value.trim().match(/^(\d+)\s*[xX]\s*(\d+)$/);
+  if (!match) {
+    throw new Error(`Invalid resolution: "${value}". Use WxH (e.g. 1920x1080, 1080x1920)`);
+  }
+  return { width: parseInt(match[1], 10), height: parseInt(match[2], 10) };
+}
+
+/**
+ * Spectrum flags as parsed by commander (checked later by FrequencyBands.validate)
+ */
+interface SpectrumFlags {
+  frequencyScale?: SpectrumSettings['frequencyScale'];
+  minFrequency?: number;
+  maxFrequency?: number;
+  bars?: number;
+  fftSize?: number;
+  windowFunction?: SpectrumSettings['windowFunction'];
+  spectrumAnalysis?: SpectrumSettings['analysis'];
+  overlap?: number;
+  minDb?: number;
+  maxDb?: number;
+  spectrumAxis?: boolean;
+}
+
+/**
+ * Spectrum settings given as flags (--frequency-scale, --min-frequency, --max-frequency, --bars,
+ * --fft-size, --window-function, --spectrum-analysis, --overlap, --min-db, --max-db, --spectrum-axis)
+ */
+function parseSpectrumOptions(options: SpectrumFlags): Partial<SpectrumSettings> {
+  const spectrum: Partial<SpectrumSettings> = {};
+  if (options.frequencyScale) spectrum.frequencyScale = options.frequencyScale;
+  if (options.minFrequency !== undefined) spectrum.minFrequency = options.minFrequency;
+  if (options.maxFrequency !== undefined) spectrum.maxFrequency = options.maxFrequency;
+  if (options.bars !== undefined) spectrum.barCount = options.bars;
+  if (options.fftSize !== undefined) spectrum.fftSize = options.fftSize;
+  if (options.windowFunction) spectrum.windowFunction = options.windowFunction;
+  if (options.spectrumAnalysis) spectrum.analysis = options.spectrumAnalysis;
+  if (options.overlap !== undefined) spectrum.overlap = options.overlap;
+  if (options.minDb !== undefined) spectrum.minDecibels = options.minDb;
+  if (options.maxDb !== undefined) spectrum.maxDecibels = options.maxDb;
+  if (options.spectrumAxis) spectrum.showAxis = true;
+  return spectrum;
+}
+
+/**
+ * Describe the spectrum analysis mode (e.g. "average, 50% overlap")
+ */
+function describeAnalysis(spectrum: SpectrumSettings): string {
+  return spectrum.analysis === 'average' ? `average, ${Math.round(spectrum.overlap * 100)}% overlap` : 'latest frame';
+}
+
 program
   .name('multitrack-audio-visualizer')
   .description('Multi-Track Audio Visualizer - CLI Video Export')
@@ -21,16 +86,43 @@ program
   .option('-c, --config <path>', 'Path to JSON config file')
   .option('-a, --audio <files>', 'Comma-separated list of audio file paths')
   .option('-p, --preset <name>', 'Preset name to use')
-  .option('-o, --output <path>', 'Output video path', 'output.mp4')
-  .option('--layout <mode>', 'Layout mode: overlay, overlay-additive, stacked, spectrum-overlay, spectrum-stacked')
+  .option('-o, --output <path>', 'Output video path (default: output.<extension of the format>)')
+  .option('--layout <mode>', 'Layout mode: overlay, overlay-additive, stacked, spectrum-overlay, spectrum-stacked, spectrogram, spectrogram-stacked')
   .option('--amplitude-mode <mode>', 'Amplitude mode: individual, normalized')
   .option('--height <percent>', 'Height percentage (1-100)', parseFloat)
   .option('--smoothing <level>', 'Smoothing level (0-5)', parseInt)
   .option('--window-duration <seconds>', 'Window duration in seconds', parseFloat)
+  .option('--frequency-scale <scale>', 'Spectrum frequency axis: linear, log, mel, octave, third-octave (default: log)')
+  .option('--min-frequency <hz>', 'Lowest spectrum frequency in Hz (default: 20)', parseFloat)
+  .option('--max-frequency <hz>', 'Highest spectrum frequency in Hz (default: 20000)', parseFloat)
+  .option('--bars <number>', 'Spectrum bars for linear/log/mel scales (default: 96)', parseInt)
+  .option('--fft-size <samples>', 'Samples per spectrum FFT frame, a power of two from 256 to 32768 (default: 4096)', parseInt)
+  .option('--window-function <window>', 'Spectrum FFT window: hann, hamming, blackman-harris (default: hann)')
+  .option('--spectrum-analysis <mode>', 'Spectrum analysis: latest (frame at the playhead), average (frames across the window) (default: latest)')
+  .option('--overlap <fraction>', 'Overlap of averaged spectrum frames, 0-0.95 (default: 0.5)', parseFloat)
+  .option('--min-db <dbfs>', 'Spectrum level of an empty bar in dBFS (default: -90)', parseFloat)
+  .option('--max-db <dbfs>', 'Spectrum level of a full-height bar in dBFS (default: 0)', parseFloat)
+  .option('--spectrum-axis', 'Draw frequency and level ticks on spectrum layouts')
   .option('--fps <number>', 'Frames per second', parseInt)
-  .option('--codec <codec>', 'Video codec: h264, h265')
+  .option('--format <format>', 'Container: mp4, webm, mov, gif, apng (default: from the output extension, else mp4)')
+  .option('--codec <codec>', 'Video codec: h264, h265 (mp4), vp9, av1 (webm), prores (mov), gif, apng')
   .option('--quality <crf>', 'Quality CRF value (18-28, lower is better)', parseInt)
   .option('--audio-bitrate <bitrate>', 'Audio bitrate (e.g., 192k)')
+  .option('--resolution <WxH>', 'Output resolution (e.g. 1920x1080, 1080x1920, 3840x2160)')
+  .option('--aspect <ratio>', 'Output aspect ratio (e.g. 16:9, 9:16, 1:1); sizes the longer side to 1920 unless --resolution is set')
+  .option('--mute <tracks>', 'Comma-separated track numbers to mute (1-based)')
+  .option('--solo <tracks>', 'Comma-separated track numbers to solo (1-based)')
+  .option('--hide-muted', 'Hide muted/non-soloed tracks from the visualization')
+  .option('--image-sequence <format>', 'Write numbered png or jpeg frames + audio.wav to the output directory instead of a video (no FFmpeg)')
+  .option('--transparent', 'Transparent background (requires --codec vp9, prores or apng)')
+  .option('--start <time>', 'Export range start (seconds or mm:ss.ms)')
+  .option('--end <time>', 'Export range end (seconds or mm:ss.ms)')
+  .option('--offsets <seconds>', 'Comma-separated start offsets in seconds, one per track (e.g. 0,-0.25,1.5)')
+  .option('--auto-align [reference]', 'Align tracks by cross-correlation against a track number (1-based) or "mix" (default)')
+  .option('--frame-mode <mode>', 'How frames reach FFmpeg: pipe (stream raw frames, default) or png (temp PNG files, fallback)')
+  .option('--jobs <n>', 'Render frames on N worker threads in parallel (default: 1)', parseInt)
+  .option('--work-dir <dir>', 'Keep rendered frames and a manifest in this directory; running the same export again reuses them')
+  .option('--resume', 'Use <output>.work as the work directory (shorthand for --work-dir)')
   .option('--max-frames <number>', 'Limit total frames (for testing)', parseInt)
   .option('-v, --verbose', 'Enable verbose logging', false)
   .action(async (options) => {
@@ -63,19 +155,33 @@ program
         if (options.height) config.overrides.heightPercent = options.height;
         if (options.smoothing !== undefined) config.overrides.smoothingLevel = options.smoothing;
         if (options.windowDuration) config.overrides.windowDuration = options.windowDuration;
+        config.overrides.spectrum = { ...config.overrides.spectrum, ...parseSpectrumOptions(options) };
 
         // Apply export overrides
         if (!config.export) config.export = {};
         if (options.fps) config.export.fps = options.fps;
+        if (options.format) config.export.format = options.format;
         if (options.codec) config.export.codec = options.codec;
         if (options.quality) config.export.quality = options.quality;
         if (options.audioBitrate) config.export.audioBitrate = options.audioBitrate;
+        if (options.hideMuted) config.export.hideMutedTracks = true;
+        if (options.imageSequence) config.export.imageSequence = options.imageSequence;
+        if (options.transparent) config.export.transparentBackground = true;
+        if (options.start) config.export.startTime = options.start;
+        if (options.end) config.export.endTime = options.end;
+        if (options.resolution) Object.assign(config.export, parseResolution(options.resolution));
+        if (options.aspect) config.export.aspect = options.aspect;
+        if (options.frameMode) config.export.frameMode = options.frameMode;
+        if (options.jobs !== undefined) config.export.jobs = options.jobs;
+        if (options.workDir) config.export.workDir = options.workDir;
+        if (options.resume) config.export.resume = true;
+        if (options.autoAlign) config.autoAlign = options.autoAlign === true ? true : { reference: parseAlignReference(options.autoAlign) };
 
       } else if (options.audio) {
         // Build config from CLI arguments
         config = {
           audioFiles: options.audio.split(',').map((f: string) => f.trim()),
-          output: options.output,
+          output: options.output || '',
           preset: options.preset,
           verbose: options.verbose,
           overrides: {},
@@ -87,63 +193,151 @@ program
         if (options.height) config.overrides!.heightPercent = options.height;
         if (options.smoothing !== undefined) config.overrides!.smoothingLevel = options.smoothing;
         if (options.windowDuration) config.overrides!.windowDuration = options.windowDuration;
+        config.overrides!.spectrum = parseSpectrumOptions(options);
 
         if (options.fps) config.export!.fps = options.fps;
+        if (options.format) config.export!.format = options.format;
         if (options.codec) config.export!.codec = options.codec;
         if (options.quality) config.export!.quality = options.quality;
         if (options.audioBitrate) config.export!.audioBitrate = options.audioBitrate;
+        if (options.hideMuted) config.export!.hideMutedTracks = true;
+        if (options.imageSequence) config.export!.imageSequence = options.imageSequence;
+        if (options.transparent) config.export!.transparentBackground = true;
+        if (options.start) config.export!.startTime = options.start;
+        if (options.end) config.export!.endTime = options.end;
+        if (options.resolution) Object.assign(config.export!, parseResolution(options.resolution));
+        if (options.aspect) config.export!.aspect = options.aspect;
+        if (options.frameMode) config.export!.frameMode = options.frameMode;
+        if (options.jobs !== undefined) config.export!.jobs = options.jobs;
+        if (options.workDir) config.export!.workDir = options.workDir;
+        if (options.resume) config.export!.resume = true;
+        if (options.autoAlign) config.autoAlign = options.autoAlign === true ? true : { reference: parseAlignReference(options.autoAlign) };
 
       } else {
         logger.error('Either --config or --audio must be specified');
         process.exit(1);
       }
 
-      // Update logger verbose setting from config
-      if (config.verbose !== undefined) {
-        logger.setVerbose(config.verbose);
+      await ExportJob.run(config, logger, options);
+
+    } catch (error) {
+      if (error instanceof Error) {
+        logger.error(error.message);
+        if (error.stack) {
+          console.error('\nStack trace:');
+          console.error(error.stack);
+        }
+      } else {
+        logger.error('Unknown error occurred');
       }
+      process.exit(1);
+    }
+  });
 
-      // Parse and validate config
-      const configParser = new ConfigParser();
-      const audioFileConfigs = configParser.parseAudioFiles(config.audioFiles);
-      await configParser.validateAudioFiles(audioFileConfigs);
+program
+  .command('batch <jobFile>')
+  .description('Export many videos from a JSON or YAML job file')
+  .option('--concurrency <n>', 'Exports to run at the same time (default: from the job file, else 1)', parseInt)
+  .option('--report <path>', 'Write a JSON summary of successes, failures and timings')
+  .option('--dry-run', 'List the exports without running them')
+  .option('--max-frames <number>', 'Limit total frames per export (for testing)', parseInt)
+  .option('-v, --verbose', 'Enable verbose logging', false)
+  .action(async (jobFile: string, options) => {
+    const logger = new Logger(false);
 
-      // Build export options
-      const exportOptions: ExportOptions = await configParser.buildExportOptions(config);
+    try {
+      logger.info('Multi-Track Audio Visualizer - CLI Batch Export\n');
 
-      // Show configuration
-      if (config.preset) {
-        logger.info(`Using preset: ${config.preset}`);
+      const configParser = new ConfigParser();
+      const plan = await new BatchJobFile(configParser, logger).load(jobFile);
+      if (plan.jobs.length === 0) {
+        throw new Error('The job file lists no exports (no song folders matched)');
+      }
+      const concurrency = options.concurrency ?? plan.concurrency ?? 1;
+      if (!Number.isInteger(concurrency) || concurrency < 1) {
+        throw new Error(`Invalid concurrency: "${concurrency}". Must be a positive integer`);
       }
-      logger.info(`Audio files: ${audioFileConfigs.length} track(s)`);
-      logger.info(`Output: ${config.output}\n`);
 
-      // Load audio tracks
-      logger.header('Loading audio files:');
-      const audioEngine = new CLIAudioEngine(logger);
-      const tracks = await audioEngine.loadTracks(audioFileConfigs);
+      logger.info(`Jobs: ${plan.jobs.length} (${concurrency} at a time)`);
+      if (options.dryRun) {
+        for (const job of plan.jobs) {
+          console.log(`  ${job.name}`);
+          console.log(`    ${job.config.audioFiles.length} track(s) -> ${job.config.output}`);
+        }
+        return;
+      }
+
+      const startedAt = new Date();
+      const runner = new BatchRunner(logger, options.verbose, configParser);
+      const results = await runner.run(plan.jobs, concurrency, { maxFrames: options.maxFrames });
+      const seconds = (Date.now() - startedAt.getTime()) / 1000;
 
-      if (tracks.length === 0) {
-        logger.error('No audio tracks loaded');
+      runner.printSummary(results, seconds);
+      if (options.report) {
+        await runner.writeReport(options.report, results, startedAt, seconds);
+      }
+
+      if (results.some(result => result.status === 'failed')) {
         process.exit(1);
       }
 
-      logger.info('');
+    } catch (error) {
+      logger.error(error instanceof Error ? error.message : 'Unknown error occurred');
+      process.exit(1);
+    }
+  });
+
+program
+  .command('watch <dir>')
+  .description('Export each song folder in a directory (stems + optional visualizer.json) once its files stop changing')
+  .option('-c, --config <path>', 'JSON file with settings for every song (each folder\'s visualizer.json takes precedence)')
+  .option('-p, --preset <name>', 'Preset name to use')
+  .option('--settle <seconds>', `Seconds a folder's files must stay unchanged before exporting (default: ${SongFolderWatcher.DEFAULT_SETTLE_SECONDS})`, parseFloat)
+  .option('--interval <seconds>', `Seconds between scans (default: ${SongFolderWatcher.DEFAULT_INTERVAL_SECONDS})`, parseFloat)
+  .option('--log-file <path>', 'Append one line per export outcome (time, status, folder, output or error, seconds)')
+  .option('-v, --verbose', 'Enable verbose logging', false)
+  .action(async (dir: string, options) => {
+    const logger = new Logger(options.verbose);
 
-      // Create exporter and export video
-      const exporter = new CLIVideoExporter(audioEngine, logger);
-      await exporter.export(exportOptions, config.output, config.verbose || false, options.maxFrames);
+    try {
+      logger.info('Multi-Track Audio Visualizer - CLI Watch\n');
 
-    } catch (error) {
-      if (error instanceof Error) {
-        logger.error(error.message);
-        if (error.stack) {
-          console.error('\nStack trace:');
-          console.error(error.stack);
+      for (const [flag, value] of [['settle', options.settle], ['interval', options.interval]]) {
+        if (value !== undefined && (!Number.isFinite(value) || value <= 0)) {
+          throw new Error(`Invalid --${flag}: must be a positive number of seconds`);
         }
-      } else {
-        logger.error('Unknown error occurred');
       }
+
+      let defaults: Partial<CLIExportConfig> = {};
+      if (options.config) {
+        try {
+          defaults = JSON.parse(await fs.readFile(options.config, 'utf-8'));
+        } catch (error) {
+          throw new Error(`Failed to load config file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+      }
+      if (options.preset) defaults.preset = options.preset;
+
+      const watcher = new SongFolderWatcher(dir, logger, {
+        defaults,
+        settleSeconds: options.settle,
+        intervalSeconds: options.interval,
+        logFile: options.logFile,
+        verbose: options.verbose
+      });
+
+      // First Ctrl+C finishes the current export, the second one exits
+      process.once('SIGINT', () => {
+        logger.info('Stopping after the current export (Ctrl+C again to exit now)');
+        watcher.stop();
+        process.once('SIGINT', () => process.exit(130));
+      });
+
+      logger.info(`Watching ${dir} for song folders (Ctrl+C to stop)`);
+      await watcher.run();
+
+    } catch (error) {
+      logger.error(error instanceof Error ? error.message : 'Unknown error occurred');
       process.exit(1);
     }
   });
@@ -167,6 +361,10 @@ program
         console.log(`    Height: ${preset.settings.heightPercent}%`);
         console.log(`    Smoothing: ${preset.settings.smoothingLevel}`);
         console.log(`    Window Duration: ${preset.settings.windowDuration}s`);
+        if (preset.settings.spectrum) {
+          const { frequencyScale, minFrequency, maxFrequency, fftSize } = FrequencyBands.resolve(preset.settings.spectrum);
+          console.log(`    Spectrum: ${frequencyScale}, ${minFrequency}-${maxFrequency} Hz, FFT ${fftSize}`);
+        }
         console.log(`    FPS Cap: ${preset.settings.fpsCap}`);
         console.log('');
       }
@@ -200,6 +398,13 @@ program
       console.log(`  Height:          ${preset.settings.heightPercent}%`);
       console.log(`  Smoothing:       ${preset.settings.smoothingLevel}`);
       console.log(`  Window Duration: ${preset.settings.windowDuration}s`);
+      if (preset.settings.spectrum) {
+        const spectrum = FrequencyBands.resolve(preset.settings.spectrum);
+        const { frequencyScale, minFrequency, maxFrequency, barCount } = spectrum;
+        console.log(`  Spectrum:        ${frequencyScale}, ${minFrequency}-${maxFrequency} Hz, ${barCount} bars`);
+        console.log(`  Spectrum FFT:    ${spectrum.fftSize} samples, ${spectrum.windowFunction} window, ${describeAnalysis(spectrum)}`);
+        console.log(`  Spectrum Levels: ${spectrum.minDecibels} to ${spectrum.maxDecibels} dBFS${spectrum.showAxis ? ', with axis' : ''}`);
+      }
       console.log(`  FPS Cap:         ${preset.settings.fpsCap}`);
       console.log('');
       console.log(`Created:  ${new Date(preset.createdAt).toLocaleString()}`);
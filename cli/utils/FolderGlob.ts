@@ -0,0 +1,102 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+/**
+ * Expands folder globs (e.g. "songs/*" or "albums/**") to the matching directories.
+ * Supports `*` and `?` within a path segment and `**` for any number of segments.
+ */
+export class FolderGlob {
+  /**
+   * Find the directories matching a pattern, sorted
+   * @param cwd - Directory relative patterns are resolved against
+   */
+  static async expand(pattern: string, cwd: string = process.cwd()): Promise<string[]> {
+    const absolute = path.resolve(cwd, pattern);
+    const { root } = path.parse(absolute);
+    const segments = absolute
+      .slice(root.length)
+      .split(/[\\/]+/)
+      .filter(Boolean);
+
+    const matches = new Set<string>();
+    await FolderGlob.walk(root, segments, matches);
+    return [...matches].sort();
+  }
+
+  /**
+   * Whether a path segment contains glob characters
+   */
+  static hasMagic(segment: string): boolean {
+    return /[*?]/.test(segment);
+  }
+
+  /**
+   * Convert one path segment of a pattern to a regular expression
+   */
+  static segmentToRegExp(segment: string): RegExp {
+    const source = segment
+      .split('')
+      .map((char) =>
+        char === '*'
+          ? '[^/\\\\]*'
+          : char === '?'
+            ? '[^/\\\\]'
+            : char.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+      )
+      .join('');
+    return new RegExp(`^${source}$`);
+  }
+
+  private static async walk(dir: string, segments: string[], matches: Set<string>): Promise<void> {
+    if (segments.length === 0) {
+      matches.add(dir);
+      return;
+    }
+
+    const [segment, ...rest] = segments;
+
+    if (segment === '**') {
+      // Zero segments, or descend one level and keep the **
+      await FolderGlob.walk(dir, rest, matches);
+      for (const child of await FolderGlob.listDirectories(dir)) {
+        if (!child.startsWith('.')) {
+          await FolderGlob.walk(path.join(dir, child), segments, matches);
+        }
+      }
+      return;
+    }
+
+    if (!FolderGlob.hasMagic(segment)) {
+      const next = path.join(dir, segment);
+      if (await FolderGlob.isDirectory(next)) {
+        await FolderGlob.walk(next, rest, matches);
+      }
+      return;
+    }
+
+    const regex = FolderGlob.segmentToRegExp(segment);
+    for (const child of await FolderGlob.listDirectories(dir)) {
+      // Like shells, wildcards skip hidden folders
+      if (regex.test(child) && !child.startsWith('.')) {
+        await FolderGlob.walk(path.join(dir, child), rest, matches);
+      }
+    }
+  }
+
+  private static async listDirectories(dir: string): Promise<string[]> {
+    try {
+      const entries = await fs.readdir(dir, { withFileTypes: true });
+      return entries.filter((entry) => entry.isDirectory()).map((entry) => entry.name);
+    } catch {
+      return [];
+    }
+  }
+
+  private static async isDirectory(dir: string): Promise<boolean> {
+    try {
+      return (await fs.stat(dir)).isDirectory();
+    } catch {
+      return false;
+    }
+  }
+}
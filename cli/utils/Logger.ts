@@ -1,10 +1,14 @@
 export class Logger {
+  readonly prefix: string; // Labels the lines of one job when batch jobs run concurrently
   private isVerbose: boolean;
   private startTime: number;
+  private tag: string;
 
-  constructor(verbose: boolean = false) {
+  constructor(verbose: boolean = false, prefix: string = '') {
     this.isVerbose = verbose;
+    this.prefix = prefix;
     this.startTime = Date.now();
+    this.tag = prefix ? `[CLI] [${prefix}]` : '[CLI]';
   }
 
   setVerbose(verbose: boolean): void {
@@ -13,7 +17,7 @@ export class Logger {
 
   log(message: string, force: boolean = false): void {
     if (this.isVerbose || force) {
-      console.log(`[CLI] ${message}`);
+      console.log(`${this.tag} ${message}`);
     }
   }
 
@@ -22,26 +26,26 @@ export class Logger {
   }
 
   error(message: string): void {
-    console.error(`[CLI] Error: ${message}`);
+    console.error(`${this.tag} Error: ${message}`);
   }
 
   warn(message: string): void {
-    console.warn(`[CLI] Warning: ${message}`);
+    console.warn(`${this.tag} Warning: ${message}`);
   }
 
   success(message: string): void {
-    console.log(`[CLI] ✓ ${message}`);
+    console.log(`${this.tag} ✓ ${message}`);
   }
 
   verbose(message: string): void {
     if (this.isVerbose) {
-      console.log(`[CLI]   ${message}`);
+      console.log(`${this.tag}   ${message}`);
     }
   }
 
   header(message: string): void {
     if (this.isVerbose) {
-      console.log(`\n[CLI] ${message}`);
+      console.log(`\n${this.tag} ${message}`);
     }
   }
 
@@ -72,7 +76,7 @@ export class Logger {
 
   logElapsed(prefix: string = 'Elapsed'): void {
     if (this.isVerbose) {
-      console.log(`[CLI] ${prefix}: ${this.formatTime(this.getElapsedTime())}`);
+      console.log(`${this.tag} ${prefix}: ${this.formatTime(this.getElapsedTime())}`);
     }
   }
 }
@@ -17,8 +17,9 @@ export class ProgressReporter {
     this.currentPhase = phase;
     this.startTime = Date.now();
 
-    if (!this.verbose) {
-      // Create progress bar for non-verbose mode
+    if (!this.verbose && !this.logger.prefix) {
+      // Create progress bar for non-verbose mode (not for prefixed loggers: concurrent
+      // batch jobs would draw their bars over each other)
       this.bar = new cliProgress.SingleBar({
         format: `${phase}... {bar} {percentage}% | {elapsed}s / {eta}s`,
         barCompleteChar: '\u2588',
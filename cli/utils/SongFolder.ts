@@ -0,0 +1,69 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { CLIAudioFileConfig, CLIExportConfig } from '../config.js';
+import { CLIDecoderRegistry } from '../adapters/CLIDecoderRegistry.js';
+
+/**
+ * A folder holding one song: its stems, plus optional settings in CONFIG_FILE.
+ * Used by batch song entries and the watch command.
+ */
+export class SongFolder {
+  /**
+   * Per-song settings: an export config whose audioFiles (optional, to pick, order or
+   * color the stems) are relative to the folder. Its output is ignored.
+   */
+  static readonly CONFIG_FILE = 'visualizer.json';
+
+  /**
+   * Supported audio files directly inside a folder, in name order (hidden files, such
+   * as partial uploads, are skipped)
+   */
+  static async findAudioFiles(
+    folder: string,
+    decoders: CLIDecoderRegistry = CLIDecoderRegistry.createDefault()
+  ): Promise<string[]> {
+    const entries = await fs.readdir(folder, { withFileTypes: true });
+    return entries
+      .filter(
+        (entry) =>
+          entry.isFile() && !entry.name.startsWith('.') && decoders.findDecoder(entry.name) !== null
+      )
+      .map((entry) => path.join(folder, entry.name))
+      .sort();
+  }
+
+  /**
+   * Load the folder's settings file, with audio file paths resolved against the folder
+   * @returns The settings, or null if the folder has none
+   * @throws Error if the file is not valid JSON
+   */
+  static async loadConfig(folder: string): Promise<Partial<CLIExportConfig> | null> {
+    const configPath = path.join(folder, SongFolder.CONFIG_FILE);
+    let content: string;
+    try {
+      content = await fs.readFile(configPath, 'utf-8');
+    } catch {
+      return null;
+    }
+
+    let config: Partial<CLIExportConfig>;
+    try {
+      config = JSON.parse(content);
+    } catch (error) {
+      throw new Error(
+        `Invalid ${configPath}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+
+    const { output: _output, ...settings } = config;
+    if (settings.audioFiles) {
+      settings.audioFiles = (settings.audioFiles as Array<string | CLIAudioFileConfig>).map(
+        (file) =>
+          typeof file === 'string'
+            ? path.resolve(folder, file)
+            : { ...file, path: path.resolve(folder, file.path) }
+      ) as string[] | CLIAudioFileConfig[];
+    }
+    return settings;
+  }
+}
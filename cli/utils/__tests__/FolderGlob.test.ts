@@ -0,0 +1,88 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { FolderGlob } from '../FolderGlob.js';
+
+describe('FolderGlob', () => {
+  describe('segmentToRegExp', () => {
+    it('should match any characters within a segment for *', () => {
+      const regex = FolderGlob.segmentToRegExp('song-*');
+
+      expect(regex.test('song-1')).toBe(true);
+      expect(regex.test('song-')).toBe(true);
+      expect(regex.test('my song-1')).toBe(false);
+    });
+
+    it('should match exactly one character for ?', () => {
+      const regex = FolderGlob.segmentToRegExp('take?');
+
+      expect(regex.test('take1')).toBe(true);
+      expect(regex.test('take')).toBe(false);
+      expect(regex.test('take12')).toBe(false);
+    });
+
+    it('should not match across path separators', () => {
+      expect(FolderGlob.segmentToRegExp('*').test('a/b')).toBe(false);
+      expect(FolderGlob.segmentToRegExp('a?b').test('a\\b')).toBe(false);
+    });
+
+    it('should match regular expression characters literally', () => {
+      const regex = FolderGlob.segmentToRegExp('Live (2024) [v1.0]+*');
+
+      expect(regex.test('Live (2024) [v1.0]+ mix')).toBe(true);
+      expect(regex.test('Live 2024 v1x0')).toBe(false);
+    });
+  });
+
+  describe('hasMagic', () => {
+    it('should detect glob characters', () => {
+      expect(FolderGlob.hasMagic('song-*')).toBe(true);
+      expect(FolderGlob.hasMagic('take?')).toBe(true);
+      expect(FolderGlob.hasMagic('songs')).toBe(false);
+    });
+  });
+
+  describe('expand', () => {
+    let root: string;
+
+    beforeAll(async () => {
+      root = await fs.mkdtemp(path.join(os.tmpdir(), 'folder-glob-test-'));
+      for (const dir of ['songs/alpha', 'songs/beta/demo', 'songs/.hidden', 'albums/one/intro']) {
+        await fs.mkdir(path.join(root, dir), { recursive: true });
+      }
+      await fs.writeFile(path.join(root, 'songs', 'notes.txt'), '');
+    });
+
+    afterAll(async () => {
+      await fs.rm(root, { recursive: true, force: true });
+    });
+
+    it('should list the matching directories, sorted, skipping files and hidden folders', async () => {
+      expect(await FolderGlob.expand('songs/*', root)).toEqual([
+        path.join(root, 'songs', 'alpha'),
+        path.join(root, 'songs', 'beta'),
+      ]);
+    });
+
+    it('should match any number of segments for **', async () => {
+      expect(await FolderGlob.expand('**/intro', root)).toEqual([
+        path.join(root, 'albums', 'one', 'intro'),
+      ]);
+      expect(await FolderGlob.expand('songs/**', root)).toEqual([
+        path.join(root, 'songs'),
+        path.join(root, 'songs', 'alpha'),
+        path.join(root, 'songs', 'beta'),
+        path.join(root, 'songs', 'beta', 'demo'),
+      ]);
+    });
+
+    it('should return a literal directory, and nothing for missing ones', async () => {
+      expect(await FolderGlob.expand('songs/alpha', root)).toEqual([
+        path.join(root, 'songs', 'alpha'),
+      ]);
+      expect(await FolderGlob.expand('songs/gamma', root)).toEqual([]);
+      expect(await FolderGlob.expand('missing/*', root)).toEqual([]);
+    });
+  });
+});
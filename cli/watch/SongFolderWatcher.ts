@@ -0,0 +1,292 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ConfigParser, type CLIExportConfig } from '../config.js';
+import { CLIDecoderRegistry } from '../adapters/CLIDecoderRegistry.js';
+import { ExportJob } from '../export/ExportJob.js';
+import { SongFolder } from '../utils/SongFolder.js';
+import { Logger } from '../utils/Logger.js';
+import { ExportFormats } from '../../src/export/ExportFormats.js';
+
+/**
+ * Settings of the watch command
+ */
+export interface WatchOptions {
+  defaults?: Partial<CLIExportConfig>; // Settings under each song's own settings file
+  settleSeconds?: number; // How long a folder's files must stay unchanged (default: 10)
+  intervalSeconds?: number; // Time between scans (default: 2)
+  logFile?: string; // Append one line per export outcome
+  verbose?: boolean;
+}
+
+/**
+ * What the watcher knows about one song folder
+ */
+interface FolderState {
+  signature: string; // Names, sizes and modification times of the song's files
+  changedAt: number; // When the signature last changed (ms)
+  handled: string | null; // Signature last exported (or failed), so it is not exported again
+}
+
+/**
+ * Watches a directory for song folders (stems plus an optional SongFolder.CONFIG_FILE)
+ * and exports each one once its files stop changing. The output is written into the
+ * song folder; a folder is exported again when its files change.
+ */
+export class SongFolderWatcher {
+  static readonly DEFAULT_SETTLE_SECONDS = 10;
+  static readonly DEFAULT_INTERVAL_SECONDS = 2;
+
+  private root: string;
+  private logger: Logger;
+  private configParser: ConfigParser;
+  private decoders: CLIDecoderRegistry;
+  private clock: () => number;
+  private options: WatchOptions;
+  private folders = new Map<string, FolderState>();
+  private stopped = false;
+  private wakeUp: (() => void) | null = null;
+
+  constructor(
+    root: string,
+    logger: Logger,
+    options: WatchOptions = {},
+    configParser: ConfigParser = new ConfigParser(),
+    decoders: CLIDecoderRegistry = CLIDecoderRegistry.createDefault(),
+    clock: () => number = Date.now
+  ) {
+    this.root = path.resolve(root);
+    this.logger = logger;
+    this.options = options;
+    this.configParser = configParser;
+    this.decoders = decoders;
+    this.clock = clock;
+  }
+
+  /**
+   * Scan until stop() is called. Songs already exported (output newer than all their
+   * files) are skipped.
+   * @throws Error if the watched directory cannot be read
+   */
+  async run(): Promise<void> {
+    const intervalMs =
+      (this.options.intervalSeconds ?? SongFolderWatcher.DEFAULT_INTERVAL_SECONDS) * 1000;
+
+    while (!this.stopped) {
+      await this.scan();
+      if (!this.stopped) {
+        await new Promise<void>((resolve) => {
+          const timer = setTimeout(resolve, intervalMs);
+          this.wakeUp = () => {
+            clearTimeout(timer);
+            resolve();
+          };
+        });
+        this.wakeUp = null;
+      }
+    }
+  }
+
+  /**
+   * Stop watching after the current export, if any
+   */
+  stop(): void {
+    this.stopped = true;
+    this.wakeUp?.();
+  }
+
+  /**
+   * Check every song folder once, exporting those that have settled
+   * @throws Error if the watched directory cannot be read
+   */
+  async scan(): Promise<void> {
+    const settleMs =
+      (this.options.settleSeconds ?? SongFolderWatcher.DEFAULT_SETTLE_SECONDS) * 1000;
+    const entries = await fs.readdir(this.root, { withFileTypes: true });
+    const folders = entries
+      .filter((entry) => entry.isDirectory() && !entry.name.startsWith('.'))
+      .map((entry) => path.join(this.root, entry.name))
+      .sort();
+
+    // Forget folders that were removed
+    for (const folder of this.folders.keys()) {
+      if (!folders.includes(folder)) {
+        this.folders.delete(folder);
+      }
+    }
+
+    for (const folder of folders) {
+      if (this.stopped) {
+        return;
+      }
+
+      const signature = await this.readSignature(folder);
+      if (signature === null) {
+        this.folders.delete(folder);
+        continue;
+      }
+
+      const now = this.clock();
+      const state = this.folders.get(folder);
+      if (!state) {
+        // Folders seen for the first time may already be exported
+        const upToDate = await this.isUpToDate(folder);
+        this.logger.verbose(
+          `${path.basename(folder)}: ${upToDate ? 'up to date' : 'found, waiting for files to settle'}`
+        );
+        this.folders.set(folder, {
+          signature,
+          changedAt: now,
+          handled: upToDate ? signature : null,
+        });
+        continue;
+      }
+
+      if (state.signature !== signature) {
+        if (state.handled !== null) {
+          this.logger.verbose(`${path.basename(folder)}: changed, waiting for files to settle`);
+        }
+        state.signature = signature;
+        state.changedAt = now;
+        continue;
+      }
+
+      if (state.handled !== signature && now - state.changedAt >= settleMs) {
+        state.handled = signature;
+        await this.exportFolder(folder);
+      }
+    }
+  }
+
+  /**
+   * Export one song folder and log the outcome
+   */
+  private async exportFolder(folder: string): Promise<void> {
+    const song = path.basename(folder);
+    const startTime = Date.now();
+    this.logger.info(`Exporting ${song}`);
+
+    try {
+      const config = await this.buildConfig(folder);
+      const logger = new Logger(this.options.verbose ?? false, song);
+      const output = await ExportJob.run(config, logger, {}, this.configParser);
+
+      const seconds = (Date.now() - startTime) / 1000;
+      this.logger.success(`${song} -> ${output} (${this.logger.formatTime(seconds)})`);
+      await this.appendLog('succeeded', folder, output, seconds);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error occurred';
+      const seconds = (Date.now() - startTime) / 1000;
+      this.logger.error(`${song}: ${message} (will retry when its files change)`);
+      await this.appendLog('failed', folder, message, seconds);
+    }
+  }
+
+  /**
+   * Export config of a song: the watch defaults, then the folder's settings file, with
+   * the folder's audio files and an output inside the folder
+   */
+  private async buildConfig(folder: string): Promise<CLIExportConfig> {
+    const settings = this.configParser.mergeConfig(
+      this.options.defaults ?? {},
+      (await SongFolder.loadConfig(folder)) ?? {}
+    );
+    const audioFiles =
+      settings.audioFiles ?? (await SongFolder.findAudioFiles(folder, this.decoders));
+    const config: CLIExportConfig = {
+      ...settings,
+      audioFiles,
+      output: this.outputPath(folder, settings),
+    };
+    this.configParser.validateConfig(config);
+    return config;
+  }
+
+  /**
+   * Output of a song: "<song>.<ext>", or a "<song> frames" directory for image sequences
+   */
+  private outputPath(folder: string, settings: Partial<CLIExportConfig>): string {
+    const song = path.basename(folder);
+    if (settings.export?.imageSequence) {
+      return path.join(folder, `${song} frames`);
+    }
+    const format = this.configParser.resolveFormat(settings.export);
+    return path.join(folder, `${song}.${ExportFormats.FORMATS[format].extension}`);
+  }
+
+  /**
+   * Identify the current state of a song's files
+   * @returns The signature, or null if the folder has no audio files
+   */
+  private async readSignature(folder: string): Promise<string | null> {
+    try {
+      const files = await SongFolder.findAudioFiles(folder, this.decoders);
+      if (files.length === 0) {
+        return null;
+      }
+      files.push(path.join(folder, SongFolder.CONFIG_FILE));
+
+      const parts: string[] = [];
+      for (const file of files) {
+        const stats = await fs.stat(file).catch(() => null);
+        if (stats) {
+          parts.push(`${path.basename(file)}:${stats.size}:${stats.mtimeMs}`);
+        }
+      }
+      return parts.join('|');
+    } catch {
+      // Folder removed or unreadable mid-scan
+      return null;
+    }
+  }
+
+  /**
+   * Whether the song's output exists and is newer than all of its files
+   */
+  private async isUpToDate(folder: string): Promise<boolean> {
+    try {
+      const config = await this.buildConfig(folder);
+      const outputTime = (await fs.stat(config.output)).mtimeMs;
+      const inputs = [
+        ...this.configParser.parseAudioFiles(config.audioFiles).map((file) => file.path),
+        path.join(folder, SongFolder.CONFIG_FILE),
+      ];
+      for (const input of inputs) {
+        const stats = await fs.stat(input).catch(() => null);
+        if (stats && stats.mtimeMs > outputTime) {
+          return false;
+        }
+      }
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Append an outcome line (tab-separated: time, status, folder, output or error, seconds)
+   */
+  private async appendLog(
+    status: 'succeeded' | 'failed',
+    folder: string,
+    detail: string,
+    seconds: number
+  ): Promise<void> {
+    if (!this.options.logFile) {
+      return;
+    }
+    const line = [
+      new Date().toISOString(),
+      status,
+      folder,
+      detail.replace(/\s+/g, ' '),
+      seconds.toFixed(1),
+    ].join('\t');
+    try {
+      await fs.appendFile(this.options.logFile, `${line}\n`);
+    } catch (error) {
+      this.logger.warn(
+        `Could not write ${this.options.logFile}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+}
@@ -0,0 +1,174 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { SongFolderWatcher, type WatchOptions } from '../SongFolderWatcher.js';
+import { ExportJob } from '../../export/ExportJob.js';
+import { ConfigParser } from '../../config.js';
+import { Logger } from '../../utils/Logger.js';
+
+vi.mock('../../export/ExportJob.js', () => ({ ExportJob: { run: vi.fn() } }));
+
+const SETTLE_MS = SongFolderWatcher.DEFAULT_SETTLE_SECONDS * 1000;
+
+describe('SongFolderWatcher', () => {
+  let root: string;
+  let time: number;
+
+  function createWatcher(options: WatchOptions = {}): SongFolderWatcher {
+    return new SongFolderWatcher(
+      root,
+      new Logger(),
+      options,
+      new ConfigParser(),
+      undefined,
+      () => time
+    );
+  }
+
+  async function writeSong(name: string, files: Record<string, string>): Promise<string> {
+    const folder = path.join(root, name);
+    await fs.mkdir(folder, { recursive: true });
+    for (const [file, content] of Object.entries(files)) {
+      await fs.writeFile(path.join(folder, file), content);
+    }
+    return folder;
+  }
+
+  /**
+   * Scan with the clock at `ms`
+   */
+  async function scanAt(watcher: SongFolderWatcher, ms: number): Promise<void> {
+    time = ms;
+    await watcher.scan();
+  }
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'song-folder-watcher-test-'));
+    time = 0;
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.mocked(ExportJob.run).mockReset();
+    vi.mocked(ExportJob.run).mockImplementation((config) => Promise.resolve(config.output));
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  describe('scan', () => {
+    it('should export a song once its files have settled', async () => {
+      const folder = await writeSong('alpha', { 'drums.wav': 'a', 'bass.wav': 'b' });
+      const watcher = createWatcher();
+
+      await scanAt(watcher, 0);
+      await scanAt(watcher, SETTLE_MS - 1);
+      expect(ExportJob.run).not.toHaveBeenCalled();
+
+      await scanAt(watcher, SETTLE_MS);
+      expect(ExportJob.run).toHaveBeenCalledTimes(1);
+      expect(vi.mocked(ExportJob.run).mock.calls[0][0]).toMatchObject({
+        audioFiles: [path.join(folder, 'bass.wav'), path.join(folder, 'drums.wav')],
+        output: path.join(folder, 'alpha.mp4'),
+      });
+
+      await scanAt(watcher, SETTLE_MS * 3);
+      expect(ExportJob.run).toHaveBeenCalledTimes(1);
+    });
+
+    it('should honour the settle time option', async () => {
+      await writeSong('alpha', { 'drums.wav': 'a' });
+      const watcher = createWatcher({ settleSeconds: 2 });
+
+      await scanAt(watcher, 0);
+      await scanAt(watcher, 2000);
+
+      expect(ExportJob.run).toHaveBeenCalledTimes(1);
+    });
+
+    it('should restart the settle window while files keep changing', async () => {
+      const folder = await writeSong('alpha', { 'drums.wav': 'a' });
+      const watcher = createWatcher();
+
+      await scanAt(watcher, 0);
+      await fs.writeFile(path.join(folder, 'drums.wav'), 'ab');
+      await scanAt(watcher, SETTLE_MS);
+      expect(ExportJob.run).not.toHaveBeenCalled();
+
+      await scanAt(watcher, SETTLE_MS * 2);
+      expect(ExportJob.run).toHaveBeenCalledTimes(1);
+    });
+
+    it('should export a song again after its files change', async () => {
+      const folder = await writeSong('alpha', { 'drums.wav': 'a' });
+      const watcher = createWatcher();
+      await scanAt(watcher, 0);
+      await scanAt(watcher, SETTLE_MS);
+
+      await writeSong('alpha', { 'vox.wav': 'c' });
+      await scanAt(watcher, SETTLE_MS * 2);
+      await scanAt(watcher, SETTLE_MS * 3);
+
+      expect(ExportJob.run).toHaveBeenCalledTimes(2);
+      expect(vi.mocked(ExportJob.run).mock.calls[1][0].audioFiles).toEqual([
+        path.join(folder, 'drums.wav'),
+        path.join(folder, 'vox.wav'),
+      ]);
+    });
+
+    it('should skip songs whose output is newer than their files', async () => {
+      const folder = await writeSong('alpha', { 'drums.wav': 'a', 'alpha.mp4': 'video' });
+      const future = new Date(Date.now() + 60_000);
+      await fs.utimes(path.join(folder, 'alpha.mp4'), future, future);
+      const watcher = createWatcher();
+
+      await scanAt(watcher, 0);
+      await scanAt(watcher, SETTLE_MS * 2);
+
+      expect(ExportJob.run).not.toHaveBeenCalled();
+    });
+
+    it('should export songs whose output is older than their files', async () => {
+      const folder = await writeSong('alpha', { 'drums.wav': 'a', 'alpha.mp4': 'video' });
+      const past = new Date(Date.now() - 60_000);
+      await fs.utimes(path.join(folder, 'alpha.mp4'), past, past);
+      const watcher = createWatcher();
+
+      await scanAt(watcher, 0);
+      await scanAt(watcher, SETTLE_MS);
+
+      expect(ExportJob.run).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not retry a failed export until the files change', async () => {
+      const folder = await writeSong('alpha', { 'drums.wav': 'a' });
+      const logFile = path.join(root, 'watch.log');
+      vi.mocked(ExportJob.run).mockRejectedValueOnce(new Error('FFmpeg exited with code 1'));
+      const watcher = createWatcher({ logFile });
+
+      await scanAt(watcher, 0);
+      await scanAt(watcher, SETTLE_MS);
+      await scanAt(watcher, SETTLE_MS * 5);
+      expect(ExportJob.run).toHaveBeenCalledTimes(1);
+
+      const log = await fs.readFile(logFile, 'utf-8');
+      expect(log.split('\t').slice(1, 4)).toEqual(['failed', folder, 'FFmpeg exited with code 1']);
+
+      await fs.writeFile(path.join(folder, 'drums.wav'), 'fixed');
+      await scanAt(watcher, SETTLE_MS * 6);
+      await scanAt(watcher, SETTLE_MS * 7);
+      expect(ExportJob.run).toHaveBeenCalledTimes(2);
+    });
+
+    it('should ignore hidden folders and folders without audio', async () => {
+      await writeSong('.uploads', { 'drums.wav': 'a' });
+      await writeSong('artwork', { 'cover.jpg': 'jpg' });
+      const watcher = createWatcher();
+
+      await scanAt(watcher, 0);
+      await scanAt(watcher, SETTLE_MS);
+
+      expect(ExportJob.run).not.toHaveBeenCalled();
+    });
+  });
+});
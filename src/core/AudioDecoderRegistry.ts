@@ -0,0 +1,151 @@
+import { AiffDecoder } from '../utils/AiffDecoder';
+
+/**
+ * A decoder that can turn an encoded audio file into an AudioBuffer
+ */
+export interface AudioFileDecoder {
+  name: string;
+  extensions: string[]; // Lowercase, without the leading dot
+  canDecode(file: File): boolean;
+  decode(data: ArrayBuffer, audioContext: BaseAudioContext): Promise<AudioBuffer>;
+}
+
+/**
+ * MIME types for extensions the browser may be able to decode natively
+ */
+const NATIVE_MIME_TYPES: Partial<Record<string, string>> = {
+  wav: 'audio/wav',
+  wave: 'audio/wav',
+  mp3: 'audio/mpeg',
+  flac: 'audio/flac',
+  ogg: 'audio/ogg',
+  oga: 'audio/ogg',
+  opus: 'audio/ogg; codecs=opus',
+  m4a: 'audio/mp4',
+  aac: 'audio/aac',
+  webm: 'audio/webm',
+  aif: 'audio/aiff',
+  aiff: 'audio/aiff',
+};
+
+/**
+ * Get the lowercase extension of a file name (without the dot)
+ */
+function getExtension(fileName: string): string {
+  const dotIndex = fileName.lastIndexOf('.');
+  return dotIndex === -1 ? '' : fileName.slice(dotIndex + 1).toLowerCase();
+}
+
+/**
+ * Check whether the browser reports it can play a MIME type
+ */
+function canBrowserPlay(mimeType: string): boolean {
+  if (typeof document === 'undefined') {
+    return false;
+  }
+  return document.createElement('audio').canPlayType(mimeType) !== '';
+}
+
+/**
+ * Pure-JS AIFF decoder (most browsers cannot decode AIFF natively)
+ */
+const aiffDecoder: AudioFileDecoder = {
+  name: 'aiff',
+  extensions: ['aif', 'aiff', 'aifc'],
+  canDecode: (file) => aiffDecoder.extensions.includes(getExtension(file.name)),
+  decode: (data, audioContext) => {
+    const decoded = AiffDecoder.decode(data);
+    const length = decoded.channelData[0].length;
+    const buffer = audioContext.createBuffer(
+      decoded.channelData.length,
+      Math.max(1, length),
+      decoded.sampleRate
+    );
+    decoded.channelData.forEach((channel, index) => {
+      buffer.getChannelData(index).set(channel);
+    });
+    return Promise.resolve(buffer);
+  },
+};
+
+/**
+ * Native Web Audio decoder - accepts anything the browser can play
+ */
+const webAudioDecoder: AudioFileDecoder = {
+  name: 'web-audio',
+  extensions: Object.keys(NATIVE_MIME_TYPES),
+  canDecode: (file) => {
+    const extension = getExtension(file.name);
+    // WAV is decodable in every browser with Web Audio support
+    if (extension === 'wav' || file.type === 'audio/wav' || file.type === 'audio/wave') {
+      return true;
+    }
+    const mimeType = file.type.startsWith('audio/') ? file.type : NATIVE_MIME_TYPES[extension];
+    return mimeType !== undefined && canBrowserPlay(mimeType);
+  },
+  decode: (data, audioContext) => audioContext.decodeAudioData(data),
+};
+
+/**
+ * Registry of audio file decoders. Decoders registered later take precedence,
+ * so custom decoders can override the built-in ones for specific formats.
+ */
+export class AudioDecoderRegistry {
+  private static decoders: AudioFileDecoder[] = [webAudioDecoder, aiffDecoder];
+
+  /**
+   * Register a custom decoder (checked before previously registered decoders)
+   */
+  static register(decoder: AudioFileDecoder): void {
+    this.decoders.push(decoder);
+  }
+
+  /**
+   * Remove a decoder by name
+   */
+  static unregister(name: string): void {
+    this.decoders = this.decoders.filter((d) => d.name !== name);
+  }
+
+  /**
+   * Find the decoder to use for a file, or null if the format is unsupported
+   */
+  static findDecoder(file: File): AudioFileDecoder | null {
+    for (let i = this.decoders.length - 1; i >= 0; i--) {
+      if (this.decoders[i].canDecode(file)) {
+        return this.decoders[i];
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Check whether any registered decoder can handle the file
+   */
+  static isSupported(file: File): boolean {
+    return this.findDecoder(file) !== null;
+  }
+
+  /**
+   * Get all file extensions known to registered decoders (for file input accept lists)
+   */
+  static getSupportedExtensions(): string[] {
+    const extensions = new Set<string>();
+    this.decoders.forEach((d) => {
+      d.extensions.forEach((ext) => extensions.add(ext));
+    });
+    return [...extensions].sort();
+  }
+
+  /**
+   * Decode a file into an AudioBuffer using the first matching decoder
+   */
+  static async decode(file: File, audioContext: BaseAudioContext): Promise<AudioBuffer> {
+    const decoder = this.findDecoder(file);
+    if (!decoder) {
+      throw new Error(`Unsupported audio format: ${file.name}`);
+    }
+    const data = await file.arrayBuffer();
+    return decoder.decode(data, audioContext);
+  }
+}
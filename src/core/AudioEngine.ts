@@ -1,7 +1,15 @@
 import { AudioTrack } from './AudioTrack';
-import type { PlaybackState } from '../types/audio.types';
+import { AudioDecoderRegistry } from './AudioDecoderRegistry';
+import { PeakCacheBuilder } from './PeakCacheBuilder';
+import { StemAligner } from './StemAligner';
+import { TimeSync } from '../utils/TimeSync';
+import pitchShiftWorkletUrl from './pitch-shift.worklet.ts?worker&url';
+import type { LoopRegion, PlaybackState, TrackAlignment } from '../types/audio.types';
 
 export class AudioEngine extends EventTarget {
+  static readonly MIN_PLAYBACK_RATE = 0.25;
+  static readonly MAX_PLAYBACK_RATE = 2;
+
   private audioContext: AudioContext | null = null;
   private tracks: AudioTrack[] = [];
   private masterGain: GainNode | null = null;
@@ -9,6 +17,10 @@ export class AudioEngine extends EventTarget {
   private startTime: number = 0;
   private pausedAt: number = 0;
   private animationFrameId: number | null = null;
+  private loopRegion: LoopRegion = { start: null, end: null, enabled: false };
+  private playbackRate: number = 1;
+  private preservePitch: boolean = false;
+  private pitchShiftNode: AudioWorkletNode | null = null;
 
   constructor() {
     super();
@@ -42,8 +54,7 @@ export class AudioEngine extends EventTarget {
     await this.initialize();
 
     const loadStartTime = performance.now();
-    const arrayBuffer = await file.arrayBuffer();
-    const audioBuffer = await this.audioContext!.decodeAudioData(arrayBuffer);
+    const audioBuffer = await AudioDecoderRegistry.decode(file, this.audioContext!);
     const loadDuration = performance.now() - loadStartTime;
 
     console.log('[AudioEngine] Track decoded successfully');
@@ -54,11 +65,21 @@ export class AudioEngine extends EventTarget {
 
     const track = new AudioTrack(this.generateTrackId(), file.name, audioBuffer, color, opacity);
 
+    // Waveforms scan the samples until the peak cache is ready
+    PeakCacheBuilder.build(audioBuffer.getChannelData(0))
+      .then((peakCache) => {
+        track.peakCache = peakCache;
+      })
+      .catch((error: unknown) => {
+        console.warn('[AudioEngine] Peak cache build failed:', error);
+      });
+
     // Create gain node for this track
     track.gainNode = this.audioContext!.createGain();
     track.gainNode.connect(this.masterGain!);
 
     this.tracks.push(track);
+    this.updateTrackGains();
 
     console.log('[AudioEngine] Track added');
     console.log('  - Track ID:', track.id);
@@ -100,6 +121,7 @@ export class AudioEngine extends EventTarget {
       }
 
       this.tracks.splice(index, 1);
+      this.updateTrackGains();
       this.dispatchEvent(new CustomEvent('trackremoved', { detail: { id: trackId } }));
     }
   }
@@ -125,20 +147,40 @@ export class AudioEngine extends EventTarget {
     // Stop existing sources
     this.stopSources();
 
+    // Playing from outside an active loop region jumps to the loop in point
+    const loop = this.getActiveLoop();
+    if (loop && (this.pausedAt < loop.start || this.pausedAt >= loop.end)) {
+      this.pausedAt = loop.start;
+    }
+
     // Create new source nodes for all tracks
     const offset = this.pausedAt;
     console.log('[AudioEngine] Starting playback from offset:', offset.toFixed(3), 'seconds');
     console.log('  - AudioContext.currentTime:', this.audioContext.currentTime.toFixed(3));
+    if (loop) {
+      console.log(`  - Looping ${loop.start.toFixed(3)}s - ${loop.end.toFixed(3)}s`);
+    }
 
     this.tracks.forEach((track, index) => {
       const source = this.audioContext!.createBufferSource();
       source.buffer = track.buffer;
+      source.playbackRate.value = this.playbackRate;
       source.connect(track.gainNode!);
-      source.start(0, offset);
+
+      // Map timeline position to the track's own time (start offset applied)
+      const trackOffset = offset - track.startOffset;
+      if (loop) {
+        this.startLoopingSource(source, track, loop, offset);
+      } else if (trackOffset < 0) {
+        // Track starts later on the timeline: schedule it in the future (in context time)
+        source.start(this.audioContext!.currentTime - trackOffset / this.playbackRate, 0);
+      } else {
+        source.start(0, trackOffset);
+      }
       track.sourceNode = source;
 
       console.log(
-        `  - Track ${index + 1} "${track.name}": started at offset ${offset.toFixed(3)}s`
+        `  - Track ${index + 1} "${track.name}": started at offset ${trackOffset.toFixed(3)}s`
       );
 
       // Handle track ending naturally (reaching end of audio)
@@ -166,7 +208,8 @@ export class AudioEngine extends EventTarget {
     });
 
     this.isPlaying = true;
-    this.startTime = this.audioContext.currentTime - offset;
+    // Context time at which timeline position 0 would have played at the current rate
+    this.startTime = this.audioContext.currentTime - offset / this.playbackRate;
 
     console.log('[AudioEngine] Playback started');
     console.log('  - startTime:', this.startTime.toFixed(3));
@@ -190,7 +233,7 @@ export class AudioEngine extends EventTarget {
       return;
     }
 
-    this.pausedAt = this.audioContext.currentTime - this.startTime;
+    this.pausedAt = this.getCurrentTime();
     console.log('[AudioEngine] Pausing at position:', this.pausedAt.toFixed(3), 'seconds');
     console.log('  - AudioContext.currentTime:', this.audioContext.currentTime.toFixed(3));
     console.log('  - startTime:', this.startTime.toFixed(3));
@@ -257,20 +300,25 @@ export class AudioEngine extends EventTarget {
     }
 
     if (this.isPlaying) {
-      return Math.min(this.audioContext.currentTime - this.startTime, this.getDuration());
+      const elapsed = (this.audioContext.currentTime - this.startTime) * this.playbackRate;
+      const loop = this.getActiveLoop();
+      if (loop) {
+        return TimeSync.wrapLoopTime(elapsed, loop.start, loop.end);
+      }
+      return Math.min(elapsed, this.getDuration());
     }
 
     return this.pausedAt;
   }
 
   /**
-   * Get total duration (longest track)
+   * Get total duration (latest track end on the timeline, including start offsets)
    */
   getDuration(): number {
     if (this.tracks.length === 0) {
       return 0;
     }
-    return Math.max(...this.tracks.map((t) => t.duration));
+    return Math.max(0, ...this.tracks.map((t) => t.endTime));
   }
 
   /**
@@ -307,6 +355,320 @@ export class AudioEngine extends EventTarget {
     }
   }
 
+  /**
+   * Set a track's volume (0-1)
+   */
+  setTrackVolume(trackId: string, volume: number): void {
+    const track = this.getTrack(trackId);
+    if (track) {
+      track.setVolume(volume);
+      this.updateTrackGains();
+    }
+  }
+
+  /**
+   * Mute or unmute a track
+   */
+  setTrackMuted(trackId: string, muted: boolean): void {
+    const track = this.getTrack(trackId);
+    if (track) {
+      console.log(`[AudioEngine] Track "${track.name}" ${muted ? 'muted' : 'unmuted'}`);
+      track.setMuted(muted);
+      this.updateTrackGains();
+    }
+  }
+
+  /**
+   * Solo or unsolo a track (any soloed track silences all non-soloed tracks)
+   */
+  setTrackSolo(trackId: string, solo: boolean): void {
+    const track = this.getTrack(trackId);
+    if (track) {
+      console.log(`[AudioEngine] Track "${track.name}" ${solo ? 'soloed' : 'unsoloed'}`);
+      track.setSolo(solo);
+      this.updateTrackGains();
+    }
+  }
+
+  /**
+   * Set a track's start offset on the timeline in seconds (negative trims its beginning)
+   */
+  setTrackOffset(trackId: string, seconds: number): void {
+    const track = this.getTrack(trackId);
+    if (!track) {
+      return;
+    }
+
+    console.log(`[AudioEngine] Track "${track.name}" offset set to ${seconds.toFixed(3)}s`);
+
+    const currentTime = this.getCurrentTime();
+    track.setStartOffset(seconds);
+    this.dispatchEvent(
+      new CustomEvent('offsetchanged', {
+        detail: { id: trackId, offset: track.startOffset, duration: this.getDuration() },
+      })
+    );
+
+    // Re-seek so the new alignment takes effect (restarts sources when playing)
+    this.seek(currentTime);
+  }
+
+  /**
+   * Get the playback rate (1 = normal speed)
+   */
+  getPlaybackRate(): number {
+    return this.playbackRate;
+  }
+
+  /**
+   * Set the playback rate for all tracks (clamped to MIN/MAX_PLAYBACK_RATE)
+   */
+  setPlaybackRate(rate: number): void {
+    const currentTime = this.getCurrentTime();
+    this.playbackRate = Math.max(
+      AudioEngine.MIN_PLAYBACK_RATE,
+      Math.min(AudioEngine.MAX_PLAYBACK_RATE, rate)
+    );
+
+    console.log('[AudioEngine] Playback rate set to', this.playbackRate);
+
+    this.updateOutputRouting();
+    this.dispatchRateChanged();
+
+    // Restart sources so the new rate and timing take effect together
+    if (this.isPlaying) {
+      this.seek(currentTime);
+    }
+  }
+
+  /**
+   * Whether pitch is preserved when the playback rate is not 1
+   */
+  getPreservePitch(): boolean {
+    return this.preservePitch;
+  }
+
+  /**
+   * Enable or disable pitch-preserving time-stretch (loads the pitch-shift AudioWorklet on first use)
+   */
+  async setPreservePitch(enabled: boolean): Promise<void> {
+    if (enabled && !this.pitchShiftNode) {
+      await this.initialize();
+      await this.audioContext!.audioWorklet.addModule(pitchShiftWorkletUrl);
+      this.pitchShiftNode = new AudioWorkletNode(this.audioContext!, 'pitch-shift-processor', {
+        outputChannelCount: [2],
+      });
+      this.pitchShiftNode.connect(this.audioContext!.destination);
+      console.log('[AudioEngine] Pitch-shift worklet loaded');
+    }
+
+    this.preservePitch = enabled;
+    this.updateOutputRouting();
+    this.dispatchRateChanged();
+  }
+
+  /**
+   * Get the loop region (in/out points may be unset)
+   */
+  getLoopRegion(): LoopRegion {
+    return { ...this.loopRegion };
+  }
+
+  /**
+   * Set the loop in point (seconds). Clears the out point if it is no longer after the in point.
+   */
+  setLoopIn(time: number): void {
+    const start = TimeSync.clampTime(time, this.getDuration());
+    const end =
+      this.loopRegion.end !== null && this.loopRegion.end > start ? this.loopRegion.end : null;
+    this.updateLoopRegion({ ...this.loopRegion, start, end });
+  }
+
+  /**
+   * Set the loop out point (seconds). Clears the in point if it is no longer before the out point.
+   * Setting both points enables looping.
+   */
+  setLoopOut(time: number): void {
+    const end = TimeSync.clampTime(time, this.getDuration());
+    const start =
+      this.loopRegion.start !== null && this.loopRegion.start < end ? this.loopRegion.start : null;
+    this.updateLoopRegion({ start, end, enabled: start !== null || this.loopRegion.enabled });
+  }
+
+  /**
+   * Enable or disable looping of the in/out region
+   */
+  setLoopEnabled(enabled: boolean): void {
+    this.updateLoopRegion({ ...this.loopRegion, enabled });
+  }
+
+  /**
+   * Remove the loop in/out points and disable looping
+   */
+  clearLoop(): void {
+    this.updateLoopRegion({ start: null, end: null, enabled: false });
+  }
+
+  /**
+   * Automatically align tracks by cross-correlating them against a reference
+   * @param referenceTrackId - Track to align against, or null to use the mix of the other tracks
+   * @returns Detected offset and confidence per track
+   */
+  autoAlignTracks(referenceTrackId: string | null = null): TrackAlignment[] {
+    if (this.tracks.length < 2) {
+      return [];
+    }
+
+    console.log('[AudioEngine] autoAlignTracks() called');
+    console.log('  - Reference:', referenceTrackId ?? 'mix');
+
+    const currentTime = this.getCurrentTime();
+    const alignments = StemAligner.alignTracks(this.tracks, referenceTrackId);
+
+    alignments.forEach((alignment) => {
+      const track = this.getTrack(alignment.trackId)!;
+      console.log(
+        `  - "${track.name}": offset ${alignment.offset.toFixed(3)}s, confidence ${(alignment.confidence * 100).toFixed(0)}%`
+      );
+      this.dispatchEvent(
+        new CustomEvent('offsetchanged', {
+          detail: { id: track.id, offset: track.startOffset, duration: this.getDuration() },
+        })
+      );
+    });
+
+    this.dispatchEvent(new CustomEvent('tracksaligned', { detail: alignments }));
+
+    // Re-seek so the new alignment takes effect (restarts sources when playing)
+    this.seek(currentTime);
+
+    return alignments;
+  }
+
+  /**
+   * Check whether any track is soloed
+   */
+  hasSoloedTracks(): boolean {
+    return this.tracks.some((t) => t.solo);
+  }
+
+  /**
+   * Get tracks that are currently audible (respecting mute and solo)
+   */
+  getAudibleTracks(): AudioTrack[] {
+    const anySoloed = this.hasSoloedTracks();
+    return this.tracks.filter((t) => t.isAudible(anySoloed));
+  }
+
+  /**
+   * Apply mute/solo/volume state to every track's gain node
+   */
+  private updateTrackGains(): void {
+    const anySoloed = this.hasSoloedTracks();
+    this.tracks.forEach((track) => {
+      if (track.gainNode) {
+        track.gainNode.gain.value = track.getEffectiveGain(anySoloed);
+      }
+    });
+    this.dispatchEvent(new Event('mixchanged'));
+  }
+
+  /**
+   * Route the master bus through the pitch shifter only when it is needed
+   * (pitch preservation enabled and rate != 1), otherwise straight to the destination
+   */
+  private updateOutputRouting(): void {
+    if (!this.audioContext || !this.masterGain) {
+      return;
+    }
+
+    this.masterGain.disconnect();
+    if (this.preservePitch && this.pitchShiftNode && this.playbackRate !== 1) {
+      // Sources are sped up/slowed down (shifting pitch by the rate); shift it back
+      this.pitchShiftNode.parameters.get('pitchRatio')!.value = 1 / this.playbackRate;
+      this.masterGain.connect(this.pitchShiftNode);
+    } else {
+      this.masterGain.connect(this.audioContext.destination);
+    }
+  }
+
+  private dispatchRateChanged(): void {
+    this.dispatchEvent(
+      new CustomEvent('ratechanged', {
+        detail: { rate: this.playbackRate, preservePitch: this.preservePitch },
+      })
+    );
+  }
+
+  /**
+   * Get the loop region if looping is enabled and both points are set
+   */
+  private getActiveLoop(): { start: number; end: number } | null {
+    const { start, end, enabled } = this.loopRegion;
+    if (!enabled || start === null || end === null || end <= start) {
+      return null;
+    }
+    return { start, end };
+  }
+
+  private updateLoopRegion(region: LoopRegion): void {
+    const currentTime = this.getCurrentTime();
+    this.loopRegion = region;
+
+    console.log('[AudioEngine] Loop region updated');
+    console.log('  - In:', region.start?.toFixed(3) ?? 'unset');
+    console.log('  - Out:', region.end?.toFixed(3) ?? 'unset');
+    console.log('  - Enabled:', region.enabled);
+
+    this.dispatchEvent(new CustomEvent('loopchanged', { detail: this.getLoopRegion() }));
+
+    // Restart sources so the new loop points take effect
+    if (this.isPlaying) {
+      this.seek(currentTime);
+    }
+  }
+
+  /**
+   * Start a looping source for a track over a timeline loop region.
+   * Tracks that cover the whole region loop their own buffer; tracks that start late or end early
+   * (because of their start offset or length) loop a silence-padded copy of the region instead,
+   * so every track wraps at the same moment.
+   */
+  private startLoopingSource(
+    source: AudioBufferSourceNode,
+    track: AudioTrack,
+    loop: { start: number; end: number },
+    offset: number
+  ): void {
+    const localStart = loop.start - track.startOffset;
+    const localEnd = loop.end - track.startOffset;
+    source.loop = true;
+
+    if (localStart >= 0 && localEnd <= track.duration) {
+      source.loopStart = localStart;
+      source.loopEnd = localEnd;
+      source.start(0, offset - track.startOffset);
+      return;
+    }
+
+    const sampleRate = track.sampleRate;
+    const length = Math.max(1, Math.round((loop.end - loop.start) * sampleRate));
+    const segment = this.audioContext!.createBuffer(track.numberOfChannels, length, sampleRate);
+    const firstSample = track.timelineToSampleIndex(loop.start);
+
+    for (let c = 0; c < track.numberOfChannels; c++) {
+      const channelData = track.buffer.getChannelData(c);
+      const from = Math.max(0, firstSample);
+      const to = Math.min(channelData.length, firstSample + length);
+      if (to > from) {
+        segment.getChannelData(c).set(channelData.subarray(from, to), from - firstSample);
+      }
+    }
+
+    source.buffer = segment;
+    source.start(0, offset - loop.start);
+  }
+
   /**
    * Stop all source nodes
    */
@@ -377,6 +739,10 @@ export class AudioEngine extends EventTarget {
       this.masterGain.disconnect();
     }
 
+    if (this.pitchShiftNode) {
+      this.pitchShiftNode.disconnect();
+    }
+
     if (this.audioContext) {
       this.audioContext.close();
     }
@@ -1,14 +1,28 @@
 import type { TrackMetadata } from '../types/audio.types';
+import type { SpectrumAnalysis, WindowFunction } from '../types/visualizer.types';
+import { FFT } from '../utils/FFT';
+import { PeakCache, type PeakRange } from './PeakCache';
 
 export class AudioTrack {
+  static readonly MAX_AVERAGED_FRAMES = 64; // Limits the work of 'average' analysis per call
+
   public id: string;
   public name: string;
   public buffer: AudioBuffer;
   public color: string;
   public opacity: number;
+  public volume: number = 1;
+  public muted: boolean = false;
+  public solo: boolean = false;
+  public startOffset: number = 0; // Timeline position of the first sample, in seconds
   public waveformData: Float32Array | null = null;
   public gainNode: GainNode | null = null;
   public sourceNode: AudioBufferSourceNode | null = null;
+  public peakCache: PeakCache | null = null; // Of the first channel; waveforms scan samples without it
+  private spectrumInput: Float32Array | null = null; // Reused between spectrum frames
+  private spectrumOutput: Float32Array | null = null;
+  private spectrumPower: Float64Array | null = null;
+  private peakRange: PeakRange = { min: 0, max: 0, rms: 0 }; // Reused between peak queries
 
   constructor(id: string, name: string, buffer: AudioBuffer, color: string, opacity: number = 0.7) {
     this.id = id;
@@ -30,6 +44,21 @@ export class AudioTrack {
     return this.buffer.numberOfChannels;
   }
 
+  /**
+   * Timeline time (seconds) at which this track's audio ends
+   */
+  get endTime(): number {
+    return this.startOffset + this.duration;
+  }
+
+  /**
+   * Convert a timeline time to a sample index in this track's buffer.
+   * The result may be negative or past the end of the buffer.
+   */
+  timelineToSampleIndex(time: number): number {
+    return Math.floor((time - this.startOffset) * this.buffer.sampleRate);
+  }
+
   /**
    * Pre-compute downsampled waveform data for efficient rendering
    * @deprecated Use getWaveformDataForTimeWindow instead for real-time rendering
@@ -73,41 +102,32 @@ export class AudioTrack {
     smoothingLevel: number = 0
   ): Float32Array {
     const channelData = this.buffer.getChannelData(0); // Use first channel
-    const sampleRate = this.buffer.sampleRate;
 
-    // Calculate the time window
-    // If currentTime < windowDuration, show from 0 to windowDuration
-    // Otherwise, show the last windowDuration seconds
-    let startTime: number;
-    let endTime: number;
-
-    if (currentTime < windowDuration) {
-      // At the beginning: show from 0 to windowDuration
-      startTime = 0;
-      endTime = Math.min(windowDuration, this.duration);
-    } else {
-      // Normal case: show last windowDuration seconds
-      startTime = currentTime - windowDuration;
-      endTime = currentTime;
-    }
-
-    // Convert time to sample indices
-    const startSample = Math.floor(startTime * sampleRate);
-    const endSample = Math.min(Math.floor(endTime * sampleRate), channelData.length);
+    // Convert the timeline window to sample indices (start offset applied).
+    // Samples outside the buffer are silent, so offset tracks stay aligned.
+    const { startTime, endTime } = this.getTimelineWindow(currentTime, windowDuration);
+    const startSample = this.timelineToSampleIndex(startTime);
+    const endSample = this.timelineToSampleIndex(endTime);
     const totalSamples = endSample - startSample;
 
     const waveform = new Float32Array(targetWidth);
 
-    if (totalSamples <= 0) {
+    if (totalSamples <= 0 || endSample <= 0 || startSample >= channelData.length) {
       return waveform; // Return zeros if no data
     }
 
     const samplesPerPixel = totalSamples / targetWidth;
+    const peakCache = this.getPeakCache(channelData);
 
     for (let i = 0; i < targetWidth; i++) {
       const start = startSample + Math.floor(i * samplesPerPixel);
       const end = Math.min(startSample + Math.floor((i + 1) * samplesPerPixel), endSample);
 
+      if (peakCache) {
+        waveform[i] = peakCache.peak(start, end, this.peakRange);
+        continue;
+      }
+
       // Find peak amplitude in this window
       let max = 0;
       for (let j = start; j < end; j++) {
@@ -130,6 +150,64 @@ export class AudioTrack {
     return waveform;
   }
 
+  /**
+   * Peak amplitude of the whole time window: the largest value of the (unsmoothed)
+   * waveform getWaveformDataForTimeWindow returns for it, at any width
+   * @param currentTime - Current playback time in seconds
+   * @param windowDuration - Duration of the window in seconds (default 1.0)
+   */
+  getPeakAmplitudeForTimeWindow(currentTime: number, windowDuration: number = 1.0): number {
+    const channelData = this.buffer.getChannelData(0);
+    const { startTime, endTime } = this.getTimelineWindow(currentTime, windowDuration);
+    const startSample = Math.max(0, this.timelineToSampleIndex(startTime));
+    const endSample = Math.min(channelData.length, this.timelineToSampleIndex(endTime));
+
+    const peakCache = this.getPeakCache(channelData);
+    if (peakCache) {
+      return peakCache.peak(startSample, endSample, this.peakRange);
+    }
+
+    let max = 0;
+    for (let j = startSample; j < endSample; j++) {
+      const abs = Math.abs(channelData[j]);
+      if (abs > max) {
+        max = abs;
+      }
+    }
+    return max;
+  }
+
+  /**
+   * Build the peak cache of the first channel on this thread (see PeakCacheBuilder to
+   * build it in a worker)
+   */
+  buildPeakCache(): PeakCache {
+    this.peakCache = PeakCache.build(this.buffer.getChannelData(0));
+    return this.peakCache;
+  }
+
+  /**
+   * The peak cache, if it was built from the channel data being read
+   */
+  private getPeakCache(channelData: Float32Array): PeakCache | null {
+    return this.peakCache?.samples === channelData ? this.peakCache : null;
+  }
+
+  /**
+   * Get the visible timeline window for a playback position
+   * If currentTime < windowDuration, show from 0 to windowDuration
+   * Otherwise, show the last windowDuration seconds
+   */
+  private getTimelineWindow(
+    currentTime: number,
+    windowDuration: number
+  ): { startTime: number; endTime: number } {
+    if (currentTime < windowDuration) {
+      return { startTime: 0, endTime: windowDuration };
+    }
+    return { startTime: currentTime - windowDuration, endTime: currentTime };
+  }
+
   /**
    * Apply smoothing filter to waveform data using moving average
    * @param waveform - Waveform data to smooth (modified in place)
@@ -162,116 +240,99 @@ export class AudioTrack {
   }
 
   /**
-   * Extract frequency spectrum data for a specific time window
+   * Extract the frequency spectrum at a playback position (short-time Fourier transform)
    * @param currentTime - Current playback time in seconds
-   * @param windowDuration - Duration of the window in seconds (default 1.0)
-   * @param fftSize - FFT size for frequency analysis (default 2048)
-   * @returns Float32Array of frequency magnitudes (0 to fftSize/2)
+   * @param windowDuration - Duration of the window in seconds (default 1.0), averaged over
+   *   in 'average' analysis
+   * @param fftSize - Samples per FFT frame, a power of two (default 2048)
+   * @param windowFunction - Window applied to each frame (default 'hann')
+   * @param analysis - 'latest': the frame ending at the playhead; 'average': the power of
+   *   the overlapping frames across the window, averaged (Welch's method)
+   * @param overlap - Overlap of consecutive frames in 'average' analysis, 0 to 0.95
+   * @returns Float32Array of frequency magnitudes (0 to fftSize/2), reused by the next call
    */
   getFrequencySpectrumForTimeWindow(
     currentTime: number,
     windowDuration: number = 1.0,
-    fftSize: number = 2048
+    fftSize: number = 2048,
+    windowFunction: WindowFunction = 'hann',
+    analysis: SpectrumAnalysis = 'latest',
+    overlap: number = 0.5
   ): Float32Array {
     const channelData = this.buffer.getChannelData(0); // Use first channel
-    const sampleRate = this.buffer.sampleRate;
-
-    // Calculate the time window (same logic as waveform)
-    let startTime: number;
-    let endTime: number;
-
-    if (currentTime < windowDuration) {
-      startTime = 0;
-      endTime = Math.min(windowDuration, this.duration);
-    } else {
-      startTime = currentTime - windowDuration;
-      endTime = currentTime;
+    const fft = FFT.forSize(fftSize);
+    const window = FFT.getWindow(fftSize, windowFunction);
+
+    let frame = this.spectrumInput;
+    let magnitudes = this.spectrumOutput;
+    let power = this.spectrumPower;
+    if (!frame || !magnitudes || !power || frame.length !== fftSize) {
+      frame = this.spectrumInput = new Float32Array(fftSize);
+      magnitudes = this.spectrumOutput = new Float32Array(fftSize / 2);
+      power = this.spectrumPower = new Float64Array(fftSize / 2);
     }
 
-    // Convert time to sample indices
-    const startSample = Math.floor(startTime * sampleRate);
-    const endSample = Math.min(Math.floor(endTime * sampleRate), channelData.length);
-    const totalSamples = endSample - startSample;
-
-    if (totalSamples < fftSize) {
-      // Not enough samples, return zeros
-      return new Float32Array(fftSize / 2);
-    }
-
-    // Extract the audio window
-    const audioWindow = new Float32Array(fftSize);
-    const samplesPerPixel = totalSamples / fftSize;
-
-    for (let i = 0; i < fftSize; i++) {
-      const sampleIndex = startSample + Math.floor(i * samplesPerPixel);
-      if (sampleIndex < channelData.length) {
-        audioWindow[i] = channelData[sampleIndex];
+    // Frames end at the playhead and step back through the window
+    const endSample = this.timelineToSampleIndex(currentTime);
+    if (analysis === 'latest') {
+      if (!this.readFrame(channelData, endSample, frame)) {
+        return magnitudes.fill(0);
       }
+      return fft.magnitudes(frame, window, magnitudes);
     }
 
-    // Apply window function (Hann window)
-    for (let i = 0; i < fftSize; i++) {
-      const windowValue = 0.5 * (1 - Math.cos((2 * Math.PI * i) / (fftSize - 1)));
-      audioWindow[i] *= windowValue;
+    const windowSamples = Math.floor(windowDuration * this.buffer.sampleRate);
+    let hop = Math.max(1, Math.round(fftSize * (1 - overlap)));
+    let frameCount = Math.floor(Math.max(0, windowSamples - fftSize) / hop) + 1;
+    if (frameCount > AudioTrack.MAX_AVERAGED_FRAMES) {
+      // Spread the frames across the whole window instead of stopping early
+      frameCount = AudioTrack.MAX_AVERAGED_FRAMES;
+      hop = (windowSamples - fftSize) / (frameCount - 1);
     }
 
-    // Perform FFT
-    const spectrum = this.fft(audioWindow);
-
-    // Return magnitude spectrum (first half)
-    const magnitudes = new Float32Array(fftSize / 2);
-    for (let i = 0; i < fftSize / 2; i++) {
-      const real = spectrum[i * 2];
-      const imag = spectrum[i * 2 + 1];
-      magnitudes[i] = Math.sqrt(real * real + imag * imag);
+    power.fill(0);
+    let averaged = 0;
+    for (let f = 0; f < frameCount; f++) {
+      if (!this.readFrame(channelData, endSample - Math.round(f * hop), frame)) {
+        continue;
+      }
+      fft.magnitudes(frame, window, magnitudes);
+      for (let k = 0; k < magnitudes.length; k++) {
+        power[k] += magnitudes[k] * magnitudes[k];
+      }
+      averaged++;
     }
 
+    // Frames outside the audio are left out of the average
+    for (let k = 0; k < magnitudes.length; k++) {
+      magnitudes[k] = averaged > 0 ? Math.sqrt(power[k] / averaged) : 0;
+    }
     return magnitudes;
   }
 
   /**
-   * Simple FFT implementation (Cooley-Tukey algorithm)
-   * @param input - Real input array
-   * @returns Complex output array [real0, imag0, real1, imag1, ...]
+   * Frequency spacing (Hz) of the bins returned by getFrequencySpectrumForTimeWindow:
+   * bin i is at i * sampleRate / fftSize Hz.
    */
-  private fft(input: Float32Array): Float32Array {
-    const N = input.length;
-    if (N <= 1) {
-      return new Float32Array([input[0], 0]);
-    }
-
-    // Split into even and odd
-    const even = new Float32Array(N / 2);
-    const odd = new Float32Array(N / 2);
-
-    for (let i = 0; i < N / 2; i++) {
-      even[i] = input[i * 2];
-      odd[i] = input[i * 2 + 1];
-    }
-
-    const evenFFT = this.fft(even);
-    const oddFFT = this.fft(odd);
-
-    const output = new Float32Array(N * 2); // real and imaginary parts
-
-    for (let k = 0; k < N / 2; k++) {
-      const angle = (-2 * Math.PI * k) / N;
-      const cos = Math.cos(angle);
-      const sin = Math.sin(angle);
-
-      const oddReal = oddFFT[k * 2];
-      const oddImag = oddFFT[k * 2 + 1];
-
-      const tReal = cos * oddReal - sin * oddImag;
-      const tImag = sin * oddReal + cos * oddImag;
+  getSpectrumBinWidth(fftSize: number = 2048): number {
+    return this.buffer.sampleRate / fftSize;
+  }
 
-      output[k * 2] = evenFFT[k * 2] + tReal;
-      output[k * 2 + 1] = evenFFT[k * 2 + 1] + tImag;
-      output[(k + N / 2) * 2] = evenFFT[k * 2] - tReal;
-      output[(k + N / 2) * 2 + 1] = evenFFT[k * 2 + 1] - tImag;
+  /**
+   * Copy the frame.length samples before endSample into frame (silence outside the buffer)
+   * @returns False if the frame lies entirely outside the buffer
+   */
+  private readFrame(channelData: Float32Array, endSample: number, frame: Float32Array): boolean {
+    const startSample = endSample - frame.length;
+    if (endSample <= 0 || startSample >= channelData.length) {
+      return false;
     }
 
-    return output;
+    const from = Math.max(startSample, 0);
+    const to = Math.min(endSample, channelData.length);
+    frame.fill(0);
+    frame.set(channelData.subarray(from, to), from - startSample);
+    return true;
   }
 
   setColor(color: string): void {
@@ -282,10 +343,46 @@ export class AudioTrack {
     this.opacity = Math.max(0, Math.min(1, opacity));
   }
 
+  /**
+   * Set where the track starts on the timeline, in seconds.
+   * Negative values trim the beginning of the track.
+   */
+  setStartOffset(seconds: number): void {
+    this.startOffset = Number.isFinite(seconds) ? seconds : 0;
+  }
+
   setVolume(volume: number): void {
+    this.volume = Math.max(0, Math.min(1, volume));
     if (this.gainNode) {
-      this.gainNode.gain.value = Math.max(0, Math.min(1, volume));
+      this.gainNode.gain.value = this.volume;
+    }
+  }
+
+  setMuted(muted: boolean): void {
+    this.muted = muted;
+  }
+
+  setSolo(solo: boolean): void {
+    this.solo = solo;
+  }
+
+  /**
+   * Whether this track should be heard given the solo state of the whole mix
+   * @param anySoloed - True if at least one track in the mix is soloed
+   */
+  isAudible(anySoloed: boolean): boolean {
+    if (this.muted) {
+      return false;
     }
+    return anySoloed ? this.solo : true;
+  }
+
+  /**
+   * Gain to apply when mixing this track (volume, or 0 when muted/not soloed)
+   * @param anySoloed - True if at least one track in the mix is soloed
+   */
+  getEffectiveGain(anySoloed: boolean): number {
+    return this.isAudible(anySoloed) ? this.volume : 0;
   }
 
   getMetadata(): TrackMetadata {
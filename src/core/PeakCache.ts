@@ -0,0 +1,173 @@
+/**
+ * Minimum, maximum and sum of squares of each block of one level of a PeakCache
+ */
+export interface PeakLevel {
+  min: Float32Array;
+  max: Float32Array;
+  sumOfSquares: Float64Array;
+}
+
+/**
+ * Summary of a range of samples
+ */
+export interface PeakRange {
+  min: number;
+  max: number;
+  rms: number;
+}
+
+/**
+ * Mipmapped min/max/RMS summary of a channel's samples. Level 0 summarises blocks of
+ * BLOCK_SIZE samples and each level above merges pairs of blocks, so any range is covered
+ * by a few blocks from the coarsest levels that fit plus at most 2 * BLOCK_SIZE raw
+ * samples at its edges. Results are exact: the same as scanning every sample.
+ */
+export class PeakCache {
+  static readonly BLOCK_SIZE = 16;
+
+  readonly samples: Float32Array;
+  readonly levels: PeakLevel[]; // Finest first
+
+  /**
+   * @param levels - Levels computed from the samples by PeakCache.computeLevels
+   */
+  constructor(samples: Float32Array, levels: PeakLevel[]) {
+    this.samples = samples;
+    this.levels = levels;
+  }
+
+  /**
+   * Build the cache of a channel (one pass over the samples, then over each level)
+   */
+  static build(samples: Float32Array): PeakCache {
+    return new PeakCache(samples, PeakCache.computeLevels(samples));
+  }
+
+  /**
+   * Compute the levels of a channel (separate from the constructor so a worker can
+   * compute them and transfer them back)
+   */
+  static computeLevels(samples: Float32Array): PeakLevel[] {
+    const levels: PeakLevel[] = [];
+    const blockSize = PeakCache.BLOCK_SIZE;
+    let count = Math.ceil(samples.length / blockSize);
+    if (count === 0) {
+      return levels;
+    }
+
+    let level = PeakCache.createLevel(count);
+    for (let block = 0; block < count; block++) {
+      const start = block * blockSize;
+      const end = Math.min(start + blockSize, samples.length);
+      let min = samples[start];
+      let max = samples[start];
+      let sumOfSquares = 0;
+      for (let i = start; i < end; i++) {
+        const sample = samples[i];
+        min = Math.min(min, sample);
+        max = Math.max(max, sample);
+        sumOfSquares += sample * sample;
+      }
+      level.min[block] = min;
+      level.max[block] = max;
+      level.sumOfSquares[block] = sumOfSquares;
+    }
+    levels.push(level);
+
+    // Each level merges pairs of blocks of the level below, up to a single block
+    while (count > 1) {
+      const below = level;
+      count = Math.ceil(count / 2);
+      level = PeakCache.createLevel(count);
+      for (let block = 0; block < count; block++) {
+        const left = block * 2;
+        const right = Math.min(left + 1, below.min.length - 1);
+        level.min[block] = Math.min(below.min[left], below.min[right]);
+        level.max[block] = Math.max(below.max[left], below.max[right]);
+        level.sumOfSquares[block] =
+          below.sumOfSquares[left] + (right !== left ? below.sumOfSquares[right] : 0);
+      }
+      levels.push(level);
+    }
+
+    return levels;
+  }
+
+  /**
+   * Summary of the samples start to end - 1 (clipped to the channel; zeros when empty)
+   * @param result - Object to write to (allocated when omitted)
+   */
+  query(start: number, end: number, result: PeakRange = { min: 0, max: 0, rms: 0 }): PeakRange {
+    const samples = this.samples;
+    let low = Math.max(0, Math.floor(start));
+    let high = Math.min(samples.length, Math.floor(end));
+    if (high <= low) {
+      result.min = 0;
+      result.max = 0;
+      result.rms = 0;
+      return result;
+    }
+
+    const count = high - low;
+    let min = Infinity;
+    let max = -Infinity;
+    let sumOfSquares = 0;
+    const blockSize = PeakCache.BLOCK_SIZE;
+
+    // Raw samples up to the first and from the last block boundary
+    while (low < high && low % blockSize !== 0) {
+      const sample = samples[low++];
+      min = Math.min(min, sample);
+      max = Math.max(max, sample);
+      sumOfSquares += sample * sample;
+    }
+    while (high > low && high % blockSize !== 0) {
+      const sample = samples[--high];
+      min = Math.min(min, sample);
+      max = Math.max(max, sample);
+      sumOfSquares += sample * sample;
+    }
+
+    // Whole blocks, climbing a level whenever a block and its neighbour can be merged
+    let first = low / blockSize;
+    let last = high / blockSize; // Exclusive
+    for (let l = 0; first < last; l++) {
+      const level = this.levels[l];
+      if (first % 2 === 1) {
+        min = Math.min(min, level.min[first]);
+        max = Math.max(max, level.max[first]);
+        sumOfSquares += level.sumOfSquares[first];
+        first++;
+      }
+      if (last % 2 === 1) {
+        last--;
+        min = Math.min(min, level.min[last]);
+        max = Math.max(max, level.max[last]);
+        sumOfSquares += level.sumOfSquares[last];
+      }
+      first /= 2;
+      last /= 2;
+    }
+
+    result.min = min;
+    result.max = max;
+    result.rms = Math.sqrt(sumOfSquares / count);
+    return result;
+  }
+
+  /**
+   * Largest absolute sample value of the samples start to end - 1 (0 when empty)
+   */
+  peak(start: number, end: number, result?: PeakRange): number {
+    const range = this.query(start, end, result);
+    return Math.max(Math.abs(range.min), Math.abs(range.max));
+  }
+
+  private static createLevel(count: number): PeakLevel {
+    return {
+      min: new Float32Array(count),
+      max: new Float32Array(count),
+      sumOfSquares: new Float64Array(count),
+    };
+  }
+}
@@ -0,0 +1,90 @@
+import { PeakCache, type PeakLevel } from './PeakCache';
+
+/**
+ * Message to the peak cache worker: a copy of a channel's samples
+ */
+export interface PeakCacheRequest {
+  id: number;
+  samples: Float32Array;
+}
+
+/**
+ * Message from the peak cache worker
+ */
+export type PeakCacheReply =
+  | { type: 'levels'; id: number; levels: PeakLevel[] }
+  | { type: 'error'; id: number; error: string };
+
+interface PendingBuild {
+  samples: Float32Array;
+  resolve(cache: PeakCache): void;
+  reject(error: Error): void;
+}
+
+/**
+ * Builds peak caches in a shared worker, so loading long tracks does not stall rendering.
+ * Falls back to building on the calling thread where workers are unavailable.
+ */
+export class PeakCacheBuilder {
+  private static worker: Worker | null = null;
+  private static pending = new Map<number, PendingBuild>();
+  private static nextId = 1;
+
+  /**
+   * Build the peak cache of a channel
+   * @param samples - Channel data (copied to the worker; the cache keeps a reference)
+   */
+  static build(samples: Float32Array): Promise<PeakCache> {
+    if (typeof Worker === 'undefined') {
+      return Promise.resolve(PeakCache.build(samples));
+    }
+
+    const worker = PeakCacheBuilder.getWorker();
+    const id = PeakCacheBuilder.nextId++;
+
+    return new Promise((resolve, reject) => {
+      PeakCacheBuilder.pending.set(id, { samples, resolve, reject });
+      const request: PeakCacheRequest = { id, samples };
+      worker.postMessage(request);
+    });
+  }
+
+  private static getWorker(): Worker {
+    if (PeakCacheBuilder.worker) {
+      return PeakCacheBuilder.worker;
+    }
+
+    const worker = new Worker(new URL('./peak-cache.worker.ts', import.meta.url), {
+      type: 'module',
+    });
+
+    worker.onmessage = (e: MessageEvent<PeakCacheReply>) => {
+      const reply = e.data;
+      const build = PeakCacheBuilder.pending.get(reply.id);
+      if (!build) {
+        return;
+      }
+      PeakCacheBuilder.pending.delete(reply.id);
+
+      if (reply.type === 'levels') {
+        build.resolve(new PeakCache(build.samples, reply.levels));
+      } else {
+        build.reject(new Error(`Peak cache build failed: ${reply.error}`));
+      }
+    };
+
+    // A worker that fails to start fails every build; the next build starts a new one
+    worker.onerror = (e) => {
+      const error = new Error(`Peak cache worker failed: ${e.message}`);
+      for (const build of PeakCacheBuilder.pending.values()) {
+        build.reject(error);
+      }
+      PeakCacheBuilder.pending.clear();
+      worker.terminate();
+      PeakCacheBuilder.worker = null;
+    };
+
+    PeakCacheBuilder.worker = worker;
+    return worker;
+  }
+}
@@ -306,7 +306,9 @@ export class PresetManager extends EventTarget {
       typeof preset.settings.heightPercent === 'number' &&
       typeof preset.settings.smoothingLevel === 'number' &&
       typeof preset.settings.fpsCap === 'number' &&
-      typeof preset.settings.windowDuration === 'number'
+      typeof preset.settings.windowDuration === 'number' &&
+      (preset.settings.spectrum === undefined ||
+        (typeof preset.settings.spectrum === 'object' && preset.settings.spectrum !== null))
     );
   }
 
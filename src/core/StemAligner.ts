@@ -0,0 +1,192 @@
+import type { AudioTrack } from './AudioTrack';
+import type { TrackAlignment } from '../types/audio.types';
+
+/**
+ * Automatic stem alignment via cross-correlation.
+ * Tracks are compared through onset envelopes (rises in short-term energy) rather than
+ * raw samples, because different instruments playing the same arrangement share note
+ * onsets but not waveforms.
+ */
+export class StemAligner {
+  /** Envelope frames per second (alignment resolution before interpolation) */
+  static readonly ENVELOPE_RATE = 100;
+
+  /** Default search range in seconds either side of the reference */
+  static readonly DEFAULT_MAX_LAG = 10;
+
+  /** Confidence below which a detected offset is likely unreliable */
+  static readonly LOW_CONFIDENCE = 0.3;
+
+  /**
+   * Align tracks on the shared timeline by setting each track's start offset.
+   * @param tracks - Tracks to align
+   * @param referenceId - Track to align against, or null to align each track against the mix of the others
+   * @param maxLagSeconds - Largest offset (seconds) searched in either direction
+   * @returns Detected offset and confidence per track
+   */
+  static alignTracks(
+    tracks: AudioTrack[],
+    referenceId: string | null,
+    maxLagSeconds: number = StemAligner.DEFAULT_MAX_LAG
+  ): TrackAlignment[] {
+    const reference = referenceId ? tracks.find((t) => t.id === referenceId) : undefined;
+    if (referenceId && !reference) {
+      throw new Error(`Reference track not found: ${referenceId}`);
+    }
+
+    const envelopes = tracks.map((track) =>
+      StemAligner.computeOnsetEnvelope(track.buffer.getChannelData(0), track.sampleRate)
+    );
+    const maxLag = Math.round(maxLagSeconds * StemAligner.ENVELOPE_RATE);
+    const results: TrackAlignment[] = [];
+
+    tracks.forEach((track, index) => {
+      if (track === reference) {
+        results.push({ trackId: track.id, offset: track.startOffset, confidence: 1 });
+        return;
+      }
+
+      // Build the reference envelope on the timeline (honoring current offsets)
+      const others = reference ? [reference] : tracks.filter((t) => t !== track);
+      const referenceEnvelope = StemAligner.placeOnTimeline(
+        others.map((t) => envelopes[tracks.indexOf(t)]),
+        others.map((t) => t.startOffset)
+      );
+      const center = reference ? Math.round(reference.startOffset * StemAligner.ENVELOPE_RATE) : 0;
+
+      const { lag, confidence } = StemAligner.findLag(
+        referenceEnvelope,
+        envelopes[index],
+        center - maxLag,
+        center + maxLag
+      );
+      const offset = lag / StemAligner.ENVELOPE_RATE;
+
+      track.setStartOffset(offset);
+      results.push({ trackId: track.id, offset, confidence });
+    });
+
+    return results;
+  }
+
+  /**
+   * Compute an onset envelope (positive change in RMS energy) at ENVELOPE_RATE
+   */
+  static computeOnsetEnvelope(samples: Float32Array, sampleRate: number): Float32Array {
+    const hop = sampleRate / StemAligner.ENVELOPE_RATE;
+    const frameCount = Math.floor(samples.length / hop);
+    const envelope = new Float32Array(frameCount);
+
+    let previousEnergy = 0;
+    for (let f = 0; f < frameCount; f++) {
+      const start = Math.floor(f * hop);
+      const end = Math.min(Math.floor((f + 1) * hop), samples.length);
+
+      let sum = 0;
+      for (let i = start; i < end; i++) {
+        sum += samples[i] * samples[i];
+      }
+      const energy = end > start ? Math.sqrt(sum / (end - start)) : 0;
+
+      envelope[f] = Math.max(0, energy - previousEnergy);
+      previousEnergy = energy;
+    }
+
+    return envelope;
+  }
+
+  /**
+   * Find the lag (in envelope frames) that best aligns target with reference.
+   * A lag of L means target frame k lines up with reference frame k + L.
+   * @returns Lag (with sub-frame interpolation) and normalized correlation at that lag (0-1)
+   */
+  static findLag(
+    reference: Float32Array,
+    target: Float32Array,
+    minLag: number,
+    maxLag: number
+  ): { lag: number; confidence: number } {
+    const ref = StemAligner.removeMean(reference);
+    const tgt = StemAligner.removeMean(target);
+    const norm = Math.sqrt(StemAligner.energy(ref) * StemAligner.energy(tgt));
+
+    if (norm === 0 || minLag > maxLag) {
+      return { lag: 0, confidence: 0 };
+    }
+
+    const scores = new Float32Array(maxLag - minLag + 1);
+    let bestIndex = 0;
+    for (let lag = minLag; lag <= maxLag; lag++) {
+      // Only overlapping frames contribute
+      const kStart = Math.max(0, -lag);
+      const kEnd = Math.min(tgt.length, ref.length - lag);
+
+      let score = 0;
+      for (let k = kStart; k < kEnd; k++) {
+        score += tgt[k] * ref[k + lag];
+      }
+
+      const index = lag - minLag;
+      scores[index] = score;
+      if (score > scores[bestIndex]) {
+        bestIndex = index;
+      }
+    }
+
+    // Parabolic interpolation around the peak for sub-frame precision
+    let fraction = 0;
+    if (bestIndex > 0 && bestIndex < scores.length - 1) {
+      const a = scores[bestIndex - 1];
+      const b = scores[bestIndex];
+      const c = scores[bestIndex + 1];
+      const denominator = a - 2 * b + c;
+      if (denominator !== 0) {
+        fraction = Math.max(-0.5, Math.min(0.5, (0.5 * (a - c)) / denominator));
+      }
+    }
+
+    return {
+      lag: minLag + bestIndex + fraction,
+      confidence: Math.max(0, Math.min(1, scores[bestIndex] / norm)),
+    };
+  }
+
+  /**
+   * Sum envelopes onto a shared timeline, shifting each by its start offset
+   */
+  private static placeOnTimeline(envelopes: Float32Array[], offsets: number[]): Float32Array {
+    const shifts = offsets.map((offset) => Math.round(offset * StemAligner.ENVELOPE_RATE));
+    const length = Math.max(0, ...envelopes.map((env, i) => env.length + shifts[i]));
+    const timeline = new Float32Array(length);
+
+    envelopes.forEach((env, i) => {
+      for (let k = Math.max(0, -shifts[i]); k < env.length; k++) {
+        timeline[k + shifts[i]] += env[k];
+      }
+    });
+
+    return timeline;
+  }
+
+  private static removeMean(data: Float32Array): Float32Array {
+    let sum = 0;
+    for (let i = 0; i < data.length; i++) {
+      sum += data[i];
+    }
+    const mean = data.length > 0 ? sum / data.length : 0;
+
+    const result = new Float32Array(data.length);
+    for (let i = 0; i < data.length; i++) {
+      result[i] = data[i] - mean;
+    }
+    return result;
+  }
+
+  private static energy(data: Float32Array): number {
+    let sum = 0;
+    for (let i = 0; i < data.length; i++) {
+      sum += data[i] * data[i];
+    }
+    return sum;
+  }
+}
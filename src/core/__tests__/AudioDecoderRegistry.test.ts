@@ -0,0 +1,79 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { AudioDecoderRegistry, type AudioFileDecoder } from '../AudioDecoderRegistry';
+
+function createFile(name: string, type: string = ''): File {
+  return new File([new Uint8Array(4)], name, { type });
+}
+
+describe('AudioDecoderRegistry', () => {
+  afterEach(() => {
+    AudioDecoderRegistry.unregister('test-decoder');
+  });
+
+  describe('findDecoder', () => {
+    it('should always accept WAV files', () => {
+      expect(AudioDecoderRegistry.isSupported(createFile('drums.wav'))).toBe(true);
+      expect(AudioDecoderRegistry.isSupported(createFile('drums', 'audio/wav'))).toBe(true);
+    });
+
+    it('should accept AIFF files via the built-in AIFF decoder', () => {
+      const decoder = AudioDecoderRegistry.findDecoder(createFile('bass.AIFF'));
+
+      expect(decoder?.name).toBe('aiff');
+    });
+
+    it('should reject non-audio files', () => {
+      expect(AudioDecoderRegistry.isSupported(createFile('notes.txt', 'text/plain'))).toBe(false);
+    });
+
+    it('should prefer decoders registered later', () => {
+      const custom: AudioFileDecoder = {
+        name: 'test-decoder',
+        extensions: ['wav'],
+        canDecode: (file) => file.name.endsWith('.wav'),
+        decode: vi.fn(),
+      };
+      AudioDecoderRegistry.register(custom);
+
+      expect(AudioDecoderRegistry.findDecoder(createFile('vox.wav'))).toBe(custom);
+    });
+  });
+
+  describe('getSupportedExtensions', () => {
+    it('should include extensions of registered decoders', () => {
+      const extensions = AudioDecoderRegistry.getSupportedExtensions();
+
+      expect(extensions).toContain('wav');
+      expect(extensions).toContain('aiff');
+      expect(extensions).toContain('mp3');
+      expect(extensions).toContain('flac');
+    });
+  });
+
+  describe('decode', () => {
+    it('should reject unsupported files', async () => {
+      await expect(
+        AudioDecoderRegistry.decode(createFile('notes.txt', 'text/plain'), {} as BaseAudioContext)
+      ).rejects.toThrow('Unsupported audio format');
+    });
+
+    it('should pass file contents to the matching decoder', async () => {
+      const fakeBuffer = {} as AudioBuffer;
+      const decode = vi.fn().mockResolvedValue(fakeBuffer);
+      AudioDecoderRegistry.register({
+        name: 'test-decoder',
+        extensions: ['xyz'],
+        canDecode: (file) => file.name.endsWith('.xyz'),
+        decode,
+      });
+
+      const result = await AudioDecoderRegistry.decode(
+        createFile('stem.xyz'),
+        {} as BaseAudioContext
+      );
+
+      expect(result).toBe(fakeBuffer);
+      expect(decode).toHaveBeenCalledOnce();
+    });
+  });
+});
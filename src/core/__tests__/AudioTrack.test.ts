@@ -1,5 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { AudioTrack } from '../AudioTrack';
+import { FFT } from '../../utils/FFT';
+import { PeakCache } from '../PeakCache';
 
 // Mock AudioBuffer
 function createMockAudioBuffer(options: {
@@ -154,6 +156,67 @@ describe('AudioTrack', () => {
     });
   });
 
+  describe('mute and solo', () => {
+    it('should default to unmuted, unsoloed, full volume', () => {
+      const track = new AudioTrack('track-1', 'Test Track', mockBuffer, '#FF0000');
+
+      expect(track.muted).toBe(false);
+      expect(track.solo).toBe(false);
+      expect(track.volume).toBe(1);
+    });
+
+    it('should store clamped volume even without a gainNode', () => {
+      const track = new AudioTrack('track-1', 'Test Track', mockBuffer, '#FF0000');
+
+      track.setVolume(1.5);
+      expect(track.volume).toBe(1);
+
+      track.setVolume(0.25);
+      expect(track.volume).toBe(0.25);
+    });
+
+    it('should be audible when no track is soloed', () => {
+      const track = new AudioTrack('track-1', 'Test Track', mockBuffer, '#FF0000');
+
+      expect(track.isAudible(false)).toBe(true);
+    });
+
+    it('should be inaudible when muted', () => {
+      const track = new AudioTrack('track-1', 'Test Track', mockBuffer, '#FF0000');
+
+      track.setMuted(true);
+
+      expect(track.isAudible(false)).toBe(false);
+      expect(track.getEffectiveGain(false)).toBe(0);
+    });
+
+    it('should be silenced when another track is soloed', () => {
+      const track = new AudioTrack('track-1', 'Test Track', mockBuffer, '#FF0000');
+
+      expect(track.isAudible(true)).toBe(false);
+
+      track.setSolo(true);
+      expect(track.isAudible(true)).toBe(true);
+    });
+
+    it('should stay silent when both muted and soloed', () => {
+      const track = new AudioTrack('track-1', 'Test Track', mockBuffer, '#FF0000');
+
+      track.setSolo(true);
+      track.setMuted(true);
+
+      expect(track.isAudible(true)).toBe(false);
+    });
+
+    it('should return volume as effective gain when audible', () => {
+      const track = new AudioTrack('track-1', 'Test Track', mockBuffer, '#FF0000');
+
+      track.setVolume(0.6);
+
+      expect(track.getEffectiveGain(false)).toBe(0.6);
+    });
+  });
+
   describe('getMetadata', () => {
     it('should return correct metadata object', () => {
       const track = new AudioTrack('track-1', 'Test Track', mockBuffer, '#FF0000', 0.8);
@@ -172,6 +235,80 @@ describe('AudioTrack', () => {
     });
   });
 
+  describe('start offset', () => {
+    it('should default to zero and include the offset in endTime', () => {
+      const track = new AudioTrack('track-1', 'Test Track', mockBuffer, '#FF0000');
+
+      expect(track.startOffset).toBe(0);
+      expect(track.endTime).toBe(5);
+
+      track.setStartOffset(1.5);
+      expect(track.endTime).toBe(6.5);
+
+      track.setStartOffset(-2);
+      expect(track.endTime).toBe(3);
+    });
+
+    it('should ignore non-finite offsets', () => {
+      const track = new AudioTrack('track-1', 'Test Track', mockBuffer, '#FF0000');
+
+      track.setStartOffset(NaN);
+
+      expect(track.startOffset).toBe(0);
+    });
+
+    it('should map timeline time to sample indices', () => {
+      const buffer = createMockAudioBuffer({ duration: 2, sampleRate: 1000 });
+      const track = new AudioTrack('track-1', 'Test Track', buffer, '#FF0000');
+      track.setStartOffset(0.5);
+
+      expect(track.timelineToSampleIndex(0.5)).toBe(0);
+      expect(track.timelineToSampleIndex(1.5)).toBe(1000);
+      expect(track.timelineToSampleIndex(0)).toBe(-500);
+    });
+
+    it('should shift the waveform window by the offset', () => {
+      const sampleRate = 1000;
+      const channelData = new Float32Array(sampleRate * 2).fill(1);
+      const buffer = createMockAudioBuffer({ duration: 2, sampleRate, channelData });
+      const track = new AudioTrack('track-1', 'Test Track', buffer, '#FF0000');
+      track.setStartOffset(0.5);
+
+      // Timeline window 0-1s: silent for the first half, audio in the second half
+      const waveform = track.getWaveformDataForTimeWindow(0.5, 1.0, 10);
+
+      expect(Array.from(waveform.slice(0, 5))).toEqual([0, 0, 0, 0, 0]);
+      expect(Array.from(waveform.slice(5))).toEqual([1, 1, 1, 1, 1]);
+    });
+
+    it('should skip the beginning of the track with a negative offset', () => {
+      const sampleRate = 1000;
+      const channelData = new Float32Array(sampleRate * 2);
+      channelData.fill(0.25, 0, 1000);
+      channelData.fill(0.75, 1000);
+      const buffer = createMockAudioBuffer({ duration: 2, sampleRate, channelData });
+      const track = new AudioTrack('track-1', 'Test Track', buffer, '#FF0000');
+      track.setStartOffset(-1);
+
+      const waveform = track.getWaveformDataForTimeWindow(0.5, 1.0, 10);
+
+      expect(waveform.every((v) => v === 0.75)).toBe(true);
+    });
+
+    it('should return silence once the window is past the end of the track', () => {
+      const channelData = new Float32Array(2000).fill(1);
+      const buffer = createMockAudioBuffer({ duration: 2, sampleRate: 1000, channelData });
+      const track = new AudioTrack('track-1', 'Test Track', buffer, '#FF0000');
+      track.setStartOffset(-1);
+
+      const waveform = track.getWaveformDataForTimeWindow(3, 1.0, 10);
+      const spectrum = track.getFrequencySpectrumForTimeWindow(3, 1.0, 256);
+
+      expect(waveform.every((v) => v === 0)).toBe(true);
+      expect(spectrum.every((v) => v === 0)).toBe(true);
+    });
+  });
+
   describe('getWaveformDataForTimeWindow', () => {
     it('should return Float32Array with correct length', () => {
       const track = new AudioTrack('track-1', 'Test Track', mockBuffer, '#FF0000');
@@ -253,6 +390,87 @@ describe('AudioTrack', () => {
     });
   });
 
+  describe('peak cache', () => {
+    function createTrack(): AudioTrack {
+      const sampleRate = 8000;
+      const duration = 3;
+      const channelData = new Float32Array(sampleRate * duration);
+      let state = 7;
+      for (let i = 0; i < channelData.length; i++) {
+        state = (state * 1103515245 + 12345) % 2147483648;
+        const envelope = Math.sin((i / channelData.length) * Math.PI);
+        channelData[i] = ((state / 2147483648) * 2 - 1) * envelope;
+      }
+
+      const buffer = createMockAudioBuffer({ duration, sampleRate, channelData });
+      return new AudioTrack('track-1', 'Test Track', buffer, '#FF0000');
+    }
+
+    it('should give the same waveforms as scanning the samples', () => {
+      const track = createTrack();
+      const windows = [
+        [0.2, 1.0],
+        [1.7, 1.0],
+        [2.9, 0.01],
+        [3.5, 2.0],
+        [2.0, 10.0],
+      ];
+
+      for (const offset of [0, 0.37, -0.5]) {
+        track.setStartOffset(offset);
+        for (const [currentTime, windowDuration] of windows) {
+          for (const width of [1, 7, 100, 1920, 30000]) {
+            for (const smoothing of [0, 3]) {
+              track.peakCache = null;
+              const expected = track.getWaveformDataForTimeWindow(
+                currentTime,
+                windowDuration,
+                width,
+                smoothing
+              );
+              track.buildPeakCache();
+              const cached = track.getWaveformDataForTimeWindow(
+                currentTime,
+                windowDuration,
+                width,
+                smoothing
+              );
+
+              expect(Array.from(cached)).toEqual(Array.from(expected));
+            }
+          }
+        }
+      }
+    });
+
+    it('should give the largest value of the waveform as the peak amplitude', () => {
+      const track = createTrack();
+      track.setStartOffset(0.25);
+
+      for (const [currentTime, windowDuration] of [
+        [0.5, 1.0],
+        [2.0, 0.3],
+        [3.1, 1.0],
+        [6.0, 1.0],
+      ]) {
+        const waveform = track.getWaveformDataForTimeWindow(currentTime, windowDuration, 640);
+        const expected = Math.max(...waveform);
+
+        track.peakCache = null;
+        expect(track.getPeakAmplitudeForTimeWindow(currentTime, windowDuration)).toBe(expected);
+        track.buildPeakCache();
+        expect(track.getPeakAmplitudeForTimeWindow(currentTime, windowDuration)).toBe(expected);
+      }
+    });
+
+    it('should ignore a cache built from other samples', () => {
+      const track = createTrack();
+      track.peakCache = PeakCache.build(new Float32Array(track.buffer.length).fill(1));
+
+      expect(track.getPeakAmplitudeForTimeWindow(1.5, 1.0)).toBeLessThan(1);
+    });
+  });
+
   describe('getFrequencySpectrumForTimeWindow', () => {
     it('should return Float32Array with correct length', () => {
       const track = new AudioTrack('track-1', 'Test Track', mockBuffer, '#FF0000');
@@ -295,6 +513,141 @@ describe('AudioTrack', () => {
 
       expect(spectrum.every((v) => v >= 0)).toBe(true);
     });
+
+    it('should peak at the bin of a sine wave', () => {
+      const sampleRate = 44100;
+      const channelData = new Float32Array(sampleRate * 2);
+      for (let i = 0; i < channelData.length; i++) {
+        channelData[i] = Math.sin((i / sampleRate) * Math.PI * 2 * 440);
+      }
+      const buffer = createMockAudioBuffer({ duration: 2, sampleRate, channelData });
+      const track = new AudioTrack('track-1', 'Test Track', buffer, '#FF0000');
+
+      const spectrum = track.getFrequencySpectrumForTimeWindow(1.5, 1.0, 2048);
+      const peak = spectrum.indexOf(Math.max(...spectrum));
+      const binWidth = track.getSpectrumBinWidth(2048);
+
+      expect(binWidth).toBeCloseTo(44100 / 2048);
+      expect(Math.abs(peak * binWidth - 440)).toBeLessThan(binWidth);
+    });
+
+    it('should analyse the contiguous samples before the playhead', () => {
+      // 1 kHz in the first second, 4 kHz in the second
+      const sampleRate = 8192;
+      const channelData = new Float32Array(sampleRate * 2);
+      for (let i = 0; i < channelData.length; i++) {
+        const frequency = i < sampleRate ? 1000 : 4000;
+        channelData[i] = Math.sin((2 * Math.PI * frequency * i) / sampleRate);
+      }
+      const buffer = createMockAudioBuffer({ duration: 2, sampleRate, channelData });
+      const track = new AudioTrack('track-1', 'Test Track', buffer, '#FF0000');
+
+      const early = Array.from(track.getFrequencySpectrumForTimeWindow(0.9, 1.0, 1024));
+      const late = Array.from(track.getFrequencySpectrumForTimeWindow(1.9, 1.0, 1024));
+
+      // Bins are 8 Hz wide; long windows must not alias the 4 kHz tone
+      expect(early.indexOf(Math.max(...early))).toBe(125);
+      expect(late.indexOf(Math.max(...late))).toBe(500);
+    });
+
+    it('should zero-pad frames that start before the audio', () => {
+      const sampleRate = 8192;
+      const channelData = new Float32Array(sampleRate).fill(1);
+      const buffer = createMockAudioBuffer({ duration: 1, sampleRate, channelData });
+      const track = new AudioTrack('track-1', 'Test Track', buffer, '#FF0000');
+
+      // 256 of the 1024 samples are audio
+      const spectrum = track.getFrequencySpectrumForTimeWindow(256 / sampleRate, 1.0, 1024);
+      const window = FFT.getWindow(1024);
+      let expected = 0;
+      for (let i = 768; i < 1024; i++) {
+        expected += window[i];
+      }
+
+      expect(spectrum[0]).toBeCloseTo(expected, 2);
+    });
+
+    it('should apply the requested window function', () => {
+      const track = new AudioTrack('track-1', 'Test Track', mockBuffer, '#FF0000');
+      mockBuffer.getChannelData(0).fill(1);
+
+      const hann = track.getFrequencySpectrumForTimeWindow(2.5, 1.0, 512, 'hann')[0];
+      const hamming = track.getFrequencySpectrumForTimeWindow(2.5, 1.0, 512, 'hamming')[0];
+      const blackmanHarris = track.getFrequencySpectrumForTimeWindow(
+        2.5,
+        1.0,
+        512,
+        'blackman-harris'
+      )[0];
+
+      // DC of a constant signal is the sum of the window
+      const sum = (window: Float32Array) => window.reduce((total, value) => total + value, 0);
+      expect(hann).toBeCloseTo(sum(FFT.getWindow(512, 'hann')), 2);
+      expect(hamming).toBeCloseTo(sum(FFT.getWindow(512, 'hamming')), 2);
+      expect(blackmanHarris).toBeCloseTo(sum(FFT.getWindow(512, 'blackman-harris')), 2);
+      expect(hamming).toBeGreaterThan(hann);
+      expect(blackmanHarris).toBeLessThan(hann);
+    });
+
+    it('should average the power of the frames across the window', () => {
+      // Amplitude 1 in the first half second, 3 in the second
+      const sampleRate = 8192;
+      const channelData = new Float32Array(sampleRate);
+      for (let i = 0; i < channelData.length; i++) {
+        const amplitude = i < sampleRate / 2 ? 1 : 3;
+        channelData[i] = amplitude * Math.sin((2 * Math.PI * 1000 * i) / sampleRate);
+      }
+      const buffer = createMockAudioBuffer({ duration: 1, sampleRate, channelData });
+      const track = new AudioTrack('track-1', 'Test Track', buffer, '#FF0000');
+
+      const quiet = track.getFrequencySpectrumForTimeWindow(0.25, 0.25, 1024)[125];
+      const loud = track.getFrequencySpectrumForTimeWindow(1.0, 0.25, 1024)[125];
+      const averaged = track.getFrequencySpectrumForTimeWindow(
+        1.0,
+        1.0,
+        1024,
+        'hann',
+        'average',
+        0
+      )[125];
+
+      // Eight frames without overlap, four at each amplitude
+      expect(averaged).toBeCloseTo(Math.sqrt((quiet * quiet + loud * loud) / 2), 1);
+    });
+
+    it('should leave frames outside the audio out of the average', () => {
+      const sampleRate = 8192;
+      const channelData = new Float32Array(sampleRate).fill(1);
+      const buffer = createMockAudioBuffer({ duration: 1, sampleRate, channelData });
+      const track = new AudioTrack('track-1', 'Test Track', buffer, '#FF0000');
+      track.setStartOffset(1);
+
+      const latest = track.getFrequencySpectrumForTimeWindow(2, 1.0, 1024)[0];
+      // Frames without overlap: four after the audio ends, four inside it
+      const averaged = track.getFrequencySpectrumForTimeWindow(
+        2.5,
+        1.0,
+        1024,
+        'hann',
+        'average',
+        0
+      )[0];
+      const silent = track.getFrequencySpectrumForTimeWindow(4, 1.0, 1024, 'hann', 'average');
+
+      expect(averaged).toBeCloseTo(latest, 2);
+      expect(silent.every((v) => v === 0)).toBe(true);
+    });
+
+    it('should reuse its output buffer for the same FFT size', () => {
+      const track = new AudioTrack('track-1', 'Test Track', mockBuffer, '#FF0000');
+
+      const first = track.getFrequencySpectrumForTimeWindow(2.5, 1.0, 2048);
+      const second = track.getFrequencySpectrumForTimeWindow(3.5, 1.0, 2048);
+      const other = track.getFrequencySpectrumForTimeWindow(3.5, 1.0, 512);
+
+      expect(second).toBe(first);
+      expect(other.length).toBe(256);
+    });
   });
 
   describe('computeWaveformData (deprecated)', () => {
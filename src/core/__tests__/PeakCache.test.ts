@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { PeakCache } from '../PeakCache';
+
+/**
+ * Deterministic pseudo-random samples in -1..1
+ */
+function createSamples(length: number, seed: number = 1): Float32Array {
+  const samples = new Float32Array(length);
+  let state = seed;
+  for (let i = 0; i < length; i++) {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    samples[i] = (state / 2147483648) * 2 - 1;
+  }
+  return samples;
+}
+
+/**
+ * Min, max and RMS of the samples start to end - 1 by scanning every sample
+ */
+function bruteForce(samples: Float32Array, start: number, end: number) {
+  let min = Infinity;
+  let max = -Infinity;
+  let sumOfSquares = 0;
+  for (let i = start; i < end; i++) {
+    min = Math.min(min, samples[i]);
+    max = Math.max(max, samples[i]);
+    sumOfSquares += samples[i] * samples[i];
+  }
+  return { min, max, rms: Math.sqrt(sumOfSquares / (end - start)) };
+}
+
+describe('PeakCache', () => {
+  describe('computeLevels', () => {
+    it('should halve the block count per level down to one block', () => {
+      const levels = PeakCache.computeLevels(createSamples(1000));
+
+      expect(levels.map((level) => level.min.length)).toEqual([63, 32, 16, 8, 4, 2, 1]);
+    });
+
+    it('should summarise the whole channel in the top level', () => {
+      const samples = createSamples(1000, 3);
+      const levels = PeakCache.computeLevels(samples);
+      const top = levels[levels.length - 1];
+      const expected = bruteForce(samples, 0, samples.length);
+
+      expect(top.min[0]).toBe(expected.min);
+      expect(top.max[0]).toBe(expected.max);
+      expect(Math.sqrt(top.sumOfSquares[0] / samples.length)).toBeCloseTo(expected.rms, 10);
+    });
+
+    it('should have no levels for an empty channel', () => {
+      expect(PeakCache.computeLevels(new Float32Array(0))).toEqual([]);
+    });
+  });
+
+  describe('query', () => {
+    it('should match scanning every sample for any range', () => {
+      for (const length of [1, 15, 16, 17, 1000, 4096, 10007]) {
+        const samples = createSamples(length, length);
+        const cache = PeakCache.build(samples);
+        let state = length;
+
+        for (let n = 0; n < 200; n++) {
+          state = (state * 1103515245 + 12345) % 2147483648;
+          const start = state % length;
+          state = (state * 1103515245 + 12345) % 2147483648;
+          const end = start + 1 + (state % (length - start));
+
+          const range = cache.query(start, end);
+          const expected = bruteForce(samples, start, end);
+          expect(range.min).toBe(expected.min);
+          expect(range.max).toBe(expected.max);
+          expect(range.rms).toBeCloseTo(expected.rms, 10);
+        }
+      }
+    });
+
+    it('should clip the range to the channel', () => {
+      const samples = createSamples(100, 5);
+      const cache = PeakCache.build(samples);
+
+      expect(cache.query(-50, 40)).toEqual(cache.query(0, 40));
+      expect(cache.query(60, 500)).toEqual(cache.query(60, 100));
+    });
+
+    it('should return zeros for empty ranges', () => {
+      const cache = PeakCache.build(createSamples(100));
+
+      expect(cache.query(40, 40)).toEqual({ min: 0, max: 0, rms: 0 });
+      expect(cache.query(50, 10)).toEqual({ min: 0, max: 0, rms: 0 });
+      expect(cache.query(-20, -5)).toEqual({ min: 0, max: 0, rms: 0 });
+      expect(cache.query(100, 200)).toEqual({ min: 0, max: 0, rms: 0 });
+    });
+
+    it('should write into the result object', () => {
+      const cache = PeakCache.build(createSamples(100));
+      const result = { min: 0, max: 0, rms: 0 };
+
+      expect(cache.query(10, 90, result)).toBe(result);
+    });
+  });
+
+  describe('peak', () => {
+    it('should return the largest absolute sample value', () => {
+      const samples = new Float32Array(64).fill(0.25);
+      samples[40] = -0.75;
+      samples[10] = 0.5;
+      const cache = PeakCache.build(samples);
+
+      expect(cache.peak(0, 64)).toBe(0.75);
+      expect(cache.peak(0, 40)).toBe(0.5);
+      expect(cache.peak(20, 20)).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { StemAligner } from '../StemAligner';
+import { AudioTrack } from '../AudioTrack';
+
+const SAMPLE_RATE = 8000;
+
+/**
+ * Create a signal with short noise bursts at the given times (seconds)
+ */
+function createBursts(onsets: number[], duration: number, seed: number = 1): Float32Array {
+  const samples = new Float32Array(Math.floor(duration * SAMPLE_RATE));
+  let state = seed;
+  const random = (): number => {
+    state = (state * 16807) % 2147483647;
+    return state / 2147483647 - 0.5;
+  };
+
+  for (const onset of onsets) {
+    const start = Math.floor(onset * SAMPLE_RATE);
+    for (let i = 0; i < SAMPLE_RATE * 0.05 && start + i < samples.length; i++) {
+      samples[start + i] = random() * Math.exp(-i / (SAMPLE_RATE * 0.01));
+    }
+  }
+  return samples;
+}
+
+function createTrack(id: string, samples: Float32Array): AudioTrack {
+  const buffer = {
+    duration: samples.length / SAMPLE_RATE,
+    sampleRate: SAMPLE_RATE,
+    numberOfChannels: 1,
+    length: samples.length,
+    getChannelData: () => samples,
+  } as unknown as AudioBuffer;
+  return new AudioTrack(id, id, buffer, '#FF0000');
+}
+
+// Irregular rhythm so only one lag lines everything up
+const ONSETS = [0.5, 1.1, 1.45, 2.3, 2.9, 3.2, 4.05, 4.6, 5.5, 6.15];
+
+describe('StemAligner', () => {
+  describe('computeOnsetEnvelope', () => {
+    it('should produce ENVELOPE_RATE frames per second', () => {
+      const envelope = StemAligner.computeOnsetEnvelope(
+        new Float32Array(SAMPLE_RATE * 2),
+        SAMPLE_RATE
+      );
+
+      expect(envelope.length).toBe(StemAligner.ENVELOPE_RATE * 2);
+    });
+
+    it('should peak at onsets', () => {
+      const envelope = StemAligner.computeOnsetEnvelope(createBursts([1], 2), SAMPLE_RATE);
+      const peak = envelope.indexOf(Math.max(...envelope));
+
+      expect(peak).toBe(StemAligner.ENVELOPE_RATE);
+    });
+  });
+
+  describe('alignTracks', () => {
+    it('should detect a delayed stem against a reference track', () => {
+      const reference = createTrack('ref', createBursts(ONSETS, 8, 1));
+      const delayed = createTrack(
+        'late',
+        createBursts(
+          ONSETS.map((t) => t + 0.73),
+          8,
+          2
+        )
+      );
+
+      const [refResult, lateResult] = StemAligner.alignTracks([reference, delayed], 'ref');
+
+      expect(refResult).toEqual({ trackId: 'ref', offset: 0, confidence: 1 });
+      expect(lateResult.offset).toBeCloseTo(-0.73, 1);
+      expect(delayed.startOffset).toBe(lateResult.offset);
+      expect(lateResult.confidence).toBeGreaterThan(StemAligner.LOW_CONFIDENCE);
+    });
+
+    it('should align relative to the reference track offset', () => {
+      const reference = createTrack('ref', createBursts(ONSETS, 8, 1));
+      const other = createTrack('other', createBursts(ONSETS, 8, 3));
+      reference.setStartOffset(1.5);
+
+      StemAligner.alignTracks([reference, other], 'ref');
+
+      expect(other.startOffset).toBeCloseTo(1.5, 1);
+    });
+
+    it('should align each track against the mix of the others', () => {
+      const a = createTrack('a', createBursts(ONSETS, 8, 1));
+      const b = createTrack('b', createBursts(ONSETS, 8, 2));
+      const early = createTrack(
+        'early',
+        createBursts(
+          ONSETS.map((t) => t - 0.4),
+          8,
+          3
+        )
+      );
+
+      const results = StemAligner.alignTracks([a, b, early], null);
+
+      expect(results).toHaveLength(3);
+      expect(early.startOffset).toBeCloseTo(0.4, 1);
+    });
+
+    it('should report zero confidence for silent tracks', () => {
+      const reference = createTrack('ref', createBursts(ONSETS, 8, 1));
+      const silent = createTrack('silent', new Float32Array(SAMPLE_RATE * 8));
+
+      const [, result] = StemAligner.alignTracks([reference, silent], 'ref');
+
+      expect(result.confidence).toBe(0);
+      expect(result.offset).toBe(0);
+    });
+
+    it('should throw for an unknown reference track', () => {
+      const track = createTrack('a', createBursts(ONSETS, 2));
+
+      expect(() => StemAligner.alignTracks([track], 'missing')).toThrow(
+        'Reference track not found'
+      );
+    });
+  });
+});
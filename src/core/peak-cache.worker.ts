@@ -0,0 +1,24 @@
+import { PeakCache } from './PeakCache';
+import type { PeakCacheReply, PeakCacheRequest } from './PeakCacheBuilder';
+
+// Builds peak cache levels off the main thread. Each request carries a copy of a
+// channel's samples; the levels are transferred back and the samples dropped.
+self.onmessage = (e: MessageEvent<PeakCacheRequest>) => {
+  const { id, samples } = e.data;
+
+  try {
+    const levels = PeakCache.computeLevels(samples);
+    const buffers = levels.flatMap((level) => [
+      level.min.buffer,
+      level.max.buffer,
+      level.sumOfSquares.buffer,
+    ]);
+    reply({ type: 'levels', id, levels }, buffers);
+  } catch (error) {
+    reply({ type: 'error', id, error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+};
+
+function reply(message: PeakCacheReply, transfer: Transferable[] = []): void {
+  self.postMessage(message, { transfer });
+}
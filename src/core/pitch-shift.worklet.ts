@@ -0,0 +1,113 @@
+/**
+ * Pitch-shift AudioWorklet processor.
+ * Used for pitch-preserving slow-down: sources play at the chosen rate (which also shifts
+ * their pitch) and this processor shifts the pitch back by 1 / rate.
+ *
+ * Delay-line (granular) pitch shifter: two read taps sweep through a short delay line at a
+ * speed set by the pitch ratio, half a grain apart, with complementary crossfades so one tap
+ * is always silent when the other wraps.
+ */
+
+// AudioWorkletGlobalScope declarations (not part of the DOM lib)
+declare const sampleRate: number;
+declare class AudioWorkletProcessor {
+  public readonly port: MessagePort;
+  constructor(options?: AudioWorkletNodeOptions);
+}
+declare function registerProcessor(
+  name: string,
+  processorCtor: new (options?: AudioWorkletNodeOptions) => AudioWorkletProcessor
+): void;
+interface AudioParamDescriptor {
+  name: string;
+  defaultValue?: number;
+  minValue?: number;
+  maxValue?: number;
+  automationRate?: AutomationRate;
+}
+
+const GRAIN_SECONDS = 0.05;
+
+class PitchShiftProcessor extends AudioWorkletProcessor {
+  public static get parameterDescriptors(): AudioParamDescriptor[] {
+    return [
+      {
+        name: 'pitchRatio',
+        defaultValue: 1,
+        minValue: 0.25,
+        maxValue: 4,
+        automationRate: 'k-rate',
+      },
+    ];
+  }
+
+  private grainSize = Math.round(GRAIN_SECONDS * sampleRate);
+  private delayLines: Float32Array[] = [];
+  private writeIndex = 0;
+  private phase = 0;
+
+  public process(
+    inputs: Float32Array[][],
+    outputs: Float32Array[][],
+    parameters: Record<string, Float32Array>
+  ): boolean {
+    const input = inputs[0];
+    const output = outputs[0];
+    const pitchRatio = parameters.pitchRatio[0];
+    const lineLength = this.grainSize * 2;
+
+    if (input.length === 0) {
+      output.forEach((channel) => channel.fill(0));
+      return true;
+    }
+
+    // Allocate a delay line per input channel
+    while (this.delayLines.length < input.length) {
+      this.delayLines.push(new Float32Array(lineLength));
+    }
+
+    const frames = output.length > 0 ? output[0].length : 0;
+    const phaseStep = (1 - pitchRatio) / this.grainSize;
+
+    for (let i = 0; i < frames; i++) {
+      // Tap positions (in samples behind the write head) and crossfade gains
+      const phaseA = this.phase;
+      const phaseB = (this.phase + 0.5) % 1;
+      const gainA = Math.sin(Math.PI * phaseA) ** 2;
+      const gainB = Math.sin(Math.PI * phaseB) ** 2;
+
+      for (let c = 0; c < output.length; c++) {
+        // Extra output channels reuse the last input channel's delay line
+        const line = this.delayLines[Math.min(c, input.length - 1)];
+        if (c < input.length) {
+          line[this.writeIndex] = input[c][i];
+        }
+
+        output[c][i] =
+          this.readDelayed(line, phaseA * this.grainSize) * gainA +
+          this.readDelayed(line, phaseB * this.grainSize) * gainB;
+      }
+
+      this.writeIndex = (this.writeIndex + 1) % lineLength;
+      this.phase = (((this.phase + phaseStep) % 1) + 1) % 1;
+    }
+
+    return true;
+  }
+
+  /**
+   * Read from a circular delay line `delay` samples behind the write head (linear interpolation)
+   */
+  private readDelayed(line: Float32Array, delay: number): number {
+    let position = this.writeIndex - delay;
+    if (position < 0) {
+      position += line.length;
+    }
+    const index = Math.floor(position);
+    const next = (index + 1) % line.length;
+    const frac = position - index;
+    return line[index] + (line[next] - line[index]) * frac;
+  }
+}
+
+registerProcessor('pitch-shift-processor', PitchShiftProcessor);
@@ -0,0 +1,296 @@
+import type {
+  ExportCodec,
+  ExportFormat,
+  ExportOptions,
+  ImageSequenceFormat,
+} from '../types/audio.types';
+
+/**
+ * Container properties for an export format
+ */
+export interface ExportFormatInfo {
+  muxer: string; // FFmpeg output format (-f), so the container never depends on the file name
+  label: string;
+  extension: string;
+  mimeType: string;
+  codecs: ExportCodec[]; // Allowed video codecs, default first
+  hasAudio: boolean;
+}
+
+/**
+ * Image format properties for image sequence export
+ */
+export interface ImageSequenceInfo {
+  extension: string;
+  mimeType: string;
+  hasAlpha: boolean;
+}
+
+/**
+ * Export containers and codecs, and the FFmpeg arguments for each. Shared by the CLI
+ * exporter and the browser export worker so both produce the same files.
+ */
+export class ExportFormats {
+  static readonly FORMATS: Record<ExportFormat, ExportFormatInfo> = {
+    mp4: {
+      muxer: 'mp4',
+      label: 'MP4',
+      extension: 'mp4',
+      mimeType: 'video/mp4',
+      codecs: ['h264', 'h265'],
+      hasAudio: true,
+    },
+    webm: {
+      muxer: 'webm',
+      label: 'WebM',
+      extension: 'webm',
+      mimeType: 'video/webm',
+      codecs: ['vp9', 'av1'],
+      hasAudio: true,
+    },
+    mov: {
+      muxer: 'mov',
+      label: 'MOV',
+      extension: 'mov',
+      mimeType: 'video/quicktime',
+      codecs: ['prores'],
+      hasAudio: true,
+    },
+    gif: {
+      muxer: 'gif',
+      label: 'GIF',
+      extension: 'gif',
+      mimeType: 'image/gif',
+      codecs: ['gif'],
+      hasAudio: false,
+    },
+    apng: {
+      muxer: 'apng',
+      label: 'APNG',
+      extension: 'png',
+      mimeType: 'image/apng',
+      codecs: ['apng'],
+      hasAudio: false,
+    },
+  };
+
+  static readonly IMAGE_SEQUENCE_FORMATS: Record<ImageSequenceFormat, ImageSequenceInfo> = {
+    png: { extension: 'png', mimeType: 'image/png', hasAlpha: true },
+    jpeg: { extension: 'jpg', mimeType: 'image/jpeg', hasAlpha: false },
+    webp: { extension: 'webp', mimeType: 'image/webp', hasAlpha: true },
+  };
+
+  /** Encoder quality (0-1) for lossy image sequence formats */
+  static readonly IMAGE_QUALITY = 0.92;
+
+  /** Codecs that can carry an alpha channel (for transparent backgrounds) */
+  static readonly ALPHA_CODECS: ExportCodec[] = ['vp9', 'prores', 'apng'];
+
+  /**
+   * Get the default codec for a format
+   */
+  static defaultCodec(format: ExportFormat): ExportCodec {
+    return ExportFormats.FORMATS[format].codecs[0];
+  }
+
+  /**
+   * Find the format whose file extension matches a path (e.g. 'clip.webm' -> 'webm')
+   */
+  static formatForPath(filePath: string): ExportFormat | null {
+    const extension = /\.([^./\\]+)$/.exec(filePath)?.[1]?.toLowerCase();
+    const formats = Object.keys(ExportFormats.FORMATS) as ExportFormat[];
+    return formats.find((format) => ExportFormats.FORMATS[format].extension === extension) ?? null;
+  }
+
+  /**
+   * Check a format/codec combination (just the format when codec is omitted)
+   * @throws Error if the format is unknown or cannot hold the codec
+   */
+  static validate(format: string, codec?: string): void {
+    if (!(format in ExportFormats.FORMATS)) {
+      throw new Error(
+        `Invalid format: "${format}". Must be one of: ${Object.keys(ExportFormats.FORMATS).join(', ')}`
+      );
+    }
+    const { codecs } = ExportFormats.FORMATS[format as ExportFormat];
+    if (codec !== undefined && !codecs.includes(codec as ExportCodec)) {
+      throw new Error(
+        `Codec "${codec}" is not supported in ${format}. Use one of: ${codecs.join(', ')}`
+      );
+    }
+  }
+
+  /**
+   * File name of a frame in an image sequence (zero-based, e.g. frame_000042.png)
+   */
+  static sequenceFrameName(index: number, format: ImageSequenceFormat): string {
+    const { extension } = ExportFormats.IMAGE_SEQUENCE_FORMATS[format];
+    return `frame_${index.toString().padStart(6, '0')}.${extension}`;
+  }
+
+  /**
+   * Check an image sequence format
+   * @throws Error if the format is unknown
+   */
+  static validateImageSequence(format: string): void {
+    if (!(format in ExportFormats.IMAGE_SEQUENCE_FORMATS)) {
+      const formats = Object.keys(ExportFormats.IMAGE_SEQUENCE_FORMATS).join(', ');
+      throw new Error(`Invalid image sequence format: "${format}". Must be one of: ${formats}`);
+    }
+  }
+
+  /**
+   * Check that the output (image sequence format, else codec) can carry the transparent background
+   * @throws Error if the output has no alpha channel
+   */
+  static validateTransparency(options: Pick<ExportOptions, 'codec' | 'imageSequence'>): void {
+    const { codec, imageSequence } = options;
+    if (imageSequence) {
+      if (!ExportFormats.IMAGE_SEQUENCE_FORMATS[imageSequence].hasAlpha) {
+        throw new Error(
+          `Transparent background is not supported with ${imageSequence} images (no alpha channel). ` +
+            'Use png or webp'
+        );
+      }
+      return;
+    }
+    if (!ExportFormats.ALPHA_CODECS.includes(codec)) {
+      throw new Error(
+        `Transparent background is not supported with ${codec} (no alpha channel). ` +
+          `Use one of: ${ExportFormats.ALPHA_CODECS.join(', ')}`
+      );
+    }
+  }
+
+  /**
+   * Video encoder arguments (codec, quality and pixel format) for codecs that encode
+   * frames directly. GIF is encoded through palette filters instead (see buildEncodeArgs).
+   * @param transparent - Keep the alpha channel (ALPHA_CODECS only)
+   */
+  static videoCodecArgs(codec: ExportCodec, quality: number, transparent = false): string[] {
+    const crf = quality.toString();
+
+    switch (codec) {
+      case 'h264':
+      case 'h265':
+        return [
+          '-c:v',
+          codec === 'h265' ? 'libx265' : 'libx264',
+          '-preset',
+          'medium',
+          '-crf',
+          crf,
+          '-pix_fmt',
+          'yuv420p',
+        ];
+      case 'vp9':
+        // Constant quality mode needs -b:v 0; alt-ref frames are incompatible with alpha
+        return [
+          '-c:v',
+          'libvpx-vp9',
+          '-crf',
+          crf,
+          '-b:v',
+          '0',
+          '-row-mt',
+          '1',
+          ...(transparent
+            ? ['-auto-alt-ref', '0', '-pix_fmt', 'yuva420p']
+            : ['-pix_fmt', 'yuv420p']),
+        ];
+      case 'av1':
+        return [
+          '-c:v',
+          'libaom-av1',
+          '-crf',
+          crf,
+          '-b:v',
+          '0',
+          '-cpu-used',
+          '6',
+          '-row-mt',
+          '1',
+          '-pix_fmt',
+          'yuv420p',
+        ];
+      case 'prores':
+        // ProRes 4444 is intra-only and quality is set by the profile, not CRF
+        return [
+          '-c:v',
+          'prores_ks',
+          '-profile:v',
+          '4444',
+          '-vendor',
+          'apl0',
+          '-pix_fmt',
+          transparent ? 'yuva444p10le' : 'yuv444p10le',
+        ];
+      case 'apng':
+        return ['-c:v', 'apng', '-plays', '0', '-pix_fmt', transparent ? 'rgba' : 'rgb24'];
+      case 'gif':
+        return ['-c:v', 'gif', '-loop', '0'];
+    }
+  }
+
+  /**
+   * Audio encoder arguments for a format (empty for formats without audio)
+   */
+  static audioCodecArgs(format: ExportFormat, audioBitrate: string): string[] {
+    switch (format) {
+      case 'mp4':
+        return ['-c:a', 'aac', '-b:a', audioBitrate];
+      case 'webm':
+        // Opus only supports 48 kHz (and lower rates) natively
+        return ['-c:a', 'libopus', '-b:a', audioBitrate, '-ar', '48000'];
+      case 'mov':
+        // Uncompressed audio for editing
+        return ['-c:a', 'pcm_s16le'];
+      case 'gif':
+      case 'apng':
+        return [];
+    }
+  }
+
+  /**
+   * Build the complete FFmpeg arguments to encode a video input and the mixed audio
+   * @param videoInput - Input arguments for the frames (ending with '-i <source>')
+   * @param audioPath - Mixed audio (ignored for formats without audio)
+   */
+  static buildEncodeArgs(
+    options: Pick<
+      ExportOptions,
+      'format' | 'codec' | 'quality' | 'audioBitrate' | 'transparentBackground'
+    >,
+    videoInput: string[],
+    audioPath: string,
+    outputPath: string
+  ): string[] {
+    const { hasAudio } = ExportFormats.FORMATS[options.format];
+    const args = ['-y', ...videoInput];
+
+    if (hasAudio) {
+      args.push('-i', audioPath, '-map', '0:v', '-map', '1:a');
+    }
+
+    if (options.codec === 'gif') {
+      // Build an optimized 256-color palette from the whole clip, then map frames to it
+      args.push(
+        '-filter_complex',
+        '[0:v]split[frames][source];[source]palettegen=stats_mode=diff[palette];' +
+          '[frames][palette]paletteuse=dither=bayer:bayer_scale=3'
+      );
+    }
+
+    const transparent = options.transparentBackground ?? false;
+    args.push(...ExportFormats.videoCodecArgs(options.codec, options.quality, transparent));
+
+    if (hasAudio) {
+      args.push(...ExportFormats.audioCodecArgs(options.format, options.audioBitrate), '-shortest');
+    } else {
+      args.push('-an');
+    }
+
+    args.push('-f', ExportFormats.FORMATS[options.format].muxer, outputPath);
+    return args;
+  }
+}
@@ -0,0 +1,90 @@
+import bundledCoreURL from '@ffmpeg/core?url';
+import bundledWasmURL from '@ffmpeg/core/wasm?url';
+
+/**
+ * A location to load the FFmpeg core (ffmpeg-core.js + ffmpeg-core.wasm) from
+ */
+export interface FFmpegCoreSource {
+  name: string;
+  coreURL: string;
+  wasmURL: string;
+}
+
+/**
+ * Build-time settings (Vite env variables) that control where the core is loaded from
+ */
+export interface FFmpegCoreEnv {
+  BASE_URL?: string;
+  VITE_FFMPEG_CORE_URL?: string;
+  VITE_FFMPEG_CDN_URL?: string;
+}
+
+/**
+ * Resolves where the export worker loads the FFmpeg core from.
+ *
+ * The core is bundled by default: the ESM build of the @ffmpeg/core dependency is served
+ * by Vite with the app, so export works without network access. VITE_FFMPEG_CORE_URL
+ * replaces it with a self-hosted copy, and the CDN is only tried when VITE_FFMPEG_CDN_URL
+ * is set.
+ */
+export class FFmpegCoreConfig {
+  /** URLs of the bundled core files (relative to the page, including the base URL) */
+  static readonly BUNDLED_CORE: Omit<FFmpegCoreSource, 'name'> = {
+    coreURL: bundledCoreURL,
+    wasmURL: bundledWasmURL,
+  };
+
+  /**
+   * Get the core locations to try, in order
+   * @param env - Vite env variables
+   * @param pageURL - URL relative locations are resolved against
+   * @param bundled - Bundled core files, used unless VITE_FFMPEG_CORE_URL is set
+   */
+  static getSources(
+    env: FFmpegCoreEnv = import.meta.env,
+    pageURL: string = self.location.href,
+    bundled: Omit<FFmpegCoreSource, 'name'> = FFmpegCoreConfig.BUNDLED_CORE
+  ): FFmpegCoreSource[] {
+    const localURL = env.VITE_FFMPEG_CORE_URL?.trim();
+    const sources = [
+      localURL
+        ? FFmpegCoreConfig.createSource('local', localURL, pageURL)
+        : {
+            name: 'bundled',
+            coreURL: new URL(bundled.coreURL, pageURL).href,
+            wasmURL: new URL(bundled.wasmURL, pageURL).href,
+          },
+    ];
+
+    const cdnURL = env.VITE_FFMPEG_CDN_URL?.trim();
+    if (cdnURL) {
+      sources.push(FFmpegCoreConfig.createSource('CDN', cdnURL, pageURL));
+    }
+
+    return sources;
+  }
+
+  /**
+   * Error message for when no source could be loaded
+   * @param failures - One "source: reason" line per source tried
+   */
+  static describeFailure(failures: string[]): string {
+    const list = failures.map((failure) => `- ${failure}`).join('\n');
+    return (
+      `Could not load the FFmpeg core for video export.\n${list}\n\n` +
+      'Check that the @ffmpeg/core dependency is installed (npm install), set ' +
+      'VITE_FFMPEG_CORE_URL to a directory hosting ffmpeg-core.js and ffmpeg-core.wasm from ' +
+      'its ESM build (dist/esm), or set VITE_FFMPEG_CDN_URL to allow loading them from a CDN.'
+    );
+  }
+
+  private static createSource(name: string, baseURL: string, pageURL: string): FFmpegCoreSource {
+    // Absolute URLs: the core is imported from inside FFmpeg's own worker
+    const base = new URL(`${baseURL.replace(/\/+$/, '')}/`, pageURL).href;
+    return {
+      name,
+      coreURL: `${base}ffmpeg-core.js`,
+      wasmURL: `${base}ffmpeg-core.wasm`,
+    };
+  }
+}
@@ -1,3 +1,8 @@
+/**
+ * Captures the canvas contents. PNG and ImageData captures keep the alpha channel, so
+ * frames rendered with a transparent background stay transparent (ImageData is
+ * non-premultiplied RGBA, as FFmpeg's rgba input expects).
+ */
 export class FrameCapture {
   private canvas: HTMLCanvasElement;
 
@@ -7,16 +12,22 @@ export class FrameCapture {
 
   /**
    * Capture a single frame as a Blob
+   * @param type - Image MIME type (image/png, image/jpeg or image/webp)
+   * @param quality - Encoder quality (0-1) for lossy types
    */
-  async captureFrame(): Promise<Blob> {
+  async captureFrame(type: string = 'image/png', quality?: number): Promise<Blob> {
     return new Promise((resolve, reject) => {
-      this.canvas.toBlob((blob) => {
-        if (blob) {
-          resolve(blob);
-        } else {
-          reject(new Error('Failed to capture frame'));
-        }
-      }, 'image/png');
+      this.canvas.toBlob(
+        (blob) => {
+          if (blob) {
+            resolve(blob);
+          } else {
+            reject(new Error('Failed to capture frame'));
+          }
+        },
+        type,
+        quality
+      );
     });
   }
 
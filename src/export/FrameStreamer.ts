@@ -0,0 +1,202 @@
+import { ExportFormats } from './ExportFormats';
+import type { FFmpegCoreSource } from './FFmpegCoreConfig';
+import type { ExportCodec, ExportFormat } from '../types/audio.types';
+
+/**
+ * Encoding settings for the export worker
+ */
+export interface StreamSettings {
+  fps: number;
+  format: ExportFormat;
+  codec: ExportCodec;
+  quality: number;
+  audioBitrate: string;
+  transparentBackground: boolean; // Frames carry alpha (alpha-capable codecs only)
+  width: number;
+  height: number;
+}
+
+/**
+ * Encoding settings sent with the 'start' message
+ */
+export interface EncodeSettings extends StreamSettings {
+  audioData: ArrayBuffer;
+}
+
+/**
+ * Messages to the export worker (handled strictly in order)
+ */
+export type ExportWorkerRequest =
+  | { type: 'init'; data: { sources: FFmpegCoreSource[] } }
+  | { type: 'start'; data: EncodeSettings }
+  | { type: 'chunk'; data: { frames: ArrayBuffer; frameCount: number } }
+  | { type: 'finish' };
+
+/**
+ * Messages from the export worker
+ */
+export type ExportWorkerReply =
+  | { type: 'ready' }
+  | { type: 'chunkencoded'; framesEncoded: number }
+  | { type: 'status'; message: string }
+  | { type: 'complete'; data: Uint8Array<ArrayBuffer> | string }
+  | { type: 'error'; error: string };
+
+/**
+ * Streams rendered frames to the export worker in chunks of raw RGBA pixels.
+ * Chunk buffers are transferred rather than copied, and rendering waits while
+ * MAX_PENDING_CHUNKS chunks are queued for encoding, so memory use is bounded by
+ * the chunk size instead of the song length.
+ */
+export class FrameStreamer {
+  /** Target size of one chunk of raw frames in bytes */
+  static readonly CHUNK_BYTES = 128 * 1024 * 1024;
+
+  /** Chunks sent but not yet encoded before addFrame() waits */
+  static readonly MAX_PENDING_CHUNKS = 2;
+
+  private worker: Worker;
+  private frameBytes: number;
+  private framesPerChunk: number;
+  private framesRemaining: number;
+  private chunk: Uint8Array<ArrayBuffer> | null = null;
+  private chunkCapacity: number = 0;
+  private framesInChunk: number = 0;
+  private pendingChunks: number = 0;
+  private failure: Error | null = null;
+  private chunkEncoded: (() => void) | null = null;
+  private completed: Promise<Blob>;
+  private resolveCompleted!: (blob: Blob) => void;
+  private rejectCompleted!: (error: Error) => void;
+
+  /**
+   * @param worker - Initialized export worker
+   * @param settings - Encoding settings (width/height must match the frames)
+   * @param totalFrames - Number of frames that will be added (sizes the last chunk)
+   * @param audioData - Mixed audio as WAV (transferred to the worker)
+   * @param onEncoded - Called with the total number of frames encoded so far
+   * @param onStatus - Called with worker status messages
+   * @param chunkBytes - Target chunk size in bytes (at least one frame per chunk)
+   */
+  constructor(
+    worker: Worker,
+    settings: StreamSettings,
+    totalFrames: number,
+    audioData: ArrayBuffer,
+    onEncoded: (framesEncoded: number) => void,
+    onStatus: (message: string) => void,
+    chunkBytes: number = FrameStreamer.CHUNK_BYTES
+  ) {
+    this.worker = worker;
+    const mimeType = ExportFormats.FORMATS[settings.format].mimeType;
+    this.frameBytes = settings.width * settings.height * 4;
+    this.framesPerChunk = Math.max(1, Math.floor(chunkBytes / this.frameBytes));
+    this.framesRemaining = totalFrames;
+
+    this.completed = new Promise<Blob>((resolve, reject) => {
+      this.resolveCompleted = resolve;
+      this.rejectCompleted = reject;
+    });
+    // Failures are reported by addFrame()/finish(); avoid an unhandled rejection meanwhile
+    this.completed.catch(() => undefined);
+
+    this.worker.onmessage = (e: MessageEvent<ExportWorkerReply>) => {
+      const reply = e.data;
+
+      switch (reply.type) {
+        case 'chunkencoded':
+          this.pendingChunks--;
+          onEncoded(reply.framesEncoded);
+          this.wake();
+          break;
+
+        case 'status':
+          onStatus(reply.message);
+          break;
+
+        case 'complete':
+          this.resolveCompleted(new Blob([reply.data], { type: mimeType }));
+          break;
+
+        case 'error':
+          this.failure = new Error(reply.error);
+          this.rejectCompleted(this.failure);
+          this.wake();
+          break;
+      }
+    };
+
+    this.post({ type: 'start', data: { ...settings, audioData } }, [audioData]);
+  }
+
+  /**
+   * Append one frame; sends the chunk when full, waiting for the worker if it is behind
+   * @param pixels - RGBA pixels of one frame (e.g. ImageData.data)
+   */
+  async addFrame(pixels: Uint8ClampedArray): Promise<void> {
+    this.throwIfFailed();
+
+    if (!this.chunk) {
+      this.chunkCapacity = Math.max(1, Math.min(this.framesPerChunk, this.framesRemaining));
+      this.chunk = new Uint8Array(this.frameBytes * this.chunkCapacity);
+    }
+    this.chunk.set(pixels, this.framesInChunk * this.frameBytes);
+    this.framesInChunk++;
+    this.framesRemaining--;
+
+    if (this.framesInChunk === this.chunkCapacity) {
+      await this.sendChunk();
+    }
+  }
+
+  /**
+   * Send any remaining frames and wait for the finished video
+   */
+  async finish(): Promise<Blob> {
+    if (this.framesInChunk > 0) {
+      await this.sendChunk();
+    }
+    this.throwIfFailed();
+
+    this.post({ type: 'finish' });
+    return this.completed;
+  }
+
+  private async sendChunk(): Promise<void> {
+    // Backpressure: wait until the worker has caught up
+    while (this.pendingChunks >= FrameStreamer.MAX_PENDING_CHUNKS && !this.failure) {
+      await new Promise<void>((resolve) => {
+        this.chunkEncoded = resolve;
+      });
+    }
+    this.throwIfFailed();
+
+    if (!this.chunk) {
+      return;
+    }
+    const buffer = this.chunk.buffer;
+    this.post({ type: 'chunk', data: { frames: buffer, frameCount: this.framesInChunk } }, [
+      buffer,
+    ]);
+
+    this.pendingChunks++;
+    this.chunk = null;
+    this.framesInChunk = 0;
+  }
+
+  private post(request: ExportWorkerRequest, transfer: Transferable[] = []): void {
+    this.worker.postMessage(request, transfer);
+  }
+
+  private wake(): void {
+    const resolve = this.chunkEncoded;
+    this.chunkEncoded = null;
+    resolve?.();
+  }
+
+  private throwIfFailed(): void {
+    if (this.failure) {
+      throw this.failure;
+    }
+  }
+}
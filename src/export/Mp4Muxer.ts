@@ -0,0 +1,533 @@
+/**
+ * Video track parameters for the MP4 muxer
+ */
+export interface Mp4VideoTrack {
+  codec: 'avc' | 'hevc';
+  width: number;
+  height: number;
+}
+
+/**
+ * Audio track parameters for the MP4 muxer (AAC)
+ */
+export interface Mp4AudioTrack {
+  sampleRate: number;
+  numberOfChannels: number;
+}
+
+interface Mp4Sample {
+  data: Uint8Array;
+  timestamp: number; // Presentation time in microseconds
+  duration: number; // Microseconds
+  keyFrame: boolean;
+}
+
+interface SampleRef {
+  track: TrackState;
+  index: number;
+}
+
+interface TrackState {
+  id: number;
+  timescale: number;
+  samples: Mp4Sample[];
+  description: Uint8Array | null;
+  offsets: number[]; // File offset of each sample (filled in by finalize)
+}
+
+const VIDEO_TIMESCALE = 90000;
+const MOVIE_TIMESCALE = 1000;
+
+/**
+ * Minimal MP4 (ISO BMFF) muxer for one H.264/H.265 video track and an optional AAC audio
+ * track, as produced by WebCodecs encoders. Samples are buffered in memory (encoded video
+ * is small compared to raw frames) and written as a single interleaved mdat followed by moov.
+ */
+export class Mp4Muxer {
+  private videoTrack: Mp4VideoTrack;
+  private audioTrack: Mp4AudioTrack | null;
+  private video: TrackState;
+  private audio: TrackState | null;
+
+  constructor(videoTrack: Mp4VideoTrack, audioTrack: Mp4AudioTrack | null = null) {
+    this.videoTrack = videoTrack;
+    this.audioTrack = audioTrack;
+    this.video = { id: 1, timescale: VIDEO_TIMESCALE, samples: [], description: null, offsets: [] };
+    this.audio = audioTrack
+      ? { id: 2, timescale: audioTrack.sampleRate, samples: [], description: null, offsets: [] }
+      : null;
+  }
+
+  /**
+   * Set the codec configuration record (avcC / hvcC payload from the encoder's decoderConfig)
+   */
+  setVideoDescription(description: Uint8Array): void {
+    this.video.description = description;
+  }
+
+  /**
+   * Set the AAC AudioSpecificConfig (from the encoder's decoderConfig)
+   */
+  setAudioDescription(description: Uint8Array): void {
+    if (this.audio) {
+      this.audio.description = description;
+    }
+  }
+
+  /**
+   * Add an encoded video sample (length-prefixed NAL units), in decode order
+   */
+  addVideoSample(data: Uint8Array, timestamp: number, duration: number, keyFrame: boolean): void {
+    this.video.samples.push({ data, timestamp, duration, keyFrame });
+  }
+
+  /**
+   * Add an encoded AAC frame
+   */
+  addAudioSample(data: Uint8Array, timestamp: number, duration: number): void {
+    if (!this.audio) {
+      throw new Error('Muxer has no audio track');
+    }
+    this.audio.samples.push({ data, timestamp, duration, keyFrame: true });
+  }
+
+  /**
+   * Write the file: ftyp, mdat (samples interleaved by timestamp), moov
+   */
+  finalize(): Blob {
+    const videoDescription = this.video.description;
+    if (!videoDescription) {
+      throw new Error('Missing video decoder configuration');
+    }
+    const audioDescription =
+      this.audio?.description ??
+      (this.audioTrack
+        ? Mp4Muxer.createAudioSpecificConfig(
+            this.audioTrack.sampleRate,
+            this.audioTrack.numberOfChannels
+          )
+        : null);
+
+    const ftyp = box(
+      'ftyp',
+      str('isom'),
+      u32(0x200),
+      str('isom'),
+      str('iso2'),
+      str(this.videoTrack.codec === 'avc' ? 'avc1' : 'hvc1'),
+      str('mp41')
+    );
+
+    // Interleave samples by presentation time
+    const tracks = this.audio ? [this.video, this.audio] : [this.video];
+    const order: SampleRef[] = [];
+    for (const track of tracks) {
+      track.offsets = [];
+      track.samples.forEach((_, index) => order.push({ track, index }));
+    }
+    order.sort(
+      (a, b) =>
+        a.track.samples[a.index].timestamp - b.track.samples[b.index].timestamp ||
+        a.track.id - b.track.id
+    );
+
+    const dataSize = order.reduce((sum, s) => sum + s.track.samples[s.index].data.byteLength, 0);
+    const largeMdat = dataSize + 8 > 0xffffffff;
+    const mdatHeader = largeMdat
+      ? concat(u32(1), str('mdat'), u64(dataSize + 16))
+      : concat(u32(dataSize + 8), str('mdat'));
+
+    let offset = ftyp.byteLength + mdatHeader.byteLength;
+    const parts: Uint8Array[] = [ftyp, mdatHeader];
+    for (const { track, index } of order) {
+      const sample = track.samples[index];
+      track.offsets[index] = offset;
+      offset += sample.data.byteLength;
+      parts.push(sample.data);
+    }
+
+    parts.push(this.buildMoov(videoDescription, audioDescription));
+    return new Blob(parts as BlobPart[], { type: 'video/mp4' });
+  }
+
+  /**
+   * Build an AAC-LC AudioSpecificConfig (used when the encoder does not provide one)
+   */
+  static createAudioSpecificConfig(sampleRate: number, numberOfChannels: number): Uint8Array {
+    const rates = [
+      96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025, 8000, 7350,
+    ];
+    const rateIndex = rates.indexOf(sampleRate);
+    if (rateIndex < 0) {
+      throw new Error(`Unsupported AAC sample rate: ${sampleRate}`);
+    }
+    const objectType = 2; // AAC LC
+    return new Uint8Array([
+      (objectType << 3) | (rateIndex >> 1),
+      ((rateIndex & 1) << 7) | (numberOfChannels << 3),
+    ]);
+  }
+
+  private buildMoov(videoDescription: Uint8Array, audioDescription: Uint8Array | null): Uint8Array {
+    const videoDuration = this.trackDuration(this.video);
+    const audioDuration = this.audio ? this.trackDuration(this.audio) : 0;
+    const movieDuration = Math.max(videoDuration, audioDuration);
+
+    const traks = [this.buildVideoTrak(videoDescription, videoDuration)];
+    if (this.audio && this.audioTrack && audioDescription) {
+      traks.push(this.buildAudioTrak(this.audio, this.audioTrack, audioDescription, audioDuration));
+    }
+
+    return box('moov', this.buildMvhd(movieDuration, traks.length + 1), ...traks);
+  }
+
+  private buildMvhd(durationSeconds: number, nextTrackId: number): Uint8Array {
+    return fullBox(
+      'mvhd',
+      0,
+      0,
+      u32(0), // creation time
+      u32(0), // modification time
+      u32(MOVIE_TIMESCALE),
+      u32(Math.round(durationSeconds * MOVIE_TIMESCALE)),
+      u32(0x00010000), // rate 1.0
+      u16(0x0100), // volume 1.0
+      zeros(10),
+      MATRIX,
+      zeros(24),
+      u32(nextTrackId)
+    );
+  }
+
+  private buildTkhd(
+    track: TrackState,
+    durationSeconds: number,
+    volume: number,
+    width: number,
+    height: number
+  ): Uint8Array {
+    return fullBox(
+      'tkhd',
+      0,
+      3, // enabled | in movie
+      u32(0),
+      u32(0),
+      u32(track.id),
+      u32(0),
+      u32(Math.round(durationSeconds * MOVIE_TIMESCALE)),
+      zeros(8),
+      u16(0), // layer
+      u16(0), // alternate group
+      u16(volume),
+      u16(0),
+      MATRIX,
+      u32(width * 0x10000),
+      u32(height * 0x10000)
+    );
+  }
+
+  private buildMdhd(track: TrackState, durationSeconds: number): Uint8Array {
+    return fullBox(
+      'mdhd',
+      0,
+      0,
+      u32(0),
+      u32(0),
+      u32(track.timescale),
+      u32(Math.round(durationSeconds * track.timescale)),
+      u16(0x55c4), // language 'und'
+      u16(0)
+    );
+  }
+
+  private buildVideoTrak(description: Uint8Array, durationSeconds: number): Uint8Array {
+    const { codec, width, height } = this.videoTrack;
+    const sampleEntry = box(
+      codec === 'avc' ? 'avc1' : 'hvc1',
+      zeros(6),
+      u16(1), // data reference index
+      zeros(16),
+      u16(width),
+      u16(height),
+      u32(0x00480000), // 72 dpi
+      u32(0x00480000),
+      u32(0),
+      u16(1), // frame count
+      zeros(32), // compressor name
+      u16(0x0018), // depth
+      u16(0xffff),
+      box(codec === 'avc' ? 'avcC' : 'hvcC', description)
+    );
+
+    return box(
+      'trak',
+      this.buildTkhd(this.video, durationSeconds, 0, width, height),
+      ...this.buildEdts(this.video, durationSeconds),
+      box(
+        'mdia',
+        this.buildMdhd(this.video, durationSeconds),
+        handler('vide', 'VideoHandler'),
+        box(
+          'minf',
+          fullBox('vmhd', 0, 1, zeros(8)),
+          DINF,
+          this.buildStbl(this.video, sampleEntry, true)
+        )
+      )
+    );
+  }
+
+  private buildAudioTrak(
+    track: TrackState,
+    audioTrack: Mp4AudioTrack,
+    description: Uint8Array,
+    durationSeconds: number
+  ): Uint8Array {
+    const { sampleRate, numberOfChannels } = audioTrack;
+    const decoderSpecificInfo = descriptor(0x05, description);
+    const decoderConfig = descriptor(
+      0x04,
+      u8(0x40), // MPEG-4 audio
+      u8(0x15), // audio stream
+      zeros(3), // buffer size
+      u32(0), // max bitrate
+      u32(0), // average bitrate
+      decoderSpecificInfo
+    );
+    const esds = fullBox(
+      'esds',
+      0,
+      0,
+      descriptor(0x03, u16(track.id), u8(0), decoderConfig, descriptor(0x06, u8(0x02)))
+    );
+
+    const sampleEntry = box(
+      'mp4a',
+      zeros(6),
+      u16(1),
+      zeros(8),
+      u16(numberOfChannels),
+      u16(16), // sample size
+      zeros(4),
+      u32(Math.min(sampleRate, 0xffff) * 0x10000),
+      esds
+    );
+
+    return box(
+      'trak',
+      this.buildTkhd(track, durationSeconds, 0x0100, 0, 0),
+      box(
+        'mdia',
+        this.buildMdhd(track, durationSeconds),
+        handler('soun', 'SoundHandler'),
+        box(
+          'minf',
+          fullBox('smhd', 0, 0, zeros(4)),
+          DINF,
+          this.buildStbl(track, sampleEntry, false)
+        )
+      )
+    );
+  }
+
+  /**
+   * Edit list that skips the decode delay of reordered frames, so the first frame is
+   * presented at time 0 (in step with the audio); none when frames are not reordered
+   */
+  private buildEdts(track: TrackState, durationSeconds: number): Uint8Array[] {
+    const { shift } = this.sampleTimes(track);
+    if (shift === 0) {
+      return [];
+    }
+
+    const elst = fullBox(
+      'elst',
+      0,
+      0,
+      u32(1),
+      u32(Math.round(durationSeconds * MOVIE_TIMESCALE)), // segment duration
+      i32(shift), // media time of the first presented frame
+      u16(1), // rate 1.0
+      u16(0)
+    );
+    return [box('edts', elst)];
+  }
+
+  /**
+   * Presentation and decode times of a track's samples in its timescale. Decode times are
+   * the presentation times in sorted order (equal unless frames are reordered); with
+   * reordering they are shifted back so no frame is presented before it is decoded.
+   */
+  private sampleTimes(track: TrackState): { pts: number[]; dts: number[]; shift: number } {
+    const pts = track.samples.map((s) => this.toTrackUnits(track, s.timestamp));
+    const sorted = [...pts].sort((a, b) => a - b);
+    const shift = sorted.reduce((max, t, i) => Math.max(max, t - pts[i]), 0);
+    const dts = sorted.map((t) => t - shift);
+    return { pts, dts, shift };
+  }
+
+  private toTrackUnits(track: TrackState, microseconds: number): number {
+    return Math.round((microseconds * track.timescale) / 1e6);
+  }
+
+  private buildStbl(track: TrackState, sampleEntry: Uint8Array, isVideo: boolean): Uint8Array {
+    const samples = track.samples;
+    const { pts, dts } = this.sampleTimes(track);
+    const last = samples.length - 1;
+    const deltas = dts.map((t, i) =>
+      i < last ? dts[i + 1] - t : Math.max(1, this.toTrackUnits(track, samples[last].duration))
+    );
+
+    const boxes = [
+      fullBox('stsd', 0, 0, u32(1), sampleEntry),
+      fullBox('stts', 0, 0, ...runLengths(deltas)),
+    ];
+
+    const compositionOffsets = pts.map((t, i) => t - dts[i]);
+    if (compositionOffsets.some((o) => o !== 0)) {
+      boxes.push(fullBox('ctts', 0, 0, ...runLengths(compositionOffsets)));
+    }
+
+    if (isVideo && samples.some((s) => !s.keyFrame)) {
+      const syncSamples = samples.flatMap((s, i) => (s.keyFrame ? [u32(i + 1)] : []));
+      boxes.push(fullBox('stss', 0, 0, u32(syncSamples.length), ...syncSamples));
+    }
+
+    // One sample per chunk (samples are interleaved across tracks)
+    boxes.push(fullBox('stsc', 0, 0, u32(1), u32(1), u32(1), u32(1)));
+    boxes.push(
+      fullBox(
+        'stsz',
+        0,
+        0,
+        u32(0),
+        u32(samples.length),
+        ...samples.map((s) => u32(s.data.byteLength))
+      )
+    );
+
+    const needs64 = track.offsets.some((o) => o > 0xffffffff);
+    boxes.push(
+      fullBox(
+        needs64 ? 'co64' : 'stco',
+        0,
+        0,
+        u32(track.offsets.length),
+        ...track.offsets.map((o) => (needs64 ? u64(o) : u32(o)))
+      )
+    );
+
+    return box('stbl', ...boxes);
+  }
+
+  private trackDuration(track: TrackState): number {
+    return track.samples.reduce((max, s) => Math.max(max, s.timestamp + s.duration), 0) / 1e6;
+  }
+}
+
+// --- Box writing helpers ---
+
+const encoder = new TextEncoder();
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, p) => sum + p.byteLength, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.byteLength;
+  }
+  return result;
+}
+
+function u8(value: number): Uint8Array {
+  return new Uint8Array([value & 0xff]);
+}
+
+function u16(value: number): Uint8Array {
+  return new Uint8Array([(value >> 8) & 0xff, value & 0xff]);
+}
+
+function u32(value: number): Uint8Array {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value >>> 0);
+  return bytes;
+}
+
+function i32(value: number): Uint8Array {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setInt32(0, value);
+  return bytes;
+}
+
+function u64(value: number): Uint8Array {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setBigUint64(0, BigInt(value));
+  return bytes;
+}
+
+function zeros(length: number): Uint8Array {
+  return new Uint8Array(length);
+}
+
+function str(value: string): Uint8Array {
+  return encoder.encode(value);
+}
+
+function box(type: string, ...payload: Uint8Array[]): Uint8Array {
+  const body = concat(...payload);
+  return concat(u32(body.byteLength + 8), str(type), body);
+}
+
+function fullBox(
+  type: string,
+  version: number,
+  flags: number,
+  ...payload: Uint8Array[]
+): Uint8Array {
+  return box(type, u8(version), u8(flags >> 16), u16(flags & 0xffff), ...payload);
+}
+
+/**
+ * MPEG-4 descriptor (tag + single-byte length; all descriptors written here are < 128 bytes)
+ */
+function descriptor(tag: number, ...payload: Uint8Array[]): Uint8Array {
+  const body = concat(...payload);
+  return concat(u8(tag), u8(body.byteLength), body);
+}
+
+function handler(type: string, name: string): Uint8Array {
+  return fullBox('hdlr', 0, 0, u32(0), str(type), zeros(12), str(name), zeros(1));
+}
+
+/**
+ * Run-length encode values as entry count + (count, value) pairs (stts / ctts)
+ */
+function runLengths(values: number[]): Uint8Array[] {
+  const entries: Uint8Array[] = [];
+  let i = 0;
+  while (i < values.length) {
+    let count = 1;
+    while (i + count < values.length && values[i + count] === values[i]) {
+      count++;
+    }
+    entries.push(u32(count), i32(values[i]));
+    i += count;
+  }
+  return [u32(entries.length / 2), ...entries];
+}
+
+// Identity transformation matrix
+const MATRIX = concat(
+  u32(0x00010000),
+  u32(0),
+  u32(0),
+  u32(0),
+  u32(0x00010000),
+  u32(0),
+  u32(0),
+  u32(0),
+  u32(0x40000000)
+);
+
+// Data reference: media data is in this file
+const DINF = box('dinf', fullBox('dref', 0, 0, u32(1), fullBox('url ', 0, 1)));
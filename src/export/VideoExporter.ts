@@ -1,9 +1,16 @@
 import { type AudioEngine } from '../core/AudioEngine';
+import type { AudioTrack } from '../core/AudioTrack';
 import { WaveformRenderer } from '../rendering/WaveformRenderer';
 import { RenderContext } from '../rendering/RenderContext';
 import { FrameCapture } from './FrameCapture';
-import type { ExportOptions } from '../types/audio.types';
-import type { LayoutMode, AmplitudeMode } from '../types/visualizer.types';
+import { FrameStreamer, type ExportWorkerReply, type ExportWorkerRequest } from './FrameStreamer';
+import { FFmpegCoreConfig } from './FFmpegCoreConfig';
+import { ExportFormats } from './ExportFormats';
+import { ZipWriter } from './ZipWriter';
+import { WebCodecsEncoder } from './WebCodecsEncoder';
+import { TimeSync } from '../utils/TimeSync';
+import { FrequencyBands } from '../visualization/FrequencyBands';
+import type { ExportOptions, ImageSequenceFormat } from '../types/audio.types';
 
 export class VideoExporter {
   private audioEngine: AudioEngine;
@@ -15,10 +22,10 @@ export class VideoExporter {
   constructor(audioEngine: AudioEngine) {
     this.audioEngine = audioEngine;
 
-    // Create offscreen canvas at fixed 1920x1080
+    // Create offscreen canvas (resized to the requested resolution on export)
     this.exportCanvas = document.createElement('canvas');
-    this.exportCanvas.width = 1920;
-    this.exportCanvas.height = 1080;
+    this.exportCanvas.width = RenderContext.DEFAULT_EXPORT_WIDTH;
+    this.exportCanvas.height = RenderContext.DEFAULT_EXPORT_HEIGHT;
 
     // Create export render context
     const exportContext = RenderContext.forExport();
@@ -68,54 +75,63 @@ export class VideoExporter {
     };
 
     try {
-      // Check if SharedArrayBuffer is available (required for FFmpeg)
-      if (typeof SharedArrayBuffer === 'undefined') {
-        throw new Error(
-          'Video export requires SharedArrayBuffer support. ' +
-            'Please serve the application with these headers:\n' +
-            'Cross-Origin-Opener-Policy: same-origin\n' +
-            'Cross-Origin-Embedder-Policy: require-corp\n\n' +
-            'For production deployment, configure your web server to send these headers.'
-        );
+      if (options.transparentBackground) {
+        ExportFormats.validateTransparency(options);
+      }
+
+      // Resolve the export range (whole song unless startTime/endTime are set)
+      const range = TimeSync.resolveTimeRange(
+        options.startTime,
+        options.endTime,
+        this.audioEngine.getDuration()
+      );
+
+      // Resolve the output resolution and size the export canvas to match
+      const size = RenderContext.resolveExportSize(options.width, options.height, options.aspect);
+      this.exportRenderer.resize(size.width, size.height);
+
+      // Prefer native WebCodecs encoding; fall back to FFmpeg (wasm) when unavailable.
+      // Image sequences need no video encoder.
+      const sampleRate = this.audioEngine.getTracks()[0]?.sampleRate ?? 44100;
+      const useWebCodecs =
+        !options.imageSequence &&
+        (await WebCodecsEncoder.isSupported(options, size.width, size.height, sampleRate));
+      let encoderName = useWebCodecs ? 'WebCodecs' : 'FFmpeg (wasm)';
+      if (options.imageSequence) {
+        encoderName = `${options.imageSequence} image sequence (ZIP)`;
       }
 
       console.log('[Export] Starting video export...');
+      console.log(
+        `[Export] Range: ${TimeSync.formatTimecode(range.start)} - ${TimeSync.formatTimecode(range.end)}`
+      );
+      console.log(`[Export] Resolution: ${size.width}x${size.height}`);
+      console.log(`[Export] Encoder: ${encoderName}`);
       logProgress(0, true);
 
-      // Initialize worker
-      onProgress(0, 'Initializing...');
-      await this.initWorker();
-      logProgress(5, true);
-
-      // Capture frames
-      onProgress(5, 'Rendering frames...');
-      const frames = await this.captureFrames(
-        options.fps,
-        options.layout,
-        options.amplitudeMode,
-        options.heightPercent,
-        options.smoothingLevel,
-        options.windowDuration,
-        (p) => {
-          const progress = 5 + p * 30;
-          onProgress(progress, 'Rendering frames...');
-          logProgress(progress);
-        }
-      );
-      logProgress(35, true);
-
-      // Mix audio
-      onProgress(35, 'Mixing audio...');
-      const audioData = await this.mixAudio();
-      logProgress(40, true);
-
-      // Send to worker for encoding
-      onProgress(40, 'Encoding video...');
-      const videoBlob = await this.encodeVideo(frames, audioData, options, (p, msg) => {
-        const progress = 40 + p * 0.6;
-        onProgress(progress, msg);
+      const reportProgress = (progress: number, message: string): void => {
+        onProgress(progress, message);
         logProgress(progress);
-      });
+      };
+      let videoBlob: Blob;
+      if (options.imageSequence) {
+        videoBlob = await this.exportImageSequence(
+          range,
+          options,
+          options.imageSequence,
+          reportProgress
+        );
+      } else if (useWebCodecs) {
+        videoBlob = await this.exportWithWebCodecs(
+          range,
+          options,
+          size,
+          sampleRate,
+          reportProgress
+        );
+      } else {
+        videoBlob = await this.exportWithFFmpeg(range, options, size, reportProgress);
+      }
 
       logProgress(100, true);
       const totalTime = (Date.now() - startTime) / 1000;
@@ -130,6 +146,123 @@ export class VideoExporter {
     }
   }
 
+  /**
+   * Encode with WebCodecs and the in-repo MP4 muxer (no worker or SharedArrayBuffer needed)
+   */
+  private async exportWithWebCodecs(
+    range: { start: number; end: number },
+    options: ExportOptions,
+    size: { width: number; height: number },
+    sampleRate: number,
+    onProgress: (progress: number, message: string) => void
+  ): Promise<Blob> {
+    onProgress(0, 'Initializing...');
+    const encoder = await WebCodecsEncoder.create(options, size.width, size.height, sampleRate);
+
+    try {
+      // Mix and encode audio
+      onProgress(5, 'Mixing audio...');
+      encoder.addAudio(await this.renderAudioMix(range.start, range.end));
+
+      // Render and encode frames
+      const duration = this.audioEngine.getDuration();
+      const totalFrames = Math.ceil((range.end - range.start) * options.fps);
+      const tracks = this.audioEngine.getTracks();
+
+      for (let i = 0; i < totalFrames; i++) {
+        this.renderFrame(tracks, range.start + i / options.fps, duration, options);
+        await encoder.addFrame(this.exportCanvas, i);
+
+        // Report progress and yield to browser every 10 frames
+        if (i % 10 === 0) {
+          onProgress(10 + (i / totalFrames) * 85, `Encoded ${i}/${totalFrames} frames`);
+          await new Promise((resolve) => setTimeout(resolve, 0));
+        }
+      }
+
+      onProgress(95, 'Finalizing video...');
+      return await encoder.finish();
+    } finally {
+      encoder.close();
+    }
+  }
+
+  /**
+   * Render the frames as numbered images and pack them with the mixed WAV into a ZIP
+   * (no encoder involved)
+   */
+  private async exportImageSequence(
+    range: { start: number; end: number },
+    options: ExportOptions,
+    imageFormat: ImageSequenceFormat,
+    onProgress: (progress: number, message: string) => void
+  ): Promise<Blob> {
+    const { mimeType } = ExportFormats.IMAGE_SEQUENCE_FORMATS[imageFormat];
+    const zip = new ZipWriter();
+
+    onProgress(0, 'Mixing audio...');
+    const audioData = await this.mixAudio(range.start, range.end);
+    await zip.addFile('audio.wav', new Blob([audioData], { type: 'audio/wav' }));
+
+    const duration = this.audioEngine.getDuration();
+    const totalFrames = Math.ceil((range.end - range.start) * options.fps);
+    const tracks = this.audioEngine.getTracks();
+
+    for (let i = 0; i < totalFrames; i++) {
+      this.renderFrame(tracks, range.start + i / options.fps, duration, options);
+      const image = await this.exportFrameCapture.captureFrame(
+        mimeType,
+        ExportFormats.IMAGE_QUALITY
+      );
+      if (image.type !== mimeType) {
+        throw new Error(`This browser cannot encode ${imageFormat} images`);
+      }
+      await zip.addFile(ExportFormats.sequenceFrameName(i, imageFormat), image);
+
+      if (i % 10 === 0) {
+        onProgress(5 + (i / totalFrames) * 90, `Rendered ${i}/${totalFrames} frames`);
+      }
+    }
+
+    onProgress(95, 'Creating ZIP archive...');
+    return zip.finish();
+  }
+
+  /**
+   * Encode with FFmpeg (wasm) in the export worker
+   */
+  private async exportWithFFmpeg(
+    range: { start: number; end: number },
+    options: ExportOptions,
+    size: { width: number; height: number },
+    onProgress: (progress: number, message: string) => void
+  ): Promise<Blob> {
+    // Check if SharedArrayBuffer is available (required for FFmpeg)
+    if (typeof SharedArrayBuffer === 'undefined') {
+      throw new Error(
+        'Video export requires SharedArrayBuffer support. ' +
+          'Please serve the application with these headers:\n' +
+          'Cross-Origin-Opener-Policy: same-origin\n' +
+          'Cross-Origin-Embedder-Policy: require-corp\n\n' +
+          'For production deployment, configure your web server to send these headers.'
+      );
+    }
+
+    // Initialize worker
+    onProgress(0, 'Initializing...');
+    await this.initWorker();
+
+    // Mix audio (first, so the worker can mux it as soon as the last frame is encoded)
+    onProgress(5, 'Mixing audio...');
+    const audioData = await this.mixAudio(range.start, range.end);
+
+    // Render frames and stream them to the worker, which encodes while rendering continues
+    onProgress(10, 'Rendering and encoding frames...');
+    return this.streamFrames(range.start, range.end, options, size, audioData, (p, msg) => {
+      onProgress(10 + p * 90, msg);
+    });
+  }
+
   /**
    * Initialize FFmpeg worker
    */
@@ -137,7 +270,7 @@ export class VideoExporter {
     return new Promise((resolve, reject) => {
       this.worker = new Worker(new URL('./export.worker.ts', import.meta.url), { type: 'module' });
 
-      this.worker.onmessage = (e) => {
+      this.worker.onmessage = (e: MessageEvent<ExportWorkerReply>) => {
         if (e.data.type === 'ready') {
           resolve();
         } else if (e.data.type === 'error') {
@@ -149,90 +282,147 @@ export class VideoExporter {
         reject(error);
       };
 
-      this.worker.postMessage({ type: 'init' });
+      const request: ExportWorkerRequest = {
+        type: 'init',
+        data: { sources: FFmpegCoreConfig.getSources() },
+      };
+      this.worker.postMessage(request);
     });
   }
 
   /**
-   * Capture frames for entire duration
+   * Render frames for the export range and stream them to the worker for encoding
+   * @param onProgress - Called with overall progress (0-1) and a status message
    */
-  private async captureFrames(
-    fps: number,
-    layout: LayoutMode,
-    amplitudeMode: AmplitudeMode,
-    heightPercent: number,
-    smoothingLevel: number,
-    windowDuration: number,
-    onProgress: (progress: number) => void
-  ): Promise<string[]> {
+  private async streamFrames(
+    startTime: number,
+    endTime: number,
+    options: ExportOptions,
+    size: { width: number; height: number },
+    audioData: ArrayBuffer,
+    onProgress: (progress: number, message: string) => void
+  ): Promise<Blob> {
     const duration = this.audioEngine.getDuration();
-    const totalFrames = Math.ceil(duration * fps);
-    const frames: string[] = [];
-
+    const totalFrames = Math.ceil((endTime - startTime) * options.fps);
     const tracks = this.audioEngine.getTracks();
 
+    // Encoding accounts for 95% of progress, finalizing (concat + audio mux) the rest
+    const streamer = new FrameStreamer(
+      this.worker!,
+      {
+        fps: options.fps,
+        format: options.format,
+        codec: options.codec,
+        quality: options.quality,
+        audioBitrate: options.audioBitrate,
+        transparentBackground: options.transparentBackground ?? false,
+        width: size.width,
+        height: size.height,
+      },
+      totalFrames,
+      audioData,
+      (framesEncoded) => {
+        onProgress(
+          (framesEncoded / totalFrames) * 0.95,
+          `Encoded ${framesEncoded}/${totalFrames} frames`
+        );
+      },
+      (message) => {
+        onProgress(0.95, message);
+      }
+    );
+
     for (let i = 0; i < totalFrames; i++) {
-      const time = i / fps;
-
-      // Render using EXPORT renderer (always 1920x1080)
-      this.exportRenderer.render(
-        tracks,
-        time,
-        duration,
-        layout,
-        amplitudeMode,
-        heightPercent,
-        smoothingLevel,
-        windowDuration
-      );
+      this.renderFrame(tracks, startTime + i / options.fps, duration, options);
 
-      // Capture frame from export canvas
-      const dataURL = this.exportFrameCapture.captureFrameAsDataURL();
-      frames.push(dataURL);
+      // Capture raw pixels from export canvas (waits here if the worker is behind)
+      await streamer.addFrame(this.exportFrameCapture.captureFrameAsImageData().data);
 
-      // Report progress and yield to browser every 10 frames
+      // Yield to browser every 10 frames to prevent UI freezing
       if (i % 10 === 0) {
-        onProgress(i / totalFrames);
-        // Yield control back to the browser to prevent UI freezing
         await new Promise((resolve) => setTimeout(resolve, 0));
       }
     }
 
-    return frames;
+    return streamer.finish();
+  }
+
+  /**
+   * Render one frame with the EXPORT renderer (at the export resolution)
+   */
+  private renderFrame(
+    tracks: AudioTrack[],
+    time: number,
+    duration: number,
+    options: ExportOptions
+  ): void {
+    this.exportRenderer.render(
+      tracks,
+      time,
+      duration,
+      options.layout,
+      options.amplitudeMode,
+      options.heightPercent,
+      options.smoothingLevel,
+      options.windowDuration,
+      options.hideMutedTracks,
+      options.transparentBackground,
+      FrequencyBands.resolve(options.spectrum)
+    );
+  }
+
+  /**
+   * Mix all audio tracks in the export range to a WAV file
+   */
+  private async mixAudio(startTime: number, endTime: number): Promise<ArrayBuffer> {
+    return this.audioBufferToWav(await this.renderAudioMix(startTime, endTime));
   }
 
   /**
-   * Mix all audio tracks to single stereo buffer
+   * Mix all audio tracks in the export range to single stereo buffer
    */
-  private async mixAudio(): Promise<ArrayBuffer> {
+  private async renderAudioMix(startTime: number, endTime: number): Promise<AudioBuffer> {
     const tracks = this.audioEngine.getTracks();
     if (tracks.length === 0) {
       throw new Error('No audio tracks to export');
     }
 
-    const duration = this.audioEngine.getDuration();
     const sampleRate = tracks[0].sampleRate;
 
     // Create offline context for mixing
     const offlineContext = new OfflineAudioContext(
       2, // Stereo
-      Math.ceil(duration * sampleRate),
+      Math.ceil((endTime - startTime) * sampleRate),
       sampleRate
     );
 
-    // Create sources and connect to destination
+    // Create sources and connect to destination through per-track gain (mute/solo/volume)
+    const anySoloed = this.audioEngine.hasSoloedTracks();
     tracks.forEach((track) => {
+      const gain = track.getEffectiveGain(anySoloed);
+      if (gain === 0) {
+        return;
+      }
+
       const source = offlineContext.createBufferSource();
       source.buffer = track.buffer;
-      source.connect(offlineContext.destination);
-      source.start(0);
+      const gainNode = offlineContext.createGain();
+      gainNode.gain.value = gain;
+      source.connect(gainNode);
+      gainNode.connect(offlineContext.destination);
+
+      // Place the track on the timeline relative to the range start
+      // (tracks starting before the range skip their beginning)
+      const when = track.startOffset - startTime;
+      if (when >= 0) {
+        source.start(when);
+      } else {
+        source.start(0, -when);
+      }
     });
 
     // Render mixed audio
-    const renderedBuffer = await offlineContext.startRendering();
-
-    // Convert to WAV
-    return this.audioBufferToWav(renderedBuffer);
+    return offlineContext.startRendering();
   }
 
   /**
@@ -283,58 +473,6 @@ export class VideoExporter {
     return arrayBuffer;
   }
 
-  /**
-   * Encode video using FFmpeg worker
-   */
-  private async encodeVideo(
-    frames: string[],
-    audioData: ArrayBuffer,
-    options: ExportOptions,
-    onProgress: (progress: number, message: string) => void
-  ): Promise<Blob> {
-    return new Promise((resolve, reject) => {
-      if (!this.worker) {
-        reject(new Error('Worker not initialized'));
-        return;
-      }
-
-      this.worker.onmessage = (e) => {
-        const { type, data, progress, message, error } = e.data;
-
-        switch (type) {
-          case 'progress':
-            onProgress(progress, message || 'Processing...');
-            break;
-
-          case 'status':
-            onProgress(progress || 0, message);
-            break;
-
-          case 'complete':
-            const blob = new Blob([data], { type: 'video/mp4' });
-            resolve(blob);
-            break;
-
-          case 'error':
-            reject(new Error(error));
-            break;
-        }
-      };
-
-      this.worker.postMessage({
-        type: 'export',
-        data: {
-          frames,
-          audioData,
-          fps: options.fps,
-          codec: options.codec,
-          quality: options.quality,
-          audioBitrate: options.audioBitrate,
-        },
-      });
-    });
-  }
-
   /**
    * Cleanup worker
    */
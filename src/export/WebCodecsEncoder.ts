@@ -0,0 +1,288 @@
+import { Mp4Muxer } from './Mp4Muxer';
+import type { ExportCodec, ExportOptions } from '../types/audio.types';
+
+// HEVC bitstream format option (not yet in the DOM lib typings)
+type EncoderConfig = VideoEncoderConfig & { hevc?: { format: 'hevc' } };
+
+interface EncoderConfigs {
+  video: EncoderConfig;
+  audio: AudioEncoderConfig;
+}
+
+/**
+ * Browser-native export encoder: WebCodecs VideoEncoder/AudioEncoder muxed to MP4 by
+ * Mp4Muxer. Unlike the FFmpeg worker it needs no SharedArrayBuffer (COOP/COEP) or
+ * network access, but codec support depends on the browser and platform, so callers
+ * check isSupported() and fall back to FFmpeg.
+ */
+export class WebCodecsEncoder {
+  /** Seconds between forced keyframes */
+  static readonly KEYFRAME_INTERVAL = 2;
+
+  /** Frames queued in the video encoder before addFrame() waits */
+  static readonly MAX_QUEUE_SIZE = 8;
+
+  /** AAC-LC */
+  static readonly AUDIO_CODEC = 'mp4a.40.2';
+
+  /**
+   * Codec strings to try per export codec, most capable profile first (level 5.2 / 5.1).
+   * Other formats and codecs are encoded by FFmpeg.
+   */
+  static readonly VIDEO_CODECS: Partial<Record<ExportCodec, string[]>> = {
+    h264: ['avc1.640034', 'avc1.4d0034', 'avc1.420034'],
+    h265: ['hvc1.1.6.L153.B0', 'hvc1.1.6.L150.B0'],
+  };
+
+  private options: ExportOptions;
+  private videoEncoder: VideoEncoder;
+  private audioEncoder: AudioEncoder;
+  private muxer: Mp4Muxer;
+  private sampleRate: number;
+  private failure: Error | null = null;
+
+  private constructor(options: ExportOptions, configs: EncoderConfigs) {
+    this.options = options;
+    this.sampleRate = configs.audio.sampleRate;
+    this.muxer = new Mp4Muxer(
+      {
+        codec: options.codec === 'h265' ? 'hevc' : 'avc',
+        width: configs.video.width,
+        height: configs.video.height,
+      },
+      { sampleRate: configs.audio.sampleRate, numberOfChannels: configs.audio.numberOfChannels }
+    );
+
+    const onError = (error: DOMException): void => {
+      this.failure = new Error(`Encoding failed: ${error.message}`);
+    };
+
+    this.videoEncoder = new VideoEncoder({
+      output: (chunk, metadata) => {
+        const description = metadata?.decoderConfig?.description;
+        if (description) {
+          this.muxer.setVideoDescription(WebCodecsEncoder.toBytes(description));
+        }
+        const data = new Uint8Array(chunk.byteLength);
+        chunk.copyTo(data);
+        this.muxer.addVideoSample(
+          data,
+          chunk.timestamp,
+          chunk.duration ?? 1e6 / options.fps,
+          chunk.type === 'key'
+        );
+      },
+      error: onError,
+    });
+    this.videoEncoder.configure(configs.video);
+
+    this.audioEncoder = new AudioEncoder({
+      output: (chunk, metadata) => {
+        const description = metadata?.decoderConfig?.description;
+        if (description) {
+          this.muxer.setAudioDescription(WebCodecsEncoder.toBytes(description));
+        }
+        const data = new Uint8Array(chunk.byteLength);
+        chunk.copyTo(data);
+        this.muxer.addAudioSample(data, chunk.timestamp, chunk.duration ?? 0);
+      },
+      error: onError,
+    });
+    this.audioEncoder.configure(configs.audio);
+  }
+
+  /**
+   * Check whether this browser can encode the export with WebCodecs
+   */
+  static async isSupported(
+    options: ExportOptions,
+    width: number,
+    height: number,
+    sampleRate: number
+  ): Promise<boolean> {
+    return (await WebCodecsEncoder.findConfigs(options, width, height, sampleRate)) !== null;
+  }
+
+  /**
+   * Create an encoder for the export
+   * @throws Error if WebCodecs cannot encode the requested codec/resolution
+   */
+  static async create(
+    options: ExportOptions,
+    width: number,
+    height: number,
+    sampleRate: number
+  ): Promise<WebCodecsEncoder> {
+    const configs = await WebCodecsEncoder.findConfigs(options, width, height, sampleRate);
+    if (!configs) {
+      throw new Error(`WebCodecs cannot encode ${options.codec} at ${width}x${height}`);
+    }
+    return new WebCodecsEncoder(options, configs);
+  }
+
+  /**
+   * Approximate the bitrate FFmpeg's CRF would produce (WebCodecs has no CRF):
+   * 0.1 bits per pixel at CRF 23, doubling every 6 CRF steps lower
+   */
+  static estimateBitrate(quality: number, width: number, height: number, fps: number): number {
+    const bitsPerPixel = 0.1 * Math.pow(2, (23 - quality) / 6);
+    return Math.round(width * height * fps * bitsPerPixel);
+  }
+
+  /**
+   * Parse an FFmpeg-style bitrate ('192k', '1M', '128000') into bits per second
+   */
+  static parseBitrate(bitrate: string): number {
+    const match = /^(\d+(?:\.\d+)?)\s*([kKmM]?)$/.exec(bitrate.trim());
+    if (!match) {
+      throw new Error(`Invalid audio bitrate: ${bitrate}`);
+    }
+    const unit = match[2].toLowerCase();
+    const multiplier = unit === 'k' ? 1e3 : unit === 'm' ? 1e6 : 1;
+    return Math.round(parseFloat(match[1]) * multiplier);
+  }
+
+  /**
+   * Encode the current canvas contents as frame `index` (waits if the encoder is behind)
+   */
+  async addFrame(canvas: HTMLCanvasElement, index: number): Promise<void> {
+    this.throwIfFailed();
+
+    while (this.videoEncoder.encodeQueueSize > WebCodecsEncoder.MAX_QUEUE_SIZE) {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      this.throwIfFailed();
+    }
+
+    const frameDuration = 1e6 / this.options.fps;
+    const frame = new VideoFrame(canvas, {
+      timestamp: Math.round(index * frameDuration),
+      duration: Math.round(frameDuration),
+    });
+    const keyInterval = Math.max(
+      1,
+      Math.round(this.options.fps * WebCodecsEncoder.KEYFRAME_INTERVAL)
+    );
+    this.videoEncoder.encode(frame, { keyFrame: index % keyInterval === 0 });
+    frame.close();
+  }
+
+  /**
+   * Encode the mixed audio (stereo AudioBuffer at the configured sample rate)
+   */
+  addAudio(buffer: AudioBuffer): void {
+    this.throwIfFailed();
+
+    const blockSize = 4096;
+    const numberOfChannels = buffer.numberOfChannels;
+
+    for (let start = 0; start < buffer.length; start += blockSize) {
+      const numberOfFrames = Math.min(blockSize, buffer.length - start);
+
+      // Planar layout: each channel's block back to back
+      const data = new Float32Array(numberOfFrames * numberOfChannels);
+      for (let channel = 0; channel < numberOfChannels; channel++) {
+        data.set(
+          buffer.getChannelData(channel).subarray(start, start + numberOfFrames),
+          channel * numberOfFrames
+        );
+      }
+
+      const audioData = new AudioData({
+        format: 'f32-planar',
+        sampleRate: this.sampleRate,
+        numberOfFrames,
+        numberOfChannels,
+        timestamp: Math.round((start / this.sampleRate) * 1e6),
+        data,
+      });
+      this.audioEncoder.encode(audioData);
+      audioData.close();
+    }
+  }
+
+  /**
+   * Flush both encoders and mux the result
+   */
+  async finish(): Promise<Blob> {
+    await Promise.all([this.videoEncoder.flush(), this.audioEncoder.flush()]);
+    this.throwIfFailed();
+    this.close();
+    return this.muxer.finalize();
+  }
+
+  /**
+   * Release the encoders (safe to call more than once)
+   */
+  close(): void {
+    for (const encoder of [this.videoEncoder, this.audioEncoder]) {
+      if (encoder.state !== 'closed') {
+        encoder.close();
+      }
+    }
+  }
+
+  private static async findConfigs(
+    options: ExportOptions,
+    width: number,
+    height: number,
+    sampleRate: number
+  ): Promise<EncoderConfigs | null> {
+    const candidates = WebCodecsEncoder.VIDEO_CODECS[options.codec];
+    if (
+      options.format !== 'mp4' ||
+      !candidates ||
+      typeof VideoEncoder === 'undefined' ||
+      typeof AudioEncoder === 'undefined' ||
+      typeof VideoFrame === 'undefined'
+    ) {
+      return null;
+    }
+
+    const audio: AudioEncoderConfig = {
+      codec: WebCodecsEncoder.AUDIO_CODEC,
+      sampleRate,
+      numberOfChannels: 2,
+      bitrate: WebCodecsEncoder.parseBitrate(options.audioBitrate),
+    };
+
+    try {
+      const audioSupport = await AudioEncoder.isConfigSupported(audio);
+      if (!audioSupport.supported) {
+        return null;
+      }
+
+      for (const codec of candidates) {
+        // Length-prefixed (MP4-style) bitstream so the muxer can store samples as-is
+        const video: EncoderConfig = {
+          codec,
+          width,
+          height,
+          framerate: options.fps,
+          bitrate: WebCodecsEncoder.estimateBitrate(options.quality, width, height, options.fps),
+          bitrateMode: 'variable',
+          ...(options.codec === 'h265' ? { hevc: { format: 'hevc' } } : { avc: { format: 'avc' } }),
+        };
+        const videoSupport = await VideoEncoder.isConfigSupported(video);
+        if (videoSupport.supported) {
+          return { video, audio };
+        }
+      }
+    } catch (error) {
+      console.warn('[Export] WebCodecs support check failed:', error);
+    }
+
+    return null;
+  }
+
+  private static toBytes(source: AllowSharedBufferSource): Uint8Array {
+    return ArrayBuffer.isView(source)
+      ? new Uint8Array(source.buffer, source.byteOffset, source.byteLength).slice()
+      : new Uint8Array(source).slice();
+  }
+
+  private throwIfFailed(): void {
+    if (this.failure) {
+      throw this.failure;
+    }
+  }
+}
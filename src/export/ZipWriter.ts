@@ -0,0 +1,119 @@
+interface ZipEntry {
+  name: Uint8Array;
+  crc: number;
+  size: number;
+  offset: number;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * Minimal ZIP archive writer (stored, no compression) for browser downloads of image
+ * sequences. Images are already compressed, and file contents stay as Blobs, so the
+ * browser can keep large archives out of memory. Archives are limited to 4 GB and
+ * 65535 files (no ZIP64).
+ */
+export class ZipWriter {
+  static readonly MAX_SIZE = 0xffffffff;
+  static readonly MAX_ENTRIES = 0xffff;
+
+  private parts: BlobPart[] = [];
+  private entries: ZipEntry[] = [];
+  private offset: number = 0;
+  private encoder = new TextEncoder();
+
+  /**
+   * Compute the CRC-32 of data (optionally continuing from a previous value)
+   */
+  static crc32(data: Uint8Array, crc: number = 0): number {
+    let c = ~crc >>> 0;
+    for (let i = 0; i < data.length; i++) {
+      c = CRC_TABLE[(c ^ data[i]) & 0xff] ^ (c >>> 8);
+    }
+    return ~c >>> 0;
+  }
+
+  /**
+   * Append a file to the archive
+   * @throws Error if the archive would exceed the ZIP size or file count limits
+   */
+  async addFile(name: string, data: Blob): Promise<void> {
+    const nameBytes = this.encoder.encode(name);
+    const crc = ZipWriter.crc32(new Uint8Array(await data.arrayBuffer()));
+    const header = new Uint8Array(30 + nameBytes.length);
+    const view = new DataView(header.buffer);
+
+    if (this.entries.length >= ZipWriter.MAX_ENTRIES) {
+      throw new Error(`ZIP archives are limited to ${ZipWriter.MAX_ENTRIES} files`);
+    }
+    if (this.offset + header.length + data.size > ZipWriter.MAX_SIZE) {
+      throw new Error('ZIP archive exceeds 4 GB; export a shorter range or lower resolution');
+    }
+
+    view.setUint32(0, 0x04034b50, true); // Local file header signature
+    view.setUint16(4, 20, true); // Version needed (2.0)
+    view.setUint16(6, 0x0800, true); // UTF-8 names
+    view.setUint16(8, 0, true); // Stored
+    view.setUint32(10, 0, true); // Modification time/date
+    view.setUint32(14, crc, true);
+    view.setUint32(18, data.size, true); // Compressed size
+    view.setUint32(22, data.size, true); // Uncompressed size
+    view.setUint16(26, nameBytes.length, true);
+    view.setUint16(28, 0, true); // Extra field length
+    header.set(nameBytes, 30);
+
+    this.entries.push({ name: nameBytes, crc, size: data.size, offset: this.offset });
+    this.parts.push(header, data);
+    this.offset += header.length + data.size;
+  }
+
+  /**
+   * Write the central directory and return the archive
+   */
+  finish(): Blob {
+    const directoryOffset = this.offset;
+    let directorySize = 0;
+
+    for (const entry of this.entries) {
+      const record = new Uint8Array(46 + entry.name.length);
+      const view = new DataView(record.buffer);
+      view.setUint32(0, 0x02014b50, true); // Central directory header signature
+      view.setUint16(4, 20, true); // Version made by
+      view.setUint16(6, 20, true); // Version needed
+      view.setUint16(8, 0x0800, true);
+      view.setUint16(10, 0, true);
+      view.setUint32(12, 0, true);
+      view.setUint32(16, entry.crc, true);
+      view.setUint32(20, entry.size, true);
+      view.setUint32(24, entry.size, true);
+      view.setUint16(28, entry.name.length, true);
+      // Extra, comment, disk number, internal/external attributes: 0
+      view.setUint32(42, entry.offset, true);
+      record.set(entry.name, 46);
+
+      this.parts.push(record);
+      directorySize += record.length;
+    }
+
+    const end = new Uint8Array(22);
+    const view = new DataView(end.buffer);
+    view.setUint32(0, 0x06054b50, true); // End of central directory signature
+    view.setUint16(8, this.entries.length, true); // Entries on this disk
+    view.setUint16(10, this.entries.length, true); // Total entries
+    view.setUint32(12, directorySize, true);
+    view.setUint32(16, directoryOffset, true);
+    this.parts.push(end);
+
+    return new Blob(this.parts, { type: 'application/zip' });
+  }
+}
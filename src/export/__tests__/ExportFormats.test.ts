@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest';
+import { ExportFormats } from '../ExportFormats';
+import type { ExportCodec, ExportFormat } from '../../types/audio.types';
+
+const INPUT = ['-framerate', '30', '-i', 'frames.png'];
+
+function encodeArgs(format: ExportFormat, codec: ExportCodec): string[] {
+  return ExportFormats.buildEncodeArgs(
+    { format, codec, quality: 23, audioBitrate: '192k' },
+    INPUT,
+    'audio.wav',
+    'out'
+  );
+}
+
+/**
+ * Value following an FFmpeg flag
+ */
+function argValue(args: string[], flag: string): string | undefined {
+  const index = args.indexOf(flag);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+describe('ExportFormats', () => {
+  describe('validate', () => {
+    it('should accept codecs their container can hold', () => {
+      expect(() => ExportFormats.validate('mp4', 'h265')).not.toThrow();
+      expect(() => ExportFormats.validate('webm', 'av1')).not.toThrow();
+      expect(() => ExportFormats.validate('mov', 'prores')).not.toThrow();
+    });
+
+    it('should reject unknown formats and mismatched codecs', () => {
+      expect(() => ExportFormats.validate('avi', 'h264')).toThrow('Invalid format');
+      expect(() => ExportFormats.validate('webm', 'h264')).toThrow('not supported in webm');
+      expect(() => ExportFormats.validate('gif', 'vp9')).toThrow('not supported in gif');
+    });
+  });
+
+  describe('validateTransparency', () => {
+    it('should accept alpha-capable codecs', () => {
+      for (const codec of ['vp9', 'prores', 'apng'] as ExportCodec[]) {
+        expect(() => ExportFormats.validateTransparency({ codec })).not.toThrow();
+      }
+    });
+
+    it('should reject codecs without alpha', () => {
+      for (const codec of ['h264', 'h265', 'av1', 'gif'] as ExportCodec[]) {
+        expect(() => ExportFormats.validateTransparency({ codec })).toThrow('no alpha channel');
+      }
+    });
+
+    it('should check the image format for image sequences', () => {
+      expect(() =>
+        ExportFormats.validateTransparency({ codec: 'h264', imageSequence: 'png' })
+      ).not.toThrow();
+      expect(() =>
+        ExportFormats.validateTransparency({ codec: 'h264', imageSequence: 'jpeg' })
+      ).toThrow('no alpha channel');
+    });
+  });
+
+  describe('image sequences', () => {
+    it('should name frames with zero-padded indices', () => {
+      expect(ExportFormats.sequenceFrameName(42, 'png')).toBe('frame_000042.png');
+      expect(ExportFormats.sequenceFrameName(0, 'jpeg')).toBe('frame_000000.jpg');
+    });
+
+    it('should reject unknown image formats', () => {
+      expect(() => ExportFormats.validateImageSequence('webp')).not.toThrow();
+      expect(() => ExportFormats.validateImageSequence('tiff')).toThrow(
+        'Invalid image sequence format'
+      );
+    });
+  });
+
+  it('should find the format for an output path', () => {
+    expect(ExportFormats.formatForPath('out/clip.WEBM')).toBe('webm');
+    expect(ExportFormats.formatForPath('preview.png')).toBe('apng');
+    expect(ExportFormats.formatForPath('video.avi')).toBeNull();
+    expect(ExportFormats.formatForPath('video')).toBeNull();
+  });
+
+  describe('buildEncodeArgs', () => {
+    it('should encode MP4 with x264/x265 and AAC', () => {
+      const args = encodeArgs('mp4', 'h265');
+
+      expect(argValue(args, '-c:v')).toBe('libx265');
+      expect(argValue(args, '-c:a')).toBe('aac');
+      expect(argValue(args, '-b:a')).toBe('192k');
+      expect(args.slice(-3)).toEqual(['-f', 'mp4', 'out']);
+    });
+
+    it('should encode WebM with VP9 or AV1 and Opus at 48 kHz', () => {
+      const vp9 = encodeArgs('webm', 'vp9');
+      const av1 = encodeArgs('webm', 'av1');
+
+      expect(argValue(vp9, '-c:v')).toBe('libvpx-vp9');
+      expect(argValue(vp9, '-b:v')).toBe('0');
+      expect(argValue(av1, '-c:v')).toBe('libaom-av1');
+      expect(argValue(vp9, '-c:a')).toBe('libopus');
+      expect(argValue(vp9, '-ar')).toBe('48000');
+      expect(argValue(vp9, '-f')).toBe('webm');
+    });
+
+    it('should encode MOV as ProRes 4444 with PCM audio', () => {
+      const args = encodeArgs('mov', 'prores');
+
+      expect(argValue(args, '-c:v')).toBe('prores_ks');
+      expect(argValue(args, '-profile:v')).toBe('4444');
+      expect(argValue(args, '-c:a')).toBe('pcm_s16le');
+    });
+
+    it('should keep the alpha channel for transparent backgrounds', () => {
+      const options = { quality: 23, audioBitrate: '192k', transparentBackground: true };
+      const vp9 = ExportFormats.buildEncodeArgs(
+        { ...options, format: 'webm', codec: 'vp9' },
+        INPUT,
+        'audio.wav',
+        'out'
+      );
+      const prores = ExportFormats.buildEncodeArgs(
+        { ...options, format: 'mov', codec: 'prores' },
+        INPUT,
+        'audio.wav',
+        'out'
+      );
+
+      expect(argValue(vp9, '-pix_fmt')).toBe('yuva420p');
+      expect(argValue(vp9, '-auto-alt-ref')).toBe('0');
+      expect(argValue(prores, '-pix_fmt')).toBe('yuva444p10le');
+      expect(argValue(encodeArgs('mov', 'prores'), '-pix_fmt')).toBe('yuv444p10le');
+    });
+
+    it('should encode GIF through a palette without audio', () => {
+      const args = encodeArgs('gif', 'gif');
+
+      expect(args).not.toContain('audio.wav');
+      expect(args).toContain('-an');
+      expect(argValue(args, '-filter_complex')).toContain('palettegen');
+      expect(argValue(args, '-loop')).toBe('0');
+    });
+
+    it('should encode APNG without audio', () => {
+      const args = encodeArgs('apng', 'apng');
+
+      expect(args).not.toContain('audio.wav');
+      expect(argValue(args, '-c:v')).toBe('apng');
+      expect(args.slice(-3)).toEqual(['-f', 'apng', 'out']);
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { existsSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { FFmpegCoreConfig } from '../FFmpegCoreConfig';
+
+const PAGE = 'http://localhost:3000/index.html';
+const BUNDLED = {
+  coreURL: '/assets/ffmpeg-core-abc123.js',
+  wasmURL: '/assets/ffmpeg-core-def456.wasm',
+};
+
+describe('FFmpegCoreConfig', () => {
+  describe('getSources', () => {
+    it('should default to the bundled core only', () => {
+      const sources = FFmpegCoreConfig.getSources({ BASE_URL: '/' }, PAGE, BUNDLED);
+
+      expect(sources).toEqual([
+        {
+          name: 'bundled',
+          coreURL: 'http://localhost:3000/assets/ffmpeg-core-abc123.js',
+          wasmURL: 'http://localhost:3000/assets/ffmpeg-core-def456.wasm',
+        },
+      ]);
+    });
+
+    it('should bundle the ESM build of the installed core', () => {
+      const [bundled] = FFmpegCoreConfig.getSources({ BASE_URL: '/' }, PAGE);
+
+      // Vite serves files of the project root at their path from the root
+      const corePath = join(process.cwd(), new URL(bundled.coreURL).pathname);
+      const wasmPath = join(process.cwd(), new URL(bundled.wasmURL).pathname);
+      expect(existsSync(corePath)).toBe(true);
+      expect(existsSync(wasmPath)).toBe(true);
+      expect(corePath).toMatch(/@ffmpeg[\\/]core[\\/]dist[\\/]esm[\\/]ffmpeg-core\.js$/);
+      expect(readFileSync(corePath, 'utf8')).toContain('export default');
+    });
+
+    it('should use a configured core URL', () => {
+      const [local] = FFmpegCoreConfig.getSources(
+        { BASE_URL: '/', VITE_FFMPEG_CORE_URL: 'https://assets.example.com/ffmpeg/' },
+        PAGE,
+        BUNDLED
+      );
+
+      expect(local.coreURL).toBe('https://assets.example.com/ffmpeg/ffmpeg-core.js');
+      expect(local.wasmURL).toBe('https://assets.example.com/ffmpeg/ffmpeg-core.wasm');
+    });
+
+    it('should add the CDN after the local core only when configured', () => {
+      const sources = FFmpegCoreConfig.getSources(
+        {
+          BASE_URL: '/',
+          VITE_FFMPEG_CDN_URL: 'https://cdn.jsdelivr.net/npm/@ffmpeg/core@0.12.10/dist/esm',
+        },
+        PAGE,
+        BUNDLED
+      );
+
+      expect(sources.map((s) => s.name)).toEqual(['bundled', 'CDN']);
+      expect(sources[1].coreURL).toBe(
+        'https://cdn.jsdelivr.net/npm/@ffmpeg/core@0.12.10/dist/esm/ffmpeg-core.js'
+      );
+    });
+  });
+
+  it('should list every failed source in the error message', () => {
+    const message = FFmpegCoreConfig.describeFailure(['bundled: not found', 'CDN: offline']);
+
+    expect(message).toContain('- bundled: not found\n- CDN: offline');
+    expect(message).toContain('VITE_FFMPEG_CORE_URL');
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import { FrameStreamer, type StreamSettings } from '../FrameStreamer';
+
+interface PostedMessage {
+  type: string;
+  data?: { frameCount?: number };
+}
+
+/**
+ * Minimal Worker stand-in that records posted messages
+ */
+class FakeWorker {
+  public onmessage: ((e: { data: unknown }) => void) | null = null;
+  public messages: PostedMessage[] = [];
+
+  postMessage(message: PostedMessage): void {
+    this.messages.push(message);
+  }
+
+  reply(data: unknown): void {
+    this.onmessage?.({ data });
+  }
+
+  chunks(): number[] {
+    return this.messages.filter((m) => m.type === 'chunk').map((m) => m.data!.frameCount!);
+  }
+}
+
+const SIZE = { width: 4, height: 2 };
+const FRAME_BYTES = SIZE.width * SIZE.height * 4;
+const SETTINGS: StreamSettings = {
+  fps: 30,
+  format: 'mp4',
+  codec: 'h264',
+  quality: 23,
+  audioBitrate: '192k',
+  transparentBackground: false,
+  ...SIZE,
+};
+
+function createStreamer(
+  worker: FakeWorker,
+  totalFrames: number,
+  framesPerChunk: number = 1
+): FrameStreamer {
+  return new FrameStreamer(
+    worker as unknown as Worker,
+    SETTINGS,
+    totalFrames,
+    new ArrayBuffer(8),
+    () => undefined,
+    () => undefined,
+    FRAME_BYTES * framesPerChunk
+  );
+}
+
+function frame(): Uint8ClampedArray {
+  return new Uint8ClampedArray(FRAME_BYTES);
+}
+
+describe('FrameStreamer', () => {
+  it('should send start settings with the audio', () => {
+    const worker = new FakeWorker();
+    createStreamer(worker, 1);
+
+    expect(worker.messages[0].type).toBe('start');
+  });
+
+  it('should group frames into chunks and size the last chunk to the remaining frames', async () => {
+    const worker = new FakeWorker();
+    const streamer = createStreamer(worker, 7, 3);
+
+    for (let i = 0; i < 7; i++) {
+      const sent = worker.chunks().length;
+      await streamer.addFrame(frame());
+      if (worker.chunks().length > sent) {
+        worker.reply({ type: 'chunkencoded', framesEncoded: i + 1 });
+      }
+    }
+
+    expect(worker.chunks()).toEqual([3, 3, 1]);
+  });
+
+  it('should wait for the worker once MAX_PENDING_CHUNKS chunks are in flight', async () => {
+    const worker = new FakeWorker();
+    const streamer = createStreamer(worker, 4);
+
+    for (let i = 0; i < FrameStreamer.MAX_PENDING_CHUNKS; i++) {
+      await streamer.addFrame(frame());
+    }
+
+    let sent = false;
+    const pending = streamer.addFrame(frame()).then(() => {
+      sent = true;
+    });
+    await Promise.resolve();
+
+    expect(sent).toBe(false);
+    expect(worker.chunks()).toHaveLength(FrameStreamer.MAX_PENDING_CHUNKS);
+
+    worker.reply({ type: 'chunkencoded', framesEncoded: 1 });
+    await pending;
+
+    expect(sent).toBe(true);
+    expect(worker.chunks()).toHaveLength(FrameStreamer.MAX_PENDING_CHUNKS + 1);
+  });
+
+  it('should resolve with the encoded video on finish', async () => {
+    const worker = new FakeWorker();
+    const streamer = createStreamer(worker, 1);
+    await streamer.addFrame(frame());
+
+    const result = streamer.finish();
+    worker.reply({ type: 'complete', data: new Uint8Array([1, 2, 3]) });
+    const blob = await result;
+
+    expect(worker.messages.at(-1)!.type).toBe('finish');
+    expect(blob.size).toBe(3);
+    expect(blob.type).toBe('video/mp4');
+  });
+
+  it('should surface worker errors', async () => {
+    const worker = new FakeWorker();
+    const streamer = createStreamer(worker, 2);
+
+    worker.reply({ type: 'error', error: 'encode failed' });
+
+    await expect(streamer.addFrame(frame())).rejects.toThrow('encode failed');
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import { Mp4Muxer } from '../Mp4Muxer';
+
+interface Mp4Box {
+  type: string;
+  start: number; // Offset of the payload
+  end: number;
+}
+
+/**
+ * List the boxes between start and end (top level of a container payload)
+ */
+function readBoxes(view: DataView, start: number, end: number): Mp4Box[] {
+  const boxes: Mp4Box[] = [];
+  let offset = start;
+  while (offset < end) {
+    let size = view.getUint32(offset);
+    const type = String.fromCharCode(
+      ...new Uint8Array(view.buffer, view.byteOffset + offset + 4, 4)
+    );
+    let header = 8;
+    if (size === 1) {
+      size = Number(view.getBigUint64(offset + 8));
+      header = 16;
+    }
+    boxes.push({ type, start: offset + header, end: offset + size });
+    offset += size;
+  }
+  return boxes;
+}
+
+/**
+ * Find a box by path (e.g. ['moov', 'trak']), returning every match of the last element
+ */
+function findBoxes(view: DataView, path: string[]): Mp4Box[] {
+  let current: Mp4Box[] = [{ type: '', start: 0, end: view.byteLength }];
+  for (const type of path) {
+    current = current.flatMap((parent) =>
+      readBoxes(view, parent.start, parent.end).filter((b) => b.type === type)
+    );
+  }
+  return current;
+}
+
+async function mux(audio: boolean): Promise<DataView> {
+  const muxer = new Mp4Muxer(
+    { codec: 'avc', width: 64, height: 32 },
+    audio ? { sampleRate: 48000, numberOfChannels: 2 } : null
+  );
+  muxer.setVideoDescription(new Uint8Array([1, 0x64, 0, 0x1f]));
+  for (let i = 0; i < 3; i++) {
+    muxer.addVideoSample(new Uint8Array(10 + i).fill(0xa0 + i), i * 40000, 40000, i === 0);
+  }
+  if (audio) {
+    for (let i = 0; i < 4; i++) {
+      const duration = (1024 / 48000) * 1e6;
+      muxer.addAudioSample(new Uint8Array(5).fill(0xb0 + i), i * duration, duration);
+    }
+  }
+  const blob = muxer.finalize();
+  return new DataView(await blob.arrayBuffer());
+}
+
+describe('Mp4Muxer', () => {
+  it('should write ftyp, mdat and moov at the top level', async () => {
+    const view = await mux(true);
+
+    expect(readBoxes(view, 0, view.byteLength).map((b) => b.type)).toEqual([
+      'ftyp',
+      'mdat',
+      'moov',
+    ]);
+    expect(findBoxes(view, ['moov', 'trak'])).toHaveLength(2);
+  });
+
+  it('should record sample sizes and offsets that point at the sample data', async () => {
+    const view = await mux(true);
+    const stbls = findBoxes(view, ['moov', 'trak', 'mdia', 'minf', 'stbl']);
+
+    const fills = [0xa0, 0xb0];
+    stbls.forEach((stbl, track) => {
+      const children = readBoxes(view, stbl.start, stbl.end);
+      const stsz = children.find((b) => b.type === 'stsz')!;
+      const stco = children.find((b) => b.type === 'stco')!;
+
+      const count = view.getUint32(stsz.start + 8);
+      expect(view.getUint32(stco.start + 4)).toBe(count);
+      expect(count).toBe(track === 0 ? 3 : 4);
+
+      for (let i = 0; i < count; i++) {
+        const size = view.getUint32(stsz.start + 12 + i * 4);
+        const offset = view.getUint32(stco.start + 8 + i * 4);
+        expect(size).toBe(track === 0 ? 10 + i : 5);
+        expect(view.getUint8(offset)).toBe(fills[track] + i);
+        expect(view.getUint8(offset + size - 1)).toBe(fills[track] + i);
+      }
+    });
+  });
+
+  it('should mark keyframes in stss', async () => {
+    const view = await mux(false);
+    const [stss] = findBoxes(view, ['moov', 'trak', 'mdia', 'minf', 'stbl', 'stss']);
+
+    expect(view.getUint32(stss.start + 4)).toBe(1);
+    expect(view.getUint32(stss.start + 8)).toBe(1);
+  });
+
+  it('should write no edit list when frames are in presentation order', async () => {
+    const view = await mux(true);
+
+    expect(findBoxes(view, ['moov', 'trak', 'edts'])).toHaveLength(0);
+  });
+
+  it('should skip the decode delay of reordered frames with an edit list', async () => {
+    const muxer = new Mp4Muxer({ codec: 'avc', width: 64, height: 32 });
+    muxer.setVideoDescription(new Uint8Array([1, 0x64, 0, 0x1f]));
+    // I P B in decode order: the B frame is presented between I and P
+    muxer.addVideoSample(new Uint8Array(4), 0, 40000, true);
+    muxer.addVideoSample(new Uint8Array(4), 80000, 40000, false);
+    muxer.addVideoSample(new Uint8Array(4), 40000, 40000, false);
+    const view = new DataView(await muxer.finalize().arrayBuffer());
+
+    const [elst] = findBoxes(view, ['moov', 'trak', 'edts', 'elst']);
+    expect(view.getUint32(elst.start + 4)).toBe(1); // entry count
+    expect(view.getUint32(elst.start + 8)).toBe(120); // segment duration (ms)
+    expect(view.getInt32(elst.start + 12)).toBe(3600); // media time: one frame at 90 kHz
+    expect(view.getUint16(elst.start + 16)).toBe(1); // rate
+
+    // The first frame's composition time (decode time 0 + its ctts offset) is the media time
+    const [ctts] = findBoxes(view, ['moov', 'trak', 'mdia', 'minf', 'stbl', 'ctts']);
+    expect(view.getInt32(ctts.start + 12)).toBe(3600);
+  });
+
+  it('should require the video decoder configuration', () => {
+    const muxer = new Mp4Muxer({ codec: 'avc', width: 64, height: 32 });
+    muxer.addVideoSample(new Uint8Array(4), 0, 40000, true);
+
+    expect(() => muxer.finalize()).toThrow('Missing video decoder configuration');
+  });
+
+  it('should build AAC-LC AudioSpecificConfig', () => {
+    expect(Array.from(Mp4Muxer.createAudioSpecificConfig(44100, 2))).toEqual([0x12, 0x10]);
+    expect(Array.from(Mp4Muxer.createAudioSpecificConfig(48000, 2))).toEqual([0x11, 0x90]);
+    expect(() => Mp4Muxer.createAudioSpecificConfig(12345, 2)).toThrow('Unsupported');
+  });
+});
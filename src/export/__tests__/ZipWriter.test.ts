@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { ZipWriter } from '../ZipWriter';
+
+interface ZipListing {
+  name: string;
+  crc: number;
+  data: Uint8Array;
+}
+
+/**
+ * Read the archive through its central directory
+ */
+function listZip(buffer: ArrayBuffer): ZipListing[] {
+  const view = new DataView(buffer);
+  const endOffset = buffer.byteLength - 22;
+  expect(view.getUint32(endOffset, true)).toBe(0x06054b50);
+
+  const count = view.getUint16(endOffset + 10, true);
+  let offset = view.getUint32(endOffset + 16, true);
+  const decoder = new TextDecoder();
+  const entries: ZipListing[] = [];
+
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(offset, true)).toBe(0x02014b50);
+    const crc = view.getUint32(offset + 16, true);
+    const size = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const name = decoder.decode(new Uint8Array(buffer, offset + 46, nameLength));
+    const localOffset = view.getUint32(offset + 42, true);
+
+    expect(view.getUint32(localOffset, true)).toBe(0x04034b50);
+    const localNameLength = view.getUint16(localOffset + 26, true);
+    const dataOffset = localOffset + 30 + localNameLength;
+    entries.push({ name, crc, data: new Uint8Array(buffer, dataOffset, size) });
+
+    offset += 46 + nameLength;
+  }
+  return entries;
+}
+
+describe('ZipWriter', () => {
+  it('should compute CRC-32', () => {
+    const bytes = new TextEncoder().encode('hello');
+    expect(ZipWriter.crc32(bytes)).toBe(0x3610a686);
+    expect(ZipWriter.crc32(new Uint8Array(0))).toBe(0);
+  });
+
+  it('should store files that can be read back', async () => {
+    const zip = new ZipWriter();
+    await zip.addFile('audio.wav', new Blob([new Uint8Array([1, 2, 3])]));
+    await zip.addFile('frame_000000.png', new Blob(['png data']));
+
+    const archive = zip.finish();
+    const entries = listZip(await archive.arrayBuffer());
+
+    expect(archive.type).toBe('application/zip');
+    expect(entries.map((e) => e.name)).toEqual(['audio.wav', 'frame_000000.png']);
+    expect(Array.from(entries[0].data)).toEqual([1, 2, 3]);
+    expect(new TextDecoder().decode(entries[1].data)).toBe('png data');
+    for (const entry of entries) {
+      expect(entry.crc).toBe(ZipWriter.crc32(entry.data));
+    }
+  });
+
+  it('should write a valid empty archive', async () => {
+    const buffer = await new ZipWriter().finish().arrayBuffer();
+
+    expect(buffer.byteLength).toBe(22);
+    expect(listZip(buffer)).toEqual([]);
+  });
+});
@@ -1,215 +1,284 @@
 import { FFmpeg } from '@ffmpeg/ffmpeg';
-import { fetchFile, toBlobURL } from '@ffmpeg/util';
+import { FFmpegCoreConfig, type FFmpegCoreSource } from './FFmpegCoreConfig';
+import { ExportFormats } from './ExportFormats';
+import type { EncodeSettings, ExportWorkerReply, ExportWorkerRequest } from './FrameStreamer';
+import type { ExportFormat } from '../types/audio.types';
 
 let ffmpeg: FFmpeg | null = null;
 
-self.onmessage = async (e) => {
-  const { type, data } = e.data;
+// Frames arrive in chunks of raw RGBA pixels. Each chunk is encoded to its own segment
+// and dropped, so only compressed video accumulates; 'finish' concatenates the segments
+// and muxes in the audio.
+//
+// Segments use a container that concatenates cleanly for each format. GIF and APNG
+// segments are stored losslessly (QuickTime RLE) and encoded once at the end, since GIF
+// needs a single palette built from the whole clip.
+const SEGMENT_EXTENSIONS: Record<ExportFormat, string> = {
+  mp4: 'ts',
+  webm: 'webm',
+  mov: 'mov',
+  gif: 'mov',
+  apng: 'mov',
+};
+
+let settings: EncodeSettings | null = null;
+let segmentCount = 0;
+let framesEncoded = 0;
 
+// FFmpeg runs one command at a time, so messages are handled strictly in order
+let queue: Promise<void> = Promise.resolve();
+
+self.onmessage = (e: MessageEvent<ExportWorkerRequest>) => {
+  const request = e.data;
+  queue = queue.then(() => handleMessage(request));
+};
+
+async function handleMessage(request: ExportWorkerRequest): Promise<void> {
   try {
-    console.log('[Worker] Received message:', type);
-    switch (type) {
+    console.log('[Worker] Received message:', request.type);
+    switch (request.type) {
       case 'init':
         console.log('[Worker] Initializing FFmpeg...');
-        await initFFmpeg();
+        await initFFmpeg(request.data.sources);
         console.log('[Worker] FFmpeg initialized successfully');
-        self.postMessage({ type: 'ready' });
+        reply({ type: 'ready' });
         break;
 
-      case 'export':
-        console.log('[Worker] Starting export with data:', {
-          framesCount: data.frames?.length,
+      case 'start': {
+        const { data } = request;
+        console.log('[Worker] Starting export with settings:', {
+          audioDataSize: data.audioData.byteLength,
           fps: data.fps,
+          format: data.format,
           codec: data.codec,
           quality: data.quality,
           audioBitrate: data.audioBitrate,
+          transparentBackground: data.transparentBackground,
+          width: data.width,
+          height: data.height,
         });
-        await exportVideo(data);
+        await startExport(data);
+        break;
+      }
+
+      case 'chunk':
+        await encodeChunk(request.data);
+        break;
+
+      case 'finish':
+        await finishExport();
         console.log('[Worker] Export completed');
         break;
 
       default:
-        throw new Error(`Unknown message type: ${type}`);
+        throw new Error(`Unknown message type: ${(request as { type: string }).type}`);
     }
   } catch (error) {
     console.error('[Worker] Error occurred:', error);
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     const errorStack = error instanceof Error ? error.stack : '';
     console.error('[Worker] Error stack:', errorStack);
-    self.postMessage({
-      type: 'error',
-      error: errorMessage,
-    });
+    reply({ type: 'error', error: errorMessage });
   }
-};
+}
+
+function ownsArrayBuffer(data: Uint8Array): data is Uint8Array<ArrayBuffer> {
+  return data.buffer instanceof ArrayBuffer;
+}
+
+function reply(message: ExportWorkerReply, transfer: Transferable[] = []): void {
+  self.postMessage(message, { transfer });
+}
 
-async function initFFmpeg(): Promise<void> {
+async function initFFmpeg(sources: FFmpegCoreSource[]): Promise<void> {
   if (ffmpeg) {
     return;
   }
 
-  ffmpeg = new FFmpeg();
-
-  // Load FFmpeg from CDN (jsdelivr serves with proper CORS headers for COOP/COEP)
-  // Using version 0.12.10 to match our @ffmpeg/ffmpeg package version
-  const baseURL = 'https://cdn.jsdelivr.net/npm/@ffmpeg/core@0.12.10/dist/esm';
-
-  console.log('[Worker] Loading FFmpeg from CDN...');
-  const coreURL = `${baseURL}/ffmpeg-core.js`;
-  const wasmURL = `${baseURL}/ffmpeg-core.wasm`;
-
-  console.log('[Worker] Core URL:', coreURL);
-  console.log('[Worker] WASM URL:', wasmURL);
+  // Try each configured location in order (self-hosted first, CDN only if configured)
+  const failures: string[] = [];
+  for (const source of sources) {
+    console.log(`[Worker] Loading FFmpeg core (${source.name}):`, source.coreURL);
+    const instance = new FFmpeg();
+    try {
+      await instance.load({
+        coreURL: await toCoreBlobURL(source.coreURL, 'text/javascript'),
+        wasmURL: await toCoreBlobURL(source.wasmURL, 'application/wasm'),
+      });
+      ffmpeg = instance;
+      break;
+    } catch (error) {
+      instance.terminate();
+      const reason = error instanceof Error ? error.message : String(error);
+      console.warn(`[Worker] Failed to load FFmpeg core (${source.name}):`, reason);
+      failures.push(`${source.name} (${source.coreURL}): ${reason}`);
+    }
+  }
 
-  await ffmpeg.load({
-    coreURL,
-    wasmURL,
-  });
+  if (!ffmpeg) {
+    throw new Error(FFmpegCoreConfig.describeFailure(failures));
+  }
 
   console.log('[Worker] FFmpeg loaded and ready!');
 
-  // Listen to progress
-  ffmpeg.on('progress', ({ progress }) => {
-    self.postMessage({
-      type: 'progress',
-      progress: progress * 100,
-    });
-  });
-
   ffmpeg.on('log', ({ message }) => {
     console.log('[FFmpeg]', message);
   });
 }
 
-async function exportVideo(data: {
-  frames: string[]; // Base64 data URLs
-  audioData: ArrayBuffer;
-  fps: number;
-  codec: string;
-  quality: number;
-  audioBitrate: string;
-}): Promise<void> {
-  if (!ffmpeg) {
-    throw new Error('FFmpeg not initialized');
+/**
+ * Fetch a core file into a blob URL, failing clearly on missing files
+ */
+async function toCoreBlobURL(url: string, mimeType: string): Promise<string> {
+  const response = await fetch(url);
+  // The dev server answers unknown paths with index.html, so check the type as well
+  if (!response.ok || response.headers.get('content-type')?.includes('text/html')) {
+    throw new Error(`${url} not found (HTTP ${response.status})`);
   }
+  const blob = new Blob([await response.arrayBuffer()], { type: mimeType });
+  return URL.createObjectURL(blob);
+}
 
-  const { frames, audioData, fps, codec, quality, audioBitrate } = data;
+function segmentName(index: number, format: ExportFormat): string {
+  return `segment${index.toString().padStart(5, '0')}.${SEGMENT_EXTENSIONS[format]}`;
+}
 
-  console.log('[Worker] Export parameters:', {
-    framesCount: frames.length,
-    audioDataSize: audioData.byteLength,
-    fps,
-    codec,
-    quality,
-    audioBitrate,
-  });
+/**
+ * Whether segments are an intermediate that is re-encoded when the export finishes
+ */
+function encodesOnFinish(format: ExportFormat): boolean {
+  return format === 'gif' || format === 'apng';
+}
 
-  self.postMessage({ type: 'status', message: 'Writing frames...' });
-  console.log('[Worker] Writing', frames.length, 'frames to FFmpeg filesystem...');
-
-  // Write frames to virtual filesystem
-  for (let i = 0; i < frames.length; i++) {
-    const frameData = frames[i].split(',')[1]; // Remove data URL prefix
-    const blob = await fetch(`data:image/png;base64,${frameData}`).then((r) => r.blob());
-    const fileName = `frame${i.toString().padStart(5, '0')}.png`;
-    await ffmpeg.writeFile(fileName, await fetchFile(blob));
-
-    if (i % 10 === 0) {
-      console.log(`[Worker] Wrote frame ${i + 1}/${frames.length}`);
-      self.postMessage({
-        type: 'progress',
-        progress: (i / frames.length) * 30, // First 30% is writing frames
-      });
-    }
+async function startExport(data: EncodeSettings): Promise<void> {
+  if (!ffmpeg) {
+    throw new Error('FFmpeg not initialized');
   }
 
-  console.log('[Worker] All frames written successfully');
-  self.postMessage({ type: 'status', message: 'Writing audio...' });
+  settings = data;
+  segmentCount = 0;
+  framesEncoded = 0;
 
-  // Write audio file
-  console.log('[Worker] Writing audio file, size:', audioData.byteLength, 'bytes');
-  await ffmpeg.writeFile('audio.wav', new Uint8Array(audioData));
+  // Write audio file (muxed in when the export finishes)
+  console.log('[Worker] Writing audio file, size:', data.audioData.byteLength, 'bytes');
+  await ffmpeg.writeFile('audio.wav', new Uint8Array(data.audioData));
   console.log('[Worker] Audio file written successfully');
+}
 
-  self.postMessage({ type: 'status', message: 'Encoding video...' });
+/**
+ * Encode one chunk of raw RGBA frames to the next video segment
+ */
+async function encodeChunk(data: { frames: ArrayBuffer; frameCount: number }): Promise<void> {
+  if (!ffmpeg || !settings) {
+    throw new Error('Export not started');
+  }
 
-  // Encode video
-  const videoCodec = codec === 'h265' ? 'libx265' : 'libx264';
-  const crf = quality.toString();
+  const { fps, format, codec, quality, width, height } = settings;
+  const { frames, frameCount } = data;
 
-  const ffmpegArgs = [
+  await ffmpeg.writeFile('chunk.rgba', new Uint8Array(frames, 0, frameCount * width * height * 4));
+
+  const segment = segmentName(segmentCount, format);
+  const exitCode = await ffmpeg.exec([
+    '-f',
+    'rawvideo',
+    '-pix_fmt',
+    'rgba',
+    '-s',
+    `${width}x${height}`,
     '-framerate',
     fps.toString(),
     '-i',
-    'frame%05d.png',
-    '-i',
-    'audio.wav',
-    '-c:v',
-    videoCodec,
-    '-preset',
-    'medium',
-    '-crf',
-    crf,
-    '-vf',
-    'scale=1920:1080',
-    '-c:a',
-    'aac',
-    '-b:a',
-    audioBitrate,
-    '-pix_fmt',
-    'yuv420p',
-    '-shortest',
-    'output.mp4',
-  ];
+    'chunk.rgba',
+    ...(encodesOnFinish(format)
+      ? ['-c:v', 'qtrle', '-pix_fmt', 'argb']
+      : ExportFormats.videoCodecArgs(codec, quality, settings.transparentBackground)),
+    segment,
+  ]);
+  await ffmpeg.deleteFile('chunk.rgba');
+
+  if (exitCode !== 0) {
+    throw new Error(`FFmpeg failed to encode ${segment} (exit code ${exitCode})`);
+  }
 
-  console.log('[Worker] Running FFmpeg with args:', ffmpegArgs.join(' '));
-  await ffmpeg.exec(ffmpegArgs);
-  console.log('[Worker] FFmpeg encoding completed successfully');
+  segmentCount++;
+  framesEncoded += frameCount;
+  console.log(`[Worker] Encoded ${segment} (${framesEncoded} frames total)`);
+
+  reply({ type: 'chunkencoded', framesEncoded });
+}
+
+/**
+ * Concatenate the encoded segments, mux in the audio and send the result
+ */
+async function finishExport(): Promise<void> {
+  if (!ffmpeg || !settings) {
+    throw new Error('Export not started');
+  }
 
-  self.postMessage({ type: 'status', message: 'Reading output...' });
+  reply({ type: 'status', message: 'Finalizing video...' });
+
+  const { format } = settings;
+  const segments = Array.from({ length: segmentCount }, (_, i) => segmentName(i, format));
+  await ffmpeg.writeFile('segments.txt', segments.map((name) => `file '${name}'`).join('\n'));
+
+  const output = `output.${ExportFormats.FORMATS[format].extension}`;
+  const concatInput = ['-f', 'concat', '-safe', '0', '-i', 'segments.txt'];
+  const ffmpegArgs = encodesOnFinish(format)
+    ? ExportFormats.buildEncodeArgs(settings, concatInput, 'audio.wav', output)
+    : [
+        ...concatInput,
+        '-i',
+        'audio.wav',
+        '-map',
+        '0:v',
+        '-map',
+        '1:a',
+        '-c:v',
+        'copy',
+        ...ExportFormats.audioCodecArgs(format, settings.audioBitrate),
+        '-shortest',
+        '-f',
+        ExportFormats.FORMATS[format].muxer,
+        output,
+      ];
+
+  console.log('[Worker] Running FFmpeg with args:', ffmpegArgs.join(' '));
+  const exitCode = await ffmpeg.exec(ffmpegArgs);
+  if (exitCode !== 0) {
+    throw new Error(`FFmpeg failed to finalize the video (exit code ${exitCode})`);
+  }
+  console.log('[Worker] FFmpeg muxing completed successfully');
 
   // Read output file
-  console.log('[Worker] Reading output.mp4...');
-  const outputData = await ffmpeg.readFile('output.mp4');
+  console.log(`[Worker] Reading ${output}...`);
+  const outputData = await ffmpeg.readFile(output);
   const outputSize = outputData instanceof Uint8Array ? outputData.byteLength : outputData.length;
   console.log('[Worker] Output file read, size:', outputSize, 'bytes');
 
   // Clean up files
-  self.postMessage({ type: 'status', message: 'Cleaning up...' });
+  reply({ type: 'status', message: 'Cleaning up...' });
   console.log('[Worker] Cleaning up temporary files...');
 
-  for (let i = 0; i < frames.length; i++) {
-    const fileName = `frame${i.toString().padStart(5, '0')}.png`;
+  for (const fileName of [...segments, 'segments.txt', 'audio.wav', output]) {
     try {
       await ffmpeg.deleteFile(fileName);
     } catch (e) {
       // Ignore errors
     }
   }
-
-  try {
-    await ffmpeg.deleteFile('audio.wav');
-    await ffmpeg.deleteFile('output.mp4');
-  } catch (e) {
-    // Ignore errors
-  }
+  settings = null;
 
   console.log('[Worker] Cleanup completed');
 
-  // Send result
-  const buffer = outputData instanceof Uint8Array ? outputData.buffer : outputData;
-  const bufferSize =
-    buffer instanceof ArrayBuffer || buffer instanceof SharedArrayBuffer
-      ? buffer.byteLength
-      : buffer.length;
-  console.log('[Worker] Sending complete message with data size:', bufferSize);
-  self.postMessage(
-    {
-      type: 'complete',
-      data: outputData,
-    },
-    { transfer: buffer instanceof ArrayBuffer ? [buffer] : [] } as any
-  );
+  // Send result (output in shared memory cannot be transferred, so it is copied)
+  const data =
+    typeof outputData === 'string' || ownsArrayBuffer(outputData)
+      ? outputData
+      : new Uint8Array(outputData);
+  const dataSize = typeof data === 'string' ? data.length : data.byteLength;
+  console.log('[Worker] Sending complete message with data size:', dataSize);
+  reply({ type: 'complete', data }, typeof data === 'string' ? [] : [data.buffer]);
   console.log('[Worker] Complete message sent');
 }
 
@@ -7,7 +7,15 @@ import { TrackControls } from './ui/TrackControls';
 import { ExportUI } from './ui/ExportUI';
 import { PresetManager } from './core/PresetManager';
 import { PresetUI } from './ui/PresetUI';
-import type { LayoutMode, AmplitudeMode } from './types/visualizer.types';
+import { FrequencyBands } from './visualization/FrequencyBands';
+import type {
+  LayoutMode,
+  AmplitudeMode,
+  FrequencyScale,
+  SpectrumAnalysis,
+  SpectrumSettings,
+  WindowFunction,
+} from './types/visualizer.types';
 import type { PresetSettings } from './types/preset.types';
 
 class MultitrackAudioVisualizer {
@@ -26,12 +34,29 @@ class MultitrackAudioVisualizer {
   private smoothingSlider: HTMLInputElement;
   private fpsSlider: HTMLInputElement;
   private windowDurationSlider: HTMLInputElement;
+  private hideMutedCheckbox: HTMLInputElement;
+  private frequencyScaleSelect: HTMLSelectElement;
+  private minFrequencyInput: HTMLInputElement;
+  private maxFrequencyInput: HTMLInputElement;
+  private barCountSlider: HTMLInputElement;
+  private fftSizeSelect: HTMLSelectElement;
+  private windowFunctionSelect: HTMLSelectElement;
+  private spectrumAnalysisSelect: HTMLSelectElement;
+  private overlapSlider: HTMLInputElement;
+  private minDecibelsInput: HTMLInputElement;
+  private maxDecibelsInput: HTMLInputElement;
+  private spectrumAxisCheckbox: HTMLInputElement;
+  private resolutionSelect: HTMLSelectElement;
   private currentLayout: LayoutMode = 'overlay';
   private currentAmplitudeMode: AmplitudeMode = 'individual';
   private currentHeightPercent: number = 50;
   private currentSmoothingLevel: number = 0;
   private currentFPSCap: number = 60;
   private currentWindowDuration: number = 1.0;
+  private currentHideMutedTracks: boolean = false;
+  private currentSpectrumSettings: SpectrumSettings = { ...FrequencyBands.DEFAULT_SETTINGS };
+  private currentExportWidth: number = RenderContext.DEFAULT_EXPORT_WIDTH;
+  private currentExportHeight: number = RenderContext.DEFAULT_EXPORT_HEIGHT;
 
   constructor() {
     // Get canvas
@@ -46,6 +71,27 @@ class MultitrackAudioVisualizer {
     this.windowDurationSlider = document.getElementById(
       'window-duration-slider'
     ) as HTMLInputElement;
+    this.hideMutedCheckbox = document.getElementById('hide-muted-checkbox') as HTMLInputElement;
+    this.frequencyScaleSelect = document.getElementById(
+      'frequency-scale-select'
+    ) as HTMLSelectElement;
+    this.minFrequencyInput = document.getElementById('min-frequency-input') as HTMLInputElement;
+    this.maxFrequencyInput = document.getElementById('max-frequency-input') as HTMLInputElement;
+    this.barCountSlider = document.getElementById('bar-count-slider') as HTMLInputElement;
+    this.fftSizeSelect = document.getElementById('fft-size-select') as HTMLSelectElement;
+    this.windowFunctionSelect = document.getElementById(
+      'window-function-select'
+    ) as HTMLSelectElement;
+    this.spectrumAnalysisSelect = document.getElementById(
+      'spectrum-analysis-select'
+    ) as HTMLSelectElement;
+    this.overlapSlider = document.getElementById('overlap-slider') as HTMLInputElement;
+    this.minDecibelsInput = document.getElementById('min-decibels-input') as HTMLInputElement;
+    this.maxDecibelsInput = document.getElementById('max-decibels-input') as HTMLInputElement;
+    this.spectrumAxisCheckbox = document.getElementById(
+      'spectrum-axis-checkbox'
+    ) as HTMLInputElement;
+    this.resolutionSelect = document.getElementById('resolution-select') as HTMLSelectElement;
 
     // Initialize components
     this.audioEngine = new AudioEngine();
@@ -70,7 +116,10 @@ class MultitrackAudioVisualizer {
       () => this.currentAmplitudeMode,
       () => this.currentHeightPercent,
       () => this.currentSmoothingLevel,
-      () => this.currentWindowDuration
+      () => this.currentWindowDuration,
+      () => this.currentHideMutedTracks,
+      () => this.currentSpectrumSettings,
+      () => ({ width: this.currentExportWidth, height: this.currentExportHeight })
     );
     this.presetUI = new PresetUI(
       this.presetManager,
@@ -87,6 +136,9 @@ class MultitrackAudioVisualizer {
     this.setupSmoothingSlider();
     this.setupFPSSlider();
     this.setupWindowDurationSlider();
+    this.setupHideMutedCheckbox();
+    this.setupSpectrumControls();
+    this.setupResolutionSelector();
 
     // Setup window resize handler
     window.addEventListener('resize', () => {
@@ -103,16 +155,16 @@ class MultitrackAudioVisualizer {
     this.startRenderLoop();
 
     console.log('Multi-Track Audio Visualizer initialized');
-    console.log('Add WAV files to begin visualizing');
+    console.log('Add audio files to begin visualizing');
   }
 
   private initializeCanvas(): void {
     const container = this.canvas.parentElement!;
     const rect = container.getBoundingClientRect();
 
-    // Maintain 16:9 aspect ratio
+    // Match the export aspect ratio so the preview shows what will be exported
     const containerAspect = rect.width / rect.height;
-    const targetAspect = 16 / 9;
+    const targetAspect = this.currentExportWidth / this.currentExportHeight;
 
     let canvasWidth: number;
     let canvasHeight: number;
@@ -141,6 +193,15 @@ class MultitrackAudioVisualizer {
     this.render();
   }
 
+  private setupResolutionSelector(): void {
+    this.resolutionSelect.addEventListener('change', () => {
+      const [width, height] = this.resolutionSelect.value.split('x').map(Number);
+      this.currentExportWidth = width;
+      this.currentExportHeight = height;
+      this.handleResize();
+    });
+  }
+
   private setupLayoutSelector(): void {
     this.layoutSelect.addEventListener('change', () => {
       this.currentLayout = this.layoutSelect.value as LayoutMode;
@@ -203,6 +264,82 @@ class MultitrackAudioVisualizer {
     });
   }
 
+  private setupHideMutedCheckbox(): void {
+    this.hideMutedCheckbox.checked = this.currentHideMutedTracks;
+
+    this.hideMutedCheckbox.addEventListener('change', () => {
+      this.currentHideMutedTracks = this.hideMutedCheckbox.checked;
+      this.render();
+    });
+  }
+
+  private setupSpectrumControls(): void {
+    this.updateSpectrumControls();
+
+    const applyChange = () => {
+      const settings: SpectrumSettings = {
+        frequencyScale: this.frequencyScaleSelect.value as FrequencyScale,
+        minFrequency: parseFloat(this.minFrequencyInput.value),
+        maxFrequency: parseFloat(this.maxFrequencyInput.value),
+        barCount: parseInt(this.barCountSlider.value, 10),
+        fftSize: parseInt(this.fftSizeSelect.value, 10),
+        windowFunction: this.windowFunctionSelect.value as WindowFunction,
+        analysis: this.spectrumAnalysisSelect.value as SpectrumAnalysis,
+        overlap: parseInt(this.overlapSlider.value, 10) / 100,
+        minDecibels: parseFloat(this.minDecibelsInput.value),
+        maxDecibels: parseFloat(this.maxDecibelsInput.value),
+        showAxis: this.spectrumAxisCheckbox.checked,
+      };
+
+      try {
+        FrequencyBands.validate(settings);
+        this.currentSpectrumSettings = settings;
+      } catch (error) {
+        console.warn('[MultitrackAudioVisualizer] Invalid spectrum settings:', error);
+      }
+      // Show the settings in use (reverts invalid input)
+      this.updateSpectrumControls();
+      this.render();
+    };
+
+    this.frequencyScaleSelect.addEventListener('change', applyChange);
+    this.minFrequencyInput.addEventListener('change', applyChange);
+    this.maxFrequencyInput.addEventListener('change', applyChange);
+    this.barCountSlider.addEventListener('input', applyChange);
+    this.fftSizeSelect.addEventListener('change', applyChange);
+    this.windowFunctionSelect.addEventListener('change', applyChange);
+    this.spectrumAnalysisSelect.addEventListener('change', applyChange);
+    this.overlapSlider.addEventListener('input', applyChange);
+    this.minDecibelsInput.addEventListener('change', applyChange);
+    this.maxDecibelsInput.addEventListener('change', applyChange);
+    this.spectrumAxisCheckbox.addEventListener('change', applyChange);
+  }
+
+  private updateSpectrumControls(): void {
+    const settings = this.currentSpectrumSettings;
+    this.frequencyScaleSelect.value = settings.frequencyScale;
+    this.minFrequencyInput.value = settings.minFrequency.toString();
+    this.maxFrequencyInput.value = settings.maxFrequency.toString();
+    this.barCountSlider.value = settings.barCount.toString();
+    document.getElementById('bar-count-value')!.textContent = settings.barCount.toString();
+    this.fftSizeSelect.value = settings.fftSize.toString();
+    this.windowFunctionSelect.value = settings.windowFunction;
+    this.spectrumAnalysisSelect.value = settings.analysis;
+    const overlapPercent = Math.round(settings.overlap * 100);
+    this.overlapSlider.value = overlapPercent.toString();
+    document.getElementById('overlap-value')!.textContent = `${overlapPercent}%`;
+    this.minDecibelsInput.value = settings.minDecibels.toString();
+    this.maxDecibelsInput.value = settings.maxDecibels.toString();
+    this.spectrumAxisCheckbox.checked = settings.showAxis;
+
+    // Octave bands are fixed by the frequency range
+    const octaveBands =
+      settings.frequencyScale === 'octave' || settings.frequencyScale === 'third-octave';
+    this.barCountSlider.disabled = octaveBands;
+    // Overlap only applies when averaging frames
+    this.overlapSlider.disabled = settings.analysis !== 'average';
+  }
+
   private startRenderLoop(): void {
     this.renderLoop.start(() => {
       this.render();
@@ -221,7 +358,10 @@ class MultitrackAudioVisualizer {
       this.currentAmplitudeMode,
       this.currentHeightPercent,
       this.currentSmoothingLevel,
-      this.currentWindowDuration
+      this.currentWindowDuration,
+      this.currentHideMutedTracks,
+      false,
+      this.currentSpectrumSettings
     );
   }
 
@@ -236,6 +376,7 @@ class MultitrackAudioVisualizer {
       smoothingLevel: this.currentSmoothingLevel,
       fpsCap: this.currentFPSCap,
       windowDuration: this.currentWindowDuration,
+      spectrum: { ...this.currentSpectrumSettings },
     };
   }
 
@@ -250,6 +391,7 @@ class MultitrackAudioVisualizer {
     this.currentSmoothingLevel = settings.smoothingLevel;
     this.currentFPSCap = settings.fpsCap;
     this.currentWindowDuration = settings.windowDuration;
+    this.currentSpectrumSettings = FrequencyBands.resolve(settings.spectrum);
 
     // Update UI controls
     this.layoutSelect.value = settings.layout;
@@ -258,6 +400,7 @@ class MultitrackAudioVisualizer {
     this.smoothingSlider.value = settings.smoothingLevel.toString();
     this.fpsSlider.value = settings.fpsCap.toString();
     this.windowDurationSlider.value = settings.windowDuration.toString();
+    this.updateSpectrumControls();
 
     // Update display labels
     document.getElementById('height-value')!.textContent = `${settings.heightPercent}%`;
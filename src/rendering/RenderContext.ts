@@ -6,6 +6,14 @@ import type { RenderDimensions, CoordinateConverter } from '../types/visualizer.
  * rendering contexts.
  */
 export class RenderContext implements CoordinateConverter {
+  /** Default export resolution (1080p, 16:9) */
+  static readonly DEFAULT_EXPORT_WIDTH = 1920;
+  static readonly DEFAULT_EXPORT_HEIGHT = 1080;
+
+  /** Supported export dimension range in pixels (up to 8K) */
+  static readonly MIN_EXPORT_SIZE = 16;
+  static readonly MAX_EXPORT_SIZE = 7680;
+
   private dimensions: RenderDimensions;
 
   constructor(width: number, height: number) {
@@ -13,7 +21,7 @@ export class RenderContext implements CoordinateConverter {
       width,
       height,
       centerY: height / 2,
-      aspectRatio: 16 / 9
+      aspectRatio: height > 0 ? width / height : 16 / 9
     };
   }
 
@@ -81,10 +89,87 @@ export class RenderContext implements CoordinateConverter {
 
   /**
    * Create a RenderContext for video export
-   * Always uses fixed 1920x1080 dimensions
-   * @returns RenderContext configured for export at 1920x1080
+   * @param width - Export width in pixels (default: 1920)
+   * @param height - Export height in pixels (default: 1080)
+   * @returns RenderContext configured for the export resolution
+   */
+  static forExport(
+    width: number = RenderContext.DEFAULT_EXPORT_WIDTH,
+    height: number = RenderContext.DEFAULT_EXPORT_HEIGHT
+  ): RenderContext {
+    return new RenderContext(width, height);
+  }
+
+  /**
+   * Parse an aspect ratio given as "W:H", "W/H" or a plain number (e.g. "9:16", "1.5")
+   * @throws Error if the value is not a positive ratio
    */
-  static forExport(): RenderContext {
-    return new RenderContext(1920, 1080);
+  static parseAspectRatio(aspect: string | number): number {
+    let ratio: number;
+    if (typeof aspect === 'number') {
+      ratio = aspect;
+    } else {
+      const parts = aspect.trim().split(/[:/x]/);
+      ratio = parts.length === 2 ? Number(parts[0]) / Number(parts[1]) : parts.length === 1 ? Number(parts[0]) : NaN;
+    }
+
+    if (!Number.isFinite(ratio) || ratio <= 0) {
+      throw new Error(`Invalid aspect ratio "${aspect}". Use W:H (e.g. 16:9, 9:16, 1:1)`);
+    }
+    return ratio;
+  }
+
+  /**
+   * Resolve export dimensions from optional width/height/aspect.
+   * - width and height: used as given (aspect is ignored)
+   * - one dimension: the other is derived from the aspect ratio (default 16:9)
+   * - aspect only: the longer side is 1920 pixels
+   * - nothing: 1920x1080
+   * Dimensions are rounded to even numbers (required by yuv420p encoding).
+   * @throws Error if the aspect ratio is invalid or a dimension is out of range
+   */
+  static resolveExportSize(
+    width?: number,
+    height?: number,
+    aspect?: string | number
+  ): { width: number; height: number } {
+    const ratio = aspect !== undefined
+      ? RenderContext.parseAspectRatio(aspect)
+      : RenderContext.DEFAULT_EXPORT_WIDTH / RenderContext.DEFAULT_EXPORT_HEIGHT;
+
+    let w: number;
+    let h: number;
+    if (width !== undefined && height !== undefined) {
+      w = width;
+      h = height;
+    } else if (width !== undefined) {
+      w = width;
+      h = width / ratio;
+    } else if (height !== undefined) {
+      w = height * ratio;
+      h = height;
+    } else if (aspect !== undefined) {
+      const longSide = RenderContext.DEFAULT_EXPORT_WIDTH;
+      w = ratio >= 1 ? longSide : longSide * ratio;
+      h = ratio >= 1 ? longSide / ratio : longSide;
+    } else {
+      w = RenderContext.DEFAULT_EXPORT_WIDTH;
+      h = RenderContext.DEFAULT_EXPORT_HEIGHT;
+    }
+
+    const size = { width: RenderContext.toEven(w), height: RenderContext.toEven(h) };
+    for (const value of [size.width, size.height]) {
+      if (!Number.isFinite(value) || value < RenderContext.MIN_EXPORT_SIZE || value > RenderContext.MAX_EXPORT_SIZE) {
+        throw new Error(
+          `Export resolution ${size.width}x${size.height} is out of range ` +
+          `(${RenderContext.MIN_EXPORT_SIZE}-${RenderContext.MAX_EXPORT_SIZE} pixels per side)`
+        );
+      }
+    }
+    return size;
+  }
+
+  private static toEven(value: number): number {
+    return Math.round(value / 2) * 2;
   }
 }
@@ -0,0 +1,105 @@
+import type { AudioTrack } from '../core/AudioTrack';
+import { FrequencyBands, type FrequencyBand } from '../visualization/FrequencyBands';
+import { SpectrumLevels } from '../visualization/SpectrumLevels';
+import type { SpectrumSettings } from '../types/visualizer.types';
+
+/**
+ * Spectrogram columns of one track. Columns sit on a fixed timeline grid (column k is the
+ * spectrum ending at k * columnDuration), so a scrolling window reuses the columns it has
+ * already computed and only analyses the new ones.
+ */
+export class SpectrogramCache {
+  static readonly MAX_COLUMNS = 512; // Columns across the window (at most one per pixel)
+
+  private key = '';
+  private columns = new Map<number, Uint8Array>();
+  private levels = new Float32Array(0);
+
+  /**
+   * Number of columns held
+   */
+  get size(): number {
+    return this.columns.size;
+  }
+
+  /**
+   * Columns first to first + count - 1, each holding one level per band (0 at minDecibels
+   * to 255 at maxDecibels). Columns outside the span are dropped.
+   * @param columnDuration - Seconds per column
+   */
+  getColumns(
+    track: AudioTrack,
+    settings: SpectrumSettings,
+    bands: FrequencyBand[],
+    columnDuration: number,
+    first: number,
+    count: number
+  ): Uint8Array[] {
+    // Anything that changes the analysis invalidates every column
+    const key = JSON.stringify([
+      track.id,
+      track.sampleRate,
+      track.startOffset,
+      settings,
+      bands.length,
+      columnDuration,
+    ]);
+    if (key !== this.key) {
+      this.key = key;
+      this.columns.clear();
+    }
+
+    for (const index of this.columns.keys()) {
+      if (index < first || index >= first + count) {
+        this.columns.delete(index);
+      }
+    }
+
+    const result: Uint8Array[] = [];
+    for (let index = first; index < first + count; index++) {
+      let column = this.columns.get(index);
+      if (!column) {
+        column = this.computeColumn(track, settings, bands, columnDuration, index);
+        this.columns.set(index, column);
+      }
+      result.push(column);
+    }
+    return result;
+  }
+
+  private computeColumn(
+    track: AudioTrack,
+    settings: SpectrumSettings,
+    bands: FrequencyBand[],
+    columnDuration: number,
+    index: number
+  ): Uint8Array {
+    const spectrum = track.getFrequencySpectrumForTimeWindow(
+      index * columnDuration,
+      columnDuration,
+      settings.fftSize,
+      settings.windowFunction,
+      settings.analysis,
+      settings.overlap
+    );
+
+    if (this.levels.length !== bands.length) {
+      this.levels = new Float32Array(bands.length);
+    }
+    FrequencyBands.aggregate(
+      spectrum,
+      track.getSpectrumBinWidth(settings.fftSize),
+      bands,
+      this.levels
+    );
+    SpectrumLevels.toDecibels(this.levels, settings.fftSize, settings.windowFunction);
+
+    const column = new Uint8Array(bands.length);
+    for (let b = 0; b < bands.length; b++) {
+      column[b] = Math.round(
+        SpectrumLevels.normalize(this.levels[b], settings.minDecibels, settings.maxDecibels) * 255
+      );
+    }
+    return column;
+  }
+}
@@ -1,12 +1,18 @@
 import type { AudioTrack } from '../core/AudioTrack';
 import { ColorManager } from '../visualization/ColorManager';
-import type { LayoutMode, AmplitudeMode } from '../types/visualizer.types';
+import { FrequencyBands, type FrequencyBand } from '../visualization/FrequencyBands';
+import { SpectrumLevels } from '../visualization/SpectrumLevels';
+import type { LayoutMode, AmplitudeMode, SpectrumSettings } from '../types/visualizer.types';
 import { RenderContext } from './RenderContext';
+import { SpectrogramCache } from './SpectrogramCache';
 
 export class WaveformRenderer {
   private canvas: HTMLCanvasElement;
   private ctx: CanvasRenderingContext2D;
   private renderContext: RenderContext;
+  private bandCache: { key: string; bands: FrequencyBand[]; magnitudes: Float32Array } | null =
+    null;
+  private spectrogramCaches = new Map<string, SpectrogramCache>(); // By track id
 
   constructor(canvas: HTMLCanvasElement, renderContext?: RenderContext) {
     this.canvas = canvas;
@@ -25,28 +31,46 @@ export class WaveformRenderer {
     amplitudeMode: AmplitudeMode = 'individual',
     heightPercent: number = 50,
     smoothingLevel: number = 0,
-    windowDuration: number = 1.0
+    windowDuration: number = 1.0,
+    hideMutedTracks: boolean = false,
+    transparentBackground: boolean = false,
+    spectrumSettings: SpectrumSettings = FrequencyBands.DEFAULT_SETTINGS
   ): void {
     const dimensions = this.renderContext.getDimensions();
 
-    // Clear canvas with black background
-    this.ctx.fillStyle = '#000000';
-    this.ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
+    // Clear canvas with black background (or to fully transparent, for compositing over footage)
+    if (transparentBackground) {
+      this.ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
+    } else {
+      this.ctx.fillStyle = '#000000';
+      this.ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
+    }
 
     if (tracks.length === 0) {
       this.renderEmptyState();
       return;
     }
 
+    // Optionally hide tracks that are muted (or silenced by another track's solo)
+    let visibleTracks = tracks;
+    if (hideMutedTracks) {
+      const anySoloed = tracks.some((t) => t.solo);
+      visibleTracks = tracks.filter((t) => t.isAudible(anySoloed));
+    }
+
     // Calculate global max amplitude for normalization if needed
     let globalMaxAmplitude = 1.0;
-    if (amplitudeMode === 'normalized' && tracks.length > 0) {
-      globalMaxAmplitude = this.calculateGlobalMaxAmplitude(tracks, currentTime, windowDuration);
+    if (amplitudeMode === 'normalized' && visibleTracks.length > 0) {
+      globalMaxAmplitude = this.calculateGlobalMaxAmplitude(
+        visibleTracks,
+        currentTime,
+        windowDuration
+      );
     }
 
     if (layout === 'stacked') {
       this.renderTracksStacked(
-        tracks,
+        visibleTracks,
         currentTime,
         amplitudeMode,
         globalMaxAmplitude,
@@ -58,7 +82,7 @@ export class WaveformRenderer {
       const centerY = dimensions.centerY;
       const maxAmplitude = this.renderContext.heightPercentToPixels(heightPercent);
       this.renderTracksAdditive(
-        tracks,
+        visibleTracks,
         currentTime,
         centerY,
         maxAmplitude,
@@ -68,14 +92,35 @@ export class WaveformRenderer {
         windowDuration
       );
     } else if (layout === 'spectrum-overlay') {
-      this.renderTracksSpectrumOverlay(tracks, currentTime, heightPercent, windowDuration);
+      this.renderTracksSpectrumOverlay(
+        visibleTracks,
+        currentTime,
+        heightPercent,
+        windowDuration,
+        spectrumSettings
+      );
     } else if (layout === 'spectrum-stacked') {
-      this.renderTracksSpectrumStacked(tracks, currentTime, heightPercent, windowDuration);
+      this.renderTracksSpectrumStacked(
+        visibleTracks,
+        currentTime,
+        heightPercent,
+        windowDuration,
+        spectrumSettings
+      );
+    } else if (layout === 'spectrogram' || layout === 'spectrogram-stacked') {
+      this.renderTracksSpectrogram(
+        visibleTracks,
+        currentTime,
+        windowDuration,
+        spectrumSettings,
+        layout === 'spectrogram-stacked',
+        transparentBackground
+      );
     } else {
       // Default overlay mode - center at canvas center
       const centerY = dimensions.centerY;
       const maxAmplitude = this.renderContext.heightPercentToPixels(heightPercent);
-      tracks.forEach((track) => {
+      visibleTracks.forEach((track) => {
         this.renderTrackRealtimeWithAmplitude(
           track,
           currentTime,
@@ -101,20 +146,13 @@ export class WaveformRenderer {
     currentTime: number,
     windowDuration: number
   ): number {
-    const dimensions = this.renderContext.getDimensions();
     let globalMax = 0;
 
     tracks.forEach((track) => {
-      const waveformData = track.getWaveformDataForTimeWindow(
-        currentTime,
-        windowDuration,
-        dimensions.width
+      globalMax = Math.max(
+        globalMax,
+        track.getPeakAmplitudeForTimeWindow(currentTime, windowDuration)
       );
-      for (let i = 0; i < waveformData.length; i++) {
-        if (waveformData[i] > globalMax) {
-          globalMax = waveformData[i];
-        }
-      }
     });
 
     return globalMax > 0 ? globalMax : 1.0; // Avoid division by zero
@@ -335,15 +373,29 @@ export class WaveformRenderer {
     tracks: AudioTrack[],
     currentTime: number,
     heightPercent: number = 50,
-    windowDuration: number = 1.0
+    windowDuration: number = 1.0,
+    spectrumSettings: SpectrumSettings = FrequencyBands.DEFAULT_SETTINGS
   ): void {
     const dimensions = this.renderContext.getDimensions();
     // Spectrum bars grow upward from the bottom of the canvas
     const baseY = dimensions.height;
+    let bands: FrequencyBand[] = [];
 
     tracks.forEach((track) => {
-      this.renderTrackSpectrum(track, currentTime, baseY, heightPercent, windowDuration);
+      bands = this.renderTrackSpectrum(
+        track,
+        currentTime,
+        baseY,
+        heightPercent,
+        windowDuration,
+        spectrumSettings
+      );
     });
+
+    // One axis over all tracks
+    if (spectrumSettings.showAxis) {
+      this.renderSpectrumAxis(bands, baseY, heightPercent, spectrumSettings);
+    }
   }
 
   /**
@@ -353,7 +405,8 @@ export class WaveformRenderer {
     tracks: AudioTrack[],
     currentTime: number,
     heightPercent: number = 50,
-    windowDuration: number = 1.0
+    windowDuration: number = 1.0,
+    spectrumSettings: SpectrumSettings = FrequencyBands.DEFAULT_SETTINGS
   ): void {
     const dimensions = this.renderContext.getDimensions();
     const numTracks = tracks.length;
@@ -362,49 +415,378 @@ export class WaveformRenderer {
     tracks.forEach((track, index) => {
       // Spectrum bars grow upward from the bottom of each track's allocated space
       const baseY = (index + 1) * trackHeight;
-      this.renderTrackSpectrum(track, currentTime, baseY, heightPercent, windowDuration);
+      const bands = this.renderTrackSpectrum(
+        track,
+        currentTime,
+        baseY,
+        heightPercent,
+        windowDuration,
+        spectrumSettings
+      );
+
+      if (spectrumSettings.showAxis) {
+        this.renderSpectrumAxis(bands, baseY, heightPercent, spectrumSettings);
+      }
     });
   }
 
   /**
-   * Render a single track's frequency spectrum
+   * Render a single track's frequency spectrum as one bar per frequency band, with bar
+   * heights spanning the dBFS range of the settings
+   * @returns The bands drawn
    */
   private renderTrackSpectrum(
     track: AudioTrack,
     currentTime: number,
     baseY: number,
     heightPercent: number = 50,
-    windowDuration: number = 1.0
-  ): void {
+    windowDuration: number = 1.0,
+    spectrumSettings: SpectrumSettings = FrequencyBands.DEFAULT_SETTINGS
+  ): FrequencyBand[] {
     const dimensions = this.renderContext.getDimensions();
-    const spectrumData = track.getFrequencySpectrumForTimeWindow(currentTime, windowDuration, 2048);
-    const numBins = spectrumData.length;
+    const spectrumData = track.getFrequencySpectrumForTimeWindow(
+      currentTime,
+      windowDuration,
+      spectrumSettings.fftSize,
+      spectrumSettings.windowFunction,
+      spectrumSettings.analysis,
+      spectrumSettings.overlap
+    );
+    const binWidth = track.getSpectrumBinWidth(spectrumSettings.fftSize);
+    const { bands, magnitudes } = this.getFrequencyBands(
+      spectrumSettings,
+      binWidth * spectrumData.length
+    );
+    const numBars = bands.length;
+    if (numBars === 0) {
+      return bands;
+    }
+    const barMagnitudes = FrequencyBands.aggregate(spectrumData, binWidth, bands, magnitudes);
+    const levels = SpectrumLevels.toDecibels(
+      barMagnitudes,
+      spectrumSettings.fftSize,
+      spectrumSettings.windowFunction
+    );
 
     // Set color and opacity
-    const color = ColorManager.hexToRgba(track.color, track.opacity);
-    this.ctx.strokeStyle = color;
-    this.ctx.fillStyle = color;
-    this.ctx.lineWidth = 2;
+    this.ctx.fillStyle = ColorManager.hexToRgba(track.color, track.opacity);
 
-    // Draw spectrum bars
-    this.ctx.beginPath();
+    // Bars share the width evenly, with a 1px gap once they are wide enough
+    const barWidth = dimensions.width / numBars;
+    const gap = barWidth > 4 ? 1 : 0;
+    const maxBarHeight = this.renderContext.heightPercentToPixels(heightPercent);
+
+    for (let i = 0; i < numBars; i++) {
+      const barHeight =
+        SpectrumLevels.normalize(
+          levels[i],
+          spectrumSettings.minDecibels,
+          spectrumSettings.maxDecibels
+        ) * maxBarHeight;
 
-    const barWidth = dimensions.width / numBins;
+      // Draw bar from baseY upward
+      this.ctx.fillRect(i * barWidth, baseY - barHeight, barWidth - gap, barHeight);
+    }
+
+    return bands;
+  }
+
+  /**
+   * Render level gridlines (dBFS) over a spectrum and frequency labels along its base
+   */
+  private renderSpectrumAxis(
+    bands: FrequencyBand[],
+    baseY: number,
+    heightPercent: number,
+    spectrumSettings: SpectrumSettings
+  ): void {
+    if (bands.length === 0) {
+      return;
+    }
+
+    const dimensions = this.renderContext.getDimensions();
     const maxBarHeight = this.renderContext.heightPercentToPixels(heightPercent);
+    const fontSize = Math.max(10, Math.round(dimensions.height / 80));
+    const { minDecibels, maxDecibels } = spectrumSettings;
 
-    for (let i = 0; i < numBins; i++) {
-      const magnitude = spectrumData[i];
-      // Scale magnitude to max bar height (logarithmic scaling for better visualization)
-      const barHeight = Math.log10(1 + magnitude * 100) * maxBarHeight;
+    this.ctx.font = `${fontSize}px monospace`;
+    this.ctx.lineWidth = 1;
+    this.ctx.strokeStyle = 'rgba(255, 255, 255, 0.2)';
+    this.ctx.fillStyle = 'rgba(255, 255, 255, 0.7)';
 
-      const x = i * barWidth;
+    // Level gridlines, labelled at the left edge
+    this.ctx.textAlign = 'left';
+    this.ctx.textBaseline = 'bottom';
+    for (const level of SpectrumLevels.decibelTicks(minDecibels, maxDecibels)) {
+      const y =
+        Math.round(
+          baseY - SpectrumLevels.normalize(level, minDecibels, maxDecibels) * maxBarHeight
+        ) + 0.5;
+      this.ctx.beginPath();
+      this.ctx.moveTo(0, y);
+      this.ctx.lineTo(dimensions.width, y);
+      this.ctx.stroke();
+      this.ctx.fillText(`${level} dB`, 4, y - 2);
+    }
+
+    // Frequency ticks along the base, skipping labels that would overlap or be cut off
+    const barWidth = dimensions.width / bands.length;
+    const tickLength = Math.round(fontSize / 2);
+    const minSpacing = fontSize * 4;
+    let lastX = -minSpacing / 2;
+    this.ctx.textAlign = 'center';
+    for (const frequency of FrequencyBands.AXIS_FREQUENCIES) {
+      const position = FrequencyBands.positionOf(frequency, bands);
+      if (position === null) {
+        continue;
+      }
+      const x = Math.round(position * barWidth) + 0.5;
+      if (x - lastX < minSpacing || x > dimensions.width - minSpacing / 2) {
+        continue;
+      }
+      lastX = x;
 
-      // Draw vertical bar from baseY upward
+      this.ctx.beginPath();
       this.ctx.moveTo(x, baseY);
-      this.ctx.lineTo(x, baseY - barHeight);
+      this.ctx.lineTo(x, baseY - tickLength);
+      this.ctx.stroke();
+      this.ctx.fillText(FrequencyBands.formatFrequency(frequency), x, baseY - tickLength - 2);
     }
+  }
 
-    this.ctx.stroke();
+  /**
+   * Render tracks as scrolling spectrograms (time across the window, frequency upward),
+   * blended over the whole canvas or stacked in their own track spaces
+   */
+  private renderTracksSpectrogram(
+    tracks: AudioTrack[],
+    currentTime: number,
+    windowDuration: number,
+    spectrumSettings: SpectrumSettings,
+    stacked: boolean,
+    transparentBackground: boolean
+  ): void {
+    const dimensions = this.renderContext.getDimensions();
+
+    // Drop the columns of tracks that are no longer drawn
+    const trackIds = new Set(tracks.map((track) => track.id));
+    for (const id of this.spectrogramCaches.keys()) {
+      if (!trackIds.has(id)) {
+        this.spectrogramCaches.delete(id);
+      }
+    }
+
+    if (!stacked) {
+      this.renderSpectrogramRegion(
+        tracks,
+        currentTime,
+        0,
+        dimensions.height,
+        windowDuration,
+        spectrumSettings,
+        transparentBackground
+      );
+      return;
+    }
+
+    const trackHeight = dimensions.height / tracks.length;
+    tracks.forEach((track, index) => {
+      const top = Math.round(index * trackHeight);
+      this.renderSpectrogramRegion(
+        [track],
+        currentTime,
+        top,
+        Math.round((index + 1) * trackHeight) - top,
+        windowDuration,
+        spectrumSettings,
+        transparentBackground
+      );
+    });
+  }
+
+  /**
+   * Render the spectrograms of tracks into one horizontal strip of the canvas. Tracks are
+   * colored with a ramp of their color and blended additively; over a transparent
+   * background, black is transparent.
+   */
+  private renderSpectrogramRegion(
+    tracks: AudioTrack[],
+    currentTime: number,
+    top: number,
+    height: number,
+    windowDuration: number,
+    spectrumSettings: SpectrumSettings,
+    transparentBackground: boolean
+  ): void {
+    const width = Math.round(this.renderContext.getDimensions().width);
+    if (width <= 0 || height <= 0) {
+      return;
+    }
+
+    // Columns on a fixed timeline grid; each pixel shows the column containing its time
+    const columnDuration = windowDuration / Math.min(width, SpectrogramCache.MAX_COLUMNS);
+    const startTime = currentTime < windowDuration ? 0 : currentTime - windowDuration;
+    const columnAt = (x: number) =>
+      Math.ceil((startTime + ((x + 0.5) / width) * windowDuration) / columnDuration);
+    const firstColumn = columnAt(0);
+    const columnCount = columnAt(width - 1) - firstColumn + 1;
+
+    // Per track: the column shown at each pixel x, its color ramp and number of bands
+    const layers: Array<{
+      pixelColumns: Uint8Array[];
+      ramp: Uint8ClampedArray;
+      bandCount: number;
+    }> = [];
+    let axisBands: FrequencyBand[] = [];
+
+    for (const track of tracks) {
+      const { bands } = this.getFrequencyBands(spectrumSettings, track.sampleRate / 2);
+      if (bands.length === 0) {
+        continue;
+      }
+      axisBands = bands;
+
+      let cache = this.spectrogramCaches.get(track.id);
+      if (!cache) {
+        cache = new SpectrogramCache();
+        this.spectrogramCaches.set(track.id, cache);
+      }
+      const columns = cache.getColumns(
+        track,
+        spectrumSettings,
+        bands,
+        columnDuration,
+        firstColumn,
+        columnCount
+      );
+
+      const pixelColumns = new Array<Uint8Array>(width);
+      for (let x = 0; x < width; x++) {
+        pixelColumns[x] = columns[columnAt(x) - firstColumn];
+      }
+      layers.push({
+        pixelColumns,
+        ramp: ColorManager.createColorRamp(track.color, track.opacity),
+        bandCount: bands.length,
+      });
+    }
+
+    const image = this.ctx.createImageData(width, height);
+    const data = image.data;
+    const rowLength = width * 4;
+    // Band of a pixel row, low frequencies at the bottom
+    const bandAt = (y: number, bandCount: number) =>
+      Math.min(bandCount - 1, Math.floor((1 - (y + 0.5) / height) * bandCount));
+
+    for (let y = 0; y < height; y++) {
+      const rowStart = y * rowLength;
+
+      // Rows showing the same bands as the row above are copies of it
+      if (
+        y > 0 &&
+        layers.every((layer) => bandAt(y, layer.bandCount) === bandAt(y - 1, layer.bandCount))
+      ) {
+        data.copyWithin(rowStart, rowStart - rowLength, rowStart);
+        continue;
+      }
+
+      for (const { pixelColumns, ramp, bandCount } of layers) {
+        const band = bandAt(y, bandCount);
+        for (let x = 0, offset = rowStart; x < width; x++, offset += 4) {
+          const level = pixelColumns[x][band];
+          if (level > 0) {
+            // Uint8ClampedArray saturates the sum at 255
+            data[offset] += ramp[level * 3];
+            data[offset + 1] += ramp[level * 3 + 1];
+            data[offset + 2] += ramp[level * 3 + 2];
+          }
+        }
+      }
+
+      for (let offset = rowStart; offset < rowStart + rowLength; offset += 4) {
+        if (transparentBackground) {
+          // Brightness becomes coverage, so the strip composites like the other layouts
+          const alpha = Math.max(data[offset], data[offset + 1], data[offset + 2]);
+          if (alpha > 0) {
+            data[offset] = (data[offset] * 255) / alpha;
+            data[offset + 1] = (data[offset + 1] * 255) / alpha;
+            data[offset + 2] = (data[offset + 2] * 255) / alpha;
+          }
+          data[offset + 3] = alpha;
+        } else {
+          data[offset + 3] = 255;
+        }
+      }
+    }
+
+    this.ctx.putImageData(image, 0, top);
+
+    if (spectrumSettings.showAxis) {
+      this.renderSpectrogramAxis(axisBands, top, height);
+    }
+  }
+
+  /**
+   * Render frequency labels along the left edge of a spectrogram strip
+   */
+  private renderSpectrogramAxis(bands: FrequencyBand[], top: number, height: number): void {
+    if (bands.length === 0) {
+      return;
+    }
+
+    const dimensions = this.renderContext.getDimensions();
+    const fontSize = Math.max(10, Math.round(dimensions.height / 80));
+    const tickLength = Math.round(fontSize / 2);
+    let lastY = Infinity;
+
+    this.ctx.font = `${fontSize}px monospace`;
+    this.ctx.lineWidth = 1;
+    this.ctx.strokeStyle = 'rgba(255, 255, 255, 0.5)';
+    this.ctx.fillStyle = 'rgba(255, 255, 255, 0.7)';
+    this.ctx.textAlign = 'left';
+    this.ctx.textBaseline = 'middle';
+
+    // From low (bottom) to high, skipping labels that would overlap or be cut off
+    for (const frequency of FrequencyBands.AXIS_FREQUENCIES) {
+      const position = FrequencyBands.positionOf(frequency, bands);
+      if (position === null) {
+        continue;
+      }
+      const y = Math.round(top + height - (position / bands.length) * height) + 0.5;
+      if (lastY - y < fontSize * 1.5 || y < top + fontSize || y > top + height - fontSize) {
+        continue;
+      }
+      lastY = y;
+
+      this.ctx.beginPath();
+      this.ctx.moveTo(0, y);
+      this.ctx.lineTo(tickLength, y);
+      this.ctx.stroke();
+      this.ctx.fillText(FrequencyBands.formatFrequency(frequency), tickLength + 2, y);
+    }
+  }
+
+  /**
+   * Frequency bands for the settings and a buffer for their magnitudes, reused while the
+   * settings and analysed range stay the same
+   */
+  private getFrequencyBands(
+    settings: SpectrumSettings,
+    topFrequency: number
+  ): { bands: FrequencyBand[]; magnitudes: Float32Array } {
+    const key = [
+      settings.frequencyScale,
+      settings.minFrequency,
+      settings.maxFrequency,
+      settings.barCount,
+      topFrequency,
+    ].join('|');
+
+    if (this.bandCache?.key !== key) {
+      const bands = FrequencyBands.createBands(settings, topFrequency);
+      this.bandCache = { key, bands, magnitudes: new Float32Array(bands.length) };
+    }
+    return this.bandCache;
   }
 
   /**
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { RenderContext } from '../RenderContext';
+
+describe('RenderContext', () => {
+  describe('forExport', () => {
+    it('should default to 1920x1080', () => {
+      const dimensions = RenderContext.forExport().getDimensions();
+
+      expect(dimensions.width).toBe(1920);
+      expect(dimensions.height).toBe(1080);
+      expect(dimensions.aspectRatio).toBeCloseTo(16 / 9);
+    });
+
+    it('should use the requested resolution', () => {
+      const dimensions = RenderContext.forExport(1080, 1920).getDimensions();
+
+      expect(dimensions.width).toBe(1080);
+      expect(dimensions.height).toBe(1920);
+      expect(dimensions.centerY).toBe(960);
+      expect(dimensions.aspectRatio).toBeCloseTo(9 / 16);
+    });
+  });
+
+  describe('parseAspectRatio', () => {
+    it('should parse W:H, W/H and plain numbers', () => {
+      expect(RenderContext.parseAspectRatio('16:9')).toBeCloseTo(16 / 9);
+      expect(RenderContext.parseAspectRatio('9/16')).toBeCloseTo(9 / 16);
+      expect(RenderContext.parseAspectRatio('1.5')).toBe(1.5);
+      expect(RenderContext.parseAspectRatio(1)).toBe(1);
+    });
+
+    it('should reject invalid ratios', () => {
+      expect(() => RenderContext.parseAspectRatio('wide')).toThrow('Invalid aspect ratio');
+      expect(() => RenderContext.parseAspectRatio('16:0')).toThrow('Invalid aspect ratio');
+      expect(() => RenderContext.parseAspectRatio(-1)).toThrow('Invalid aspect ratio');
+    });
+  });
+
+  describe('resolveExportSize', () => {
+    it('should default to 1920x1080', () => {
+      expect(RenderContext.resolveExportSize()).toEqual({ width: 1920, height: 1080 });
+    });
+
+    it('should use explicit width and height', () => {
+      expect(RenderContext.resolveExportSize(3840, 2160)).toEqual({ width: 3840, height: 2160 });
+    });
+
+    it('should derive the missing dimension from the aspect ratio', () => {
+      expect(RenderContext.resolveExportSize(1080, undefined, '9:16')).toEqual({
+        width: 1080,
+        height: 1920,
+      });
+      expect(RenderContext.resolveExportSize(undefined, 1080, '1:1')).toEqual({
+        width: 1080,
+        height: 1080,
+      });
+      expect(RenderContext.resolveExportSize(1280)).toEqual({ width: 1280, height: 720 });
+    });
+
+    it('should size the longer side to 1920 for aspect only', () => {
+      expect(RenderContext.resolveExportSize(undefined, undefined, '9:16')).toEqual({
+        width: 1080,
+        height: 1920,
+      });
+      expect(RenderContext.resolveExportSize(undefined, undefined, '1:1')).toEqual({
+        width: 1920,
+        height: 1920,
+      });
+    });
+
+    it('should round dimensions to even numbers', () => {
+      expect(RenderContext.resolveExportSize(1001, 563)).toEqual({ width: 1002, height: 564 });
+    });
+
+    it('should reject out-of-range dimensions', () => {
+      expect(() => RenderContext.resolveExportSize(10000, 1080)).toThrow('out of range');
+      expect(() => RenderContext.resolveExportSize(0, 1080)).toThrow('out of range');
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, vi } from 'vitest';
+import { SpectrogramCache } from '../SpectrogramCache';
+import { AudioTrack } from '../../core/AudioTrack';
+import { FrequencyBands } from '../../visualization/FrequencyBands';
+import { SpectrumLevels } from '../../visualization/SpectrumLevels';
+
+const SAMPLE_RATE = 8192;
+
+/**
+ * Track whose frequency rises from 200 Hz to 2 kHz over 2 seconds
+ */
+function createTrack(): AudioTrack {
+  const channelData = new Float32Array(SAMPLE_RATE * 2);
+  let phase = 0;
+  for (let i = 0; i < channelData.length; i++) {
+    phase += (2 * Math.PI * (200 + (1800 * i) / channelData.length)) / SAMPLE_RATE;
+    channelData[i] = 0.5 * Math.sin(phase);
+  }
+  const buffer = {
+    duration: 2,
+    sampleRate: SAMPLE_RATE,
+    numberOfChannels: 1,
+    length: channelData.length,
+    getChannelData: () => channelData,
+  } as unknown as AudioBuffer;
+  return new AudioTrack('track-1', 'Test Track', buffer, '#FF0000');
+}
+
+describe('SpectrogramCache', () => {
+  const settings = FrequencyBands.resolve({ fftSize: 1024, barCount: 32 });
+  const bands = FrequencyBands.createBands(settings, SAMPLE_RATE / 2);
+  const columnDuration = 0.05;
+
+  it('should compute each column from the spectrum ending at its time', () => {
+    const track = createTrack();
+    const cache = new SpectrogramCache();
+
+    const columns = cache.getColumns(track, settings, bands, columnDuration, 10, 3);
+    const spectrum = track.getFrequencySpectrumForTimeWindow(
+      11 * columnDuration,
+      columnDuration,
+      1024
+    );
+    const levels = SpectrumLevels.toDecibels(
+      FrequencyBands.aggregate(spectrum, track.getSpectrumBinWidth(1024), bands),
+      1024,
+      'hann'
+    );
+    const expected = Array.from(levels, (level) =>
+      Math.round(SpectrumLevels.normalize(level, -90, 0) * 255)
+    );
+
+    expect(columns).toHaveLength(3);
+    expect(Array.from(columns[1])).toEqual(expected);
+  });
+
+  it('should only analyse new columns as the window scrolls', () => {
+    const track = createTrack();
+    const cache = new SpectrogramCache();
+    const analyse = vi.spyOn(track, 'getFrequencySpectrumForTimeWindow');
+
+    const first = cache.getColumns(track, settings, bands, columnDuration, 0, 10);
+    const scrolled = cache.getColumns(track, settings, bands, columnDuration, 3, 10);
+
+    expect(analyse).toHaveBeenCalledTimes(13);
+    expect(scrolled[0]).toBe(first[3]);
+    expect(cache.size).toBe(10);
+  });
+
+  it('should analyse every column again when the settings change', () => {
+    const track = createTrack();
+    const cache = new SpectrogramCache();
+    const analyse = vi.spyOn(track, 'getFrequencySpectrumForTimeWindow');
+
+    cache.getColumns(track, settings, bands, columnDuration, 0, 5);
+    cache.getColumns(track, { ...settings, minDecibels: -60 }, bands, columnDuration, 0, 5);
+    track.setStartOffset(0.5);
+    cache.getColumns(track, { ...settings, minDecibels: -60 }, bands, columnDuration, 0, 5);
+
+    expect(analyse).toHaveBeenCalledTimes(15);
+  });
+
+  it('should follow a rising tone upward', () => {
+    const track = createTrack();
+    const cache = new SpectrogramCache();
+
+    // Columns ending at 0.5, 1 and 1.5 seconds
+    const columns = cache.getColumns(track, settings, bands, 0.5, 1, 3);
+    const peaks = columns.map((column) => column.indexOf(Math.max(...column)));
+
+    expect(peaks[0]).toBeLessThan(peaks[1]);
+    expect(peaks[1]).toBeLessThan(peaks[2]);
+  });
+});
@@ -1,3 +1,5 @@
+import type { LayoutMode, SpectrumSettings } from './visualizer.types';
+
 export interface AudioTrackConfig {
   id: string;
   name: string;
@@ -22,15 +24,44 @@ export interface PlaybackState {
   duration: number;
 }
 
+export interface LoopRegion {
+  start: number | null; // Loop in point (seconds), null if not set
+  end: number | null; // Loop out point (seconds), null if not set
+  enabled: boolean;
+}
+
+export interface TrackAlignment {
+  trackId: string;
+  offset: number; // Start offset applied to the track, in seconds
+  confidence: number; // 0-1 (normalized correlation at the detected lag)
+}
+
+export type ExportFormat = 'mp4' | 'webm' | 'mov' | 'gif' | 'apng';
+
+// mp4: h264/h265, webm: vp9/av1, mov: prores (4444), gif: gif, apng: apng
+export type ExportCodec = 'h264' | 'h265' | 'vp9' | 'av1' | 'prores' | 'gif' | 'apng';
+
+// Image sequence export (frames + mixed WAV, no FFmpeg)
+export type ImageSequenceFormat = 'png' | 'jpeg' | 'webp';
+
 export interface ExportOptions {
-  format: 'mp4';
-  codec: 'h264' | 'h265';
+  format: ExportFormat;
+  codec: ExportCodec;
   fps: number;
   quality: number; // CRF value (18-28)
   audioBitrate: string; // e.g., '192k'
-  layout: 'overlay' | 'overlay-additive' | 'stacked' | 'spectrum-overlay' | 'spectrum-stacked';
+  layout: LayoutMode;
   amplitudeMode: 'individual' | 'normalized';
   heightPercent: number; // 1-100%
   smoothingLevel: number; // 0-5 (0 = no smoothing)
   windowDuration: number; // Duration of waveform window in seconds
+  hideMutedTracks: boolean; // Hide muted / non-soloed tracks from the visualization
+  spectrum?: SpectrumSettings; // Frequency axis and analysis of the spectrum layouts (default: FrequencyBands.DEFAULT_SETTINGS)
+  imageSequence?: ImageSequenceFormat; // Export numbered images + audio.wav instead of a video (format/codec unused)
+  transparentBackground?: boolean; // Transparent instead of black background (alpha-capable codecs only)
+  startTime?: number; // Export range start in seconds (default: 0)
+  endTime?: number; // Export range end in seconds (default: end of the song)
+  width?: number; // Output width in pixels (default: 1920, or derived from height and aspect)
+  height?: number; // Output height in pixels (default: 1080, or derived from width and aspect)
+  aspect?: string; // Aspect ratio as "W:H" (e.g. '9:16'), used when width or height is missing
 }
@@ -1,4 +1,4 @@
-import type { LayoutMode, AmplitudeMode } from './visualizer.types';
+import type { LayoutMode, AmplitudeMode, SpectrumSettings } from './visualizer.types';
 
 /**
  * User settings that can be saved as a preset
@@ -10,6 +10,7 @@ export interface PresetSettings {
   smoothingLevel: number;
   fpsCap: number;
   windowDuration: number;
+  spectrum?: SpectrumSettings; // Spectrum layouts (default: FrequencyBands.DEFAULT_SETTINGS)
 }
 
 /**
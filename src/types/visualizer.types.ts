@@ -1,7 +1,30 @@
-export type LayoutMode = 'overlay' | 'overlay-additive' | 'stacked' | 'spectrum-overlay' | 'spectrum-stacked';
+export type LayoutMode = 'overlay' | 'overlay-additive' | 'stacked' | 'spectrum-overlay' | 'spectrum-stacked' | 'spectrogram' | 'spectrogram-stacked';
 
 export type AmplitudeMode = 'individual' | 'normalized';
 
+// Frequency axis of the spectrum layouts
+export type FrequencyScale = 'linear' | 'log' | 'mel' | 'octave' | 'third-octave';
+
+// Window function applied to each FFT frame
+export type WindowFunction = 'hann' | 'hamming' | 'blackman-harris';
+
+// latest: the FFT frame ending at the playhead; average: Welch average of the frames across the window
+export type SpectrumAnalysis = 'latest' | 'average';
+
+export interface SpectrumSettings {
+  frequencyScale: FrequencyScale;
+  minFrequency: number; // Hz
+  maxFrequency: number; // Hz (limited to the highest analysed frequency)
+  barCount: number; // Bars for linear/log/mel (octave bands are fixed by the frequency range)
+  fftSize: number; // Samples per FFT frame (power of two)
+  windowFunction: WindowFunction;
+  analysis: SpectrumAnalysis;
+  overlap: number; // 0 to 0.95, overlap of consecutive frames when averaging
+  minDecibels: number; // Level (dBFS) of an empty bar
+  maxDecibels: number; // Level (dBFS) of a full-height bar (a full-scale sine is 0 dBFS)
+  showAxis: boolean; // Draw frequency and level ticks
+}
+
 export interface VisualizerConfig {
   width: number;
   height: number;
@@ -27,7 +50,7 @@ export interface RenderDimensions {
   width: number;      // Physical canvas width in pixels
   height: number;     // Physical canvas height in pixels
   centerY: number;    // Vertical center point in pixels
-  aspectRatio: number; // Always 16/9
+  aspectRatio: number; // width / height
 }
 
 export interface CoordinateConverter {
@@ -1,10 +1,17 @@
 import { type AudioEngine } from '../core/AudioEngine';
 import { TimeSync } from '../utils/TimeSync';
+import type { LoopRegion } from '../types/audio.types';
 
 export class Controls {
   private audioEngine: AudioEngine;
   private playPauseBtn: HTMLButtonElement;
+  private loopBtn: HTMLButtonElement;
   private seekBar: HTMLInputElement;
+  private rateSelect: HTMLSelectElement;
+  private preservePitchCheckbox: HTMLInputElement;
+  private loopRegionEl: HTMLElement;
+  private loopInMarker: HTMLElement;
+  private loopOutMarker: HTMLElement;
   private currentTimeEl: HTMLElement;
   private totalTimeEl: HTMLElement;
   private isSeeking: boolean = false;
@@ -13,7 +20,15 @@ export class Controls {
     this.audioEngine = audioEngine;
 
     this.playPauseBtn = document.getElementById('play-pause-btn') as HTMLButtonElement;
+    this.loopBtn = document.getElementById('loop-btn') as HTMLButtonElement;
     this.seekBar = document.getElementById('seek-bar') as HTMLInputElement;
+    this.rateSelect = document.getElementById('rate-select') as HTMLSelectElement;
+    this.preservePitchCheckbox = document.getElementById(
+      'preserve-pitch-checkbox'
+    ) as HTMLInputElement;
+    this.loopRegionEl = document.getElementById('loop-region')!;
+    this.loopInMarker = document.getElementById('loop-in-marker')!;
+    this.loopOutMarker = document.getElementById('loop-out-marker')!;
     this.currentTimeEl = document.getElementById('current-time')!;
     this.totalTimeEl = document.getElementById('total-time')!;
 
@@ -33,11 +48,43 @@ export class Controls {
       // this.saveSettings(); // Save settings on play/pause
     });
 
-    // Keyboard shortcut (spacebar)
+    // Playback rate
+    this.rateSelect.addEventListener('change', () => {
+      this.audioEngine.setPlaybackRate(parseFloat(this.rateSelect.value));
+    });
+
+    this.preservePitchCheckbox.addEventListener('change', async () => {
+      try {
+        await this.audioEngine.setPreservePitch(this.preservePitchCheckbox.checked);
+      } catch (error) {
+        console.error('Error enabling pitch preservation:', error);
+        this.preservePitchCheckbox.checked = false;
+        alert('Pitch preservation is not supported in this browser.');
+      }
+    });
+
+    // Loop toggle
+    this.loopBtn.addEventListener('click', () => {
+      this.audioEngine.setLoopEnabled(!this.audioEngine.getLoopRegion().enabled);
+    });
+
+    // Keyboard shortcuts (spacebar: play/pause, I/O: loop in/out at playhead, L: toggle loop)
     document.addEventListener('keydown', (e) => {
-      if (e.code === 'Space' && e.target === document.body) {
+      if (e.target !== document.body || this.playPauseBtn.disabled) {
+        return;
+      }
+
+      if (e.code === 'Space') {
         e.preventDefault();
         this.playPauseBtn.click();
+      } else if (e.code === 'KeyI') {
+        this.audioEngine.setLoopIn(this.audioEngine.getCurrentTime());
+      } else if (e.code === 'KeyO') {
+        this.audioEngine.setLoopOut(this.audioEngine.getCurrentTime());
+      } else if (e.code === 'KeyL' && e.shiftKey) {
+        this.audioEngine.clearLoop();
+      } else if (e.code === 'KeyL') {
+        this.loopBtn.click();
       }
     });
 
@@ -83,6 +130,44 @@ export class Controls {
     this.audioEngine.addEventListener('trackremoved', () => {
       this.updateControls();
     });
+
+    this.audioEngine.addEventListener('offsetchanged', () => {
+      this.updateControls();
+      this.updateTimeDisplay(this.audioEngine.getCurrentTime(), this.audioEngine.getDuration());
+    });
+
+    this.audioEngine.addEventListener('loopchanged', ((e: CustomEvent) => {
+      this.updateLoopMarkers(e.detail as LoopRegion);
+    }) as EventListener);
+  }
+
+  /**
+   * Position loop in/out markers and the region highlight over the seek bar
+   */
+  private updateLoopMarkers(region: LoopRegion): void {
+    const duration = this.audioEngine.getDuration();
+    const toPercent = (time: number): string => `${(time / duration) * 100}%`;
+    const hasDuration = duration > 0;
+
+    this.loopBtn.classList.toggle('active', region.enabled);
+
+    this.loopInMarker.style.display = hasDuration && region.start !== null ? 'block' : 'none';
+    if (region.start !== null) {
+      this.loopInMarker.style.left = toPercent(region.start);
+    }
+
+    this.loopOutMarker.style.display = hasDuration && region.end !== null ? 'block' : 'none';
+    if (region.end !== null) {
+      this.loopOutMarker.style.left = toPercent(region.end);
+    }
+
+    const hasRegion = hasDuration && region.start !== null && region.end !== null;
+    this.loopRegionEl.style.display = hasRegion ? 'block' : 'none';
+    if (hasRegion) {
+      this.loopRegionEl.style.left = toPercent(region.start!);
+      this.loopRegionEl.style.width = toPercent(region.end! - region.start!);
+      this.loopRegionEl.classList.toggle('active', region.enabled);
+    }
   }
 
   private updateTimeDisplay(currentTime: number, duration: number): void {
@@ -100,7 +185,9 @@ export class Controls {
   private updateControls(): void {
     const hasTracks = this.audioEngine.getTracks().length > 0;
     this.playPauseBtn.disabled = !hasTracks;
+    this.loopBtn.disabled = !hasTracks;
     this.seekBar.disabled = !hasTracks;
+    this.updateLoopMarkers(this.audioEngine.getLoopRegion());
 
     if (hasTracks) {
       const duration = this.audioEngine.getDuration();
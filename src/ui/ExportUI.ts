@@ -1,7 +1,14 @@
 import { type AudioEngine } from '../core/AudioEngine';
 import { VideoExporter } from '../export/VideoExporter';
-import type { ExportOptions } from '../types/audio.types';
-import type { LayoutMode, AmplitudeMode } from '../types/visualizer.types';
+import { ExportFormats } from '../export/ExportFormats';
+import { TimeSync } from '../utils/TimeSync';
+import type {
+  ExportCodec,
+  ExportFormat,
+  ExportOptions,
+  ImageSequenceFormat,
+} from '../types/audio.types';
+import type { LayoutMode, AmplitudeMode, SpectrumSettings } from '../types/visualizer.types';
 
 export class ExportUI {
   private audioEngine: AudioEngine;
@@ -9,12 +16,19 @@ export class ExportUI {
   private exportBtn: HTMLButtonElement;
   private progressContainer: HTMLElement;
   private progressFill: HTMLElement;
+  private startInput: HTMLInputElement;
+  private endInput: HTMLInputElement;
+  private formatSelect: HTMLSelectElement;
+  private transparentCheckbox: HTMLInputElement;
   private isExporting: boolean = false;
   private getCurrentLayout: () => LayoutMode;
   private getCurrentAmplitudeMode: () => AmplitudeMode;
   private getCurrentHeightPercent: () => number;
   private getCurrentSmoothingLevel: () => number;
   private getCurrentWindowDuration: () => number;
+  private getHideMutedTracks: () => boolean;
+  private getSpectrumSettings: () => SpectrumSettings;
+  private getExportSize: () => { width: number; height: number };
 
   constructor(
     audioEngine: AudioEngine,
@@ -22,7 +36,10 @@ export class ExportUI {
     getCurrentAmplitudeMode: () => AmplitudeMode,
     getCurrentHeightPercent: () => number,
     getCurrentSmoothingLevel: () => number,
-    getCurrentWindowDuration: () => number
+    getCurrentWindowDuration: () => number,
+    getHideMutedTracks: () => boolean,
+    getSpectrumSettings: () => SpectrumSettings,
+    getExportSize: () => { width: number; height: number }
   ) {
     this.audioEngine = audioEngine;
     this.videoExporter = new VideoExporter(audioEngine);
@@ -31,10 +48,19 @@ export class ExportUI {
     this.getCurrentHeightPercent = getCurrentHeightPercent;
     this.getCurrentSmoothingLevel = getCurrentSmoothingLevel;
     this.getCurrentWindowDuration = getCurrentWindowDuration;
+    this.getHideMutedTracks = getHideMutedTracks;
+    this.getSpectrumSettings = getSpectrumSettings;
+    this.getExportSize = getExportSize;
 
     this.exportBtn = document.getElementById('export-btn') as HTMLButtonElement;
     this.progressContainer = document.getElementById('export-progress')!;
     this.progressFill = document.getElementById('progress-fill')!;
+    this.startInput = document.getElementById('export-start-input') as HTMLInputElement;
+    this.endInput = document.getElementById('export-end-input') as HTMLInputElement;
+    this.formatSelect = document.getElementById('format-select') as HTMLSelectElement;
+    this.transparentCheckbox = document.getElementById(
+      'transparent-bg-checkbox'
+    ) as HTMLInputElement;
 
     this.setupEventListeners();
   }
@@ -44,6 +70,15 @@ export class ExportUI {
       this.startExport();
     });
 
+    // In/out selection at the playhead (empty fields export the whole song)
+    document.getElementById('export-set-in-btn')!.addEventListener('click', () => {
+      this.startInput.value = TimeSync.formatTimecode(this.audioEngine.getCurrentTime());
+    });
+
+    document.getElementById('export-set-out-btn')!.addEventListener('click', () => {
+      this.endInput.value = TimeSync.formatTimecode(this.audioEngine.getCurrentTime());
+    });
+
     // Enable/disable export button based on tracks
     this.audioEngine.addEventListener('trackadded', () => {
       this.updateExportButton();
@@ -64,6 +99,25 @@ export class ExportUI {
       return;
     }
 
+    let range: { start: number; end: number };
+    try {
+      range = this.getExportRange();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Invalid export range');
+      return;
+    }
+
+    const output = this.getOutputFormat();
+    const transparentBackground = this.transparentCheckbox.checked;
+    if (transparentBackground) {
+      try {
+        ExportFormats.validateTransparency(output);
+      } catch (error) {
+        alert(error instanceof Error ? error.message : 'Transparent background not supported');
+        return;
+      }
+    }
+
     // Pause playback if playing
     const wasPlaying = this.audioEngine.getPlaybackState().isPlaying;
     if (wasPlaying) {
@@ -75,8 +129,7 @@ export class ExportUI {
     this.progressContainer.classList.add('active');
 
     const options: ExportOptions = {
-      format: 'mp4',
-      codec: 'h265',
+      ...output,
       fps: 60,
       quality: 23, // CRF value
       audioBitrate: '192k',
@@ -85,6 +138,12 @@ export class ExportUI {
       heightPercent: this.getCurrentHeightPercent(),
       smoothingLevel: this.getCurrentSmoothingLevel(),
       windowDuration: this.getCurrentWindowDuration(),
+      hideMutedTracks: this.getHideMutedTracks(),
+      spectrum: this.getSpectrumSettings(),
+      transparentBackground,
+      startTime: range.start,
+      endTime: range.end,
+      ...this.getExportSize(),
     };
 
     try {
@@ -94,7 +153,10 @@ export class ExportUI {
           this.updateProgress(progress, message);
         },
         (blob) => {
-          this.downloadVideo(blob);
+          this.downloadVideo(
+            blob,
+            output.imageSequence ? 'zip' : ExportFormats.FORMATS[output.format].extension
+          );
           this.resetExportUI();
         },
         (error) => {
@@ -109,17 +171,41 @@ export class ExportUI {
     }
   }
 
+  /**
+   * Read the format select ("format:codec", or "sequence:<image format>" for image sequences)
+   */
+  private getOutputFormat(): Pick<ExportOptions, 'format' | 'codec' | 'imageSequence'> {
+    const [format, codec] = this.formatSelect.value.split(':');
+    if (format === 'sequence') {
+      return { format: 'mp4', codec: 'h264', imageSequence: codec as ImageSequenceFormat };
+    }
+    return { format: format as ExportFormat, codec: codec as ExportCodec };
+  }
+
+  /**
+   * Read the in/out fields (empty = song start/end) and validate them against the song duration
+   */
+  private getExportRange(): { start: number; end: number } {
+    const start = this.startInput.value.trim();
+    const end = this.endInput.value.trim();
+    return TimeSync.resolveTimeRange(
+      start ? TimeSync.parseTimecode(start) : undefined,
+      end ? TimeSync.parseTimecode(end) : undefined,
+      this.audioEngine.getDuration()
+    );
+  }
+
   private updateProgress(progress: number, message: string): void {
     const percent = Math.round(progress);
     this.progressFill.style.width = `${percent}%`;
     this.progressFill.textContent = `${percent}% - ${message}`;
   }
 
-  private downloadVideo(blob: Blob): void {
+  private downloadVideo(blob: Blob, extension: string): void {
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `visualizer_${Date.now()}.mp4`;
+    a.download = `visualizer_${Date.now()}.${extension}`;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
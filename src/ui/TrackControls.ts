@@ -1,7 +1,9 @@
 import { type AudioEngine } from '../core/AudioEngine';
 import { ColorManager } from '../visualization/ColorManager';
 import { FileLoader } from '../utils/FileLoader';
+import { StemAligner } from '../core/StemAligner';
 import type { AudioTrack } from '../core/AudioTrack';
+import type { TrackAlignment } from '../types/audio.types';
 
 export class TrackControls {
   private audioEngine: AudioEngine;
@@ -10,6 +12,8 @@ export class TrackControls {
   private fileInput: HTMLInputElement;
   private dropZone: HTMLElement;
   private loadingOverlay: HTMLElement;
+  private alignReferenceSelect: HTMLSelectElement;
+  private autoAlignBtn: HTMLButtonElement;
   private onTrackUpdate: () => void;
 
   constructor(audioEngine: AudioEngine, onTrackUpdate: () => void) {
@@ -21,6 +25,12 @@ export class TrackControls {
     this.fileInput = document.getElementById('file-input') as HTMLInputElement;
     this.dropZone = document.getElementById('drop-zone')!;
     this.loadingOverlay = document.getElementById('loading-overlay')!;
+    this.alignReferenceSelect = document.getElementById(
+      'align-reference-select'
+    ) as HTMLSelectElement;
+    this.autoAlignBtn = document.getElementById('auto-align-btn') as HTMLButtonElement;
+
+    this.fileInput.accept = FileLoader.getAcceptAttribute();
 
     this.setupEventListeners();
   }
@@ -44,6 +54,11 @@ export class TrackControls {
       await this.loadFiles(files);
     });
 
+    // Auto-align against the selected reference (empty value = mix of other tracks)
+    this.autoAlignBtn.addEventListener('click', () => {
+      this.autoAlign();
+    });
+
     // Audio engine events
     this.audioEngine.addEventListener('trackadded', () => {
       this.renderTrackList();
@@ -52,13 +67,90 @@ export class TrackControls {
     this.audioEngine.addEventListener('trackremoved', () => {
       this.renderTrackList();
     });
+
+    this.audioEngine.addEventListener('mixchanged', () => {
+      this.updateMixState();
+    });
+
+    this.audioEngine.addEventListener('offsetchanged', ((e: CustomEvent) => {
+      const offsetInput = this.getTrackElement(e.detail.id)?.querySelector<HTMLInputElement>(
+        '[data-control="offset"]'
+      );
+      if (offsetInput) {
+        offsetInput.value = (e.detail.offset as number).toFixed(3);
+      }
+    }) as EventListener);
+
+    this.audioEngine.addEventListener('tracksaligned', ((e: CustomEvent) => {
+      this.showAlignments(e.detail as TrackAlignment[]);
+    }) as EventListener);
+  }
+
+  private autoAlign(): void {
+    this.showLoading();
+
+    // Let the loading overlay paint before the (synchronous) correlation runs
+    setTimeout(() => {
+      try {
+        this.audioEngine.autoAlignTracks(this.alignReferenceSelect.value || null);
+        this.onTrackUpdate();
+      } catch (error) {
+        console.error('Error aligning tracks:', error);
+        alert('Error aligning tracks. See console for details.');
+      } finally {
+        this.hideLoading();
+      }
+    }, 0);
+  }
+
+  /**
+   * Show detected offset confidence under each track's offset input
+   */
+  private showAlignments(alignments: TrackAlignment[]): void {
+    alignments.forEach((alignment) => {
+      const label = this.getTrackElement(alignment.trackId)?.querySelector('.track-alignment');
+      if (!label) {
+        return;
+      }
+      const isReference = alignment.trackId === this.alignReferenceSelect.value;
+      label.textContent = isReference
+        ? 'Reference'
+        : `Auto-aligned (${Math.round(alignment.confidence * 100)}% confidence)`;
+      label.classList.toggle(
+        'low-confidence',
+        !isReference && alignment.confidence < StemAligner.LOW_CONFIDENCE
+      );
+    });
+  }
+
+  /**
+   * Refresh the reference track options and enable auto-align when there is something to align
+   */
+  private updateAlignControls(): void {
+    const tracks = this.audioEngine.getTracks();
+    const selected = this.alignReferenceSelect.value;
+
+    this.alignReferenceSelect.innerHTML = '<option value="">Mix of other tracks</option>';
+    tracks.forEach((track) => {
+      const option = document.createElement('option');
+      option.value = track.id;
+      option.textContent = track.name;
+      this.alignReferenceSelect.appendChild(option);
+    });
+    this.alignReferenceSelect.value = tracks.some((t) => t.id === selected) ? selected : '';
+
+    this.autoAlignBtn.disabled = tracks.length < 2;
+  }
+
+  private getTrackElement(trackId: string): HTMLElement | null {
+    return this.trackListEl.querySelector<HTMLElement>(`.track-item[data-track-id="${trackId}"]`);
   }
 
   private async loadFiles(files: File[]): Promise<void> {
-    const wavFiles = FileLoader.filterWavFiles(files);
+    const audioFiles = FileLoader.filterAudioFiles(files);
 
-    if (wavFiles.length === 0) {
-      alert('Please select WAV files only');
+    if (audioFiles.length === 0) {
+      alert('Please select supported audio files (WAV, AIFF, MP3, FLAC, OGG, ...)');
       return;
     }
 
@@ -68,15 +160,15 @@ export class TrackControls {
       const colors = ColorManager.getDefaultPalette();
       const startIndex = this.audioEngine.getTracks().length;
 
-      for (let i = 0; i < wavFiles.length; i++) {
+      for (let i = 0; i < audioFiles.length; i++) {
         const color = colors[(startIndex + i) % colors.length];
-        await this.audioEngine.loadTrack(wavFiles[i], color, 0.7);
+        await this.audioEngine.loadTrack(audioFiles[i], color, 0.7);
       }
 
       this.onTrackUpdate();
     } catch (error) {
       console.error('Error loading tracks:', error);
-      alert('Error loading audio files. Please ensure they are valid WAV files.');
+      alert('Error loading audio files. Please ensure they are valid audio files.');
     } finally {
       this.hideLoading();
     }
@@ -84,6 +176,7 @@ export class TrackControls {
 
   private renderTrackList(): void {
     const tracks = this.audioEngine.getTracks();
+    this.updateAlignControls();
 
     if (tracks.length === 0) {
       this.trackListEl.innerHTML =
@@ -102,11 +195,14 @@ export class TrackControls {
   private createTrackElement(track: AudioTrack, index: number): HTMLElement {
     const div = document.createElement('div');
     div.className = 'track-item';
+    div.dataset.trackId = track.id;
     div.style.borderLeftColor = track.color;
 
     div.innerHTML = `
       <div class="track-header">
         <div class="track-name" title="${track.name}">${track.name}</div>
+        <button class="track-toggle track-mute" title="Mute" data-control="mute">M</button>
+        <button class="track-toggle track-solo" title="Solo" data-control="solo">S</button>
         <button class="track-remove" data-track-id="${track.id}">×</button>
       </div>
       <div class="track-controls">
@@ -119,6 +215,17 @@ export class TrackControls {
           <input type="range" min="0" max="100" value="${track.opacity * 100}"
                  data-track-id="${track.id}" data-control="opacity">
         </div>
+        <div class="track-control">
+          <label>Volume: ${Math.round(track.volume * 100)}%</label>
+          <input type="range" min="0" max="100" value="${track.volume * 100}"
+                 data-track-id="${track.id}" data-control="volume">
+        </div>
+        <div class="track-control">
+          <label>Offset (s)</label>
+          <input type="number" step="0.01" value="${track.startOffset}"
+                 data-track-id="${track.id}" data-control="offset">
+          <span class="track-alignment"></span>
+        </div>
       </div>
     `;
 
@@ -147,9 +254,61 @@ export class TrackControls {
       this.onTrackUpdate();
     });
 
+    // Mute / solo toggles
+    const muteBtn = div.querySelector('[data-control="mute"]') as HTMLButtonElement;
+    muteBtn.addEventListener('click', () => {
+      this.audioEngine.setTrackMuted(track.id, !track.muted);
+      this.onTrackUpdate();
+    });
+
+    const soloBtn = div.querySelector('[data-control="solo"]') as HTMLButtonElement;
+    soloBtn.addEventListener('click', () => {
+      this.audioEngine.setTrackSolo(track.id, !track.solo);
+      this.onTrackUpdate();
+    });
+
+    // Volume slider
+    const volumeInput = div.querySelector('[data-control="volume"]') as HTMLInputElement;
+    volumeInput.addEventListener('input', () => {
+      const volume = parseFloat(volumeInput.value) / 100;
+      this.audioEngine.setTrackVolume(track.id, volume);
+      const label = volumeInput.previousElementSibling as HTMLElement;
+      label.textContent = `Volume: ${Math.round(volume * 100)}%`;
+    });
+
+    // Start offset (positive delays the track, negative trims its beginning)
+    const offsetInput = div.querySelector('[data-control="offset"]') as HTMLInputElement;
+    offsetInput.addEventListener('change', () => {
+      const offset = parseFloat(offsetInput.value);
+      this.audioEngine.setTrackOffset(track.id, isNaN(offset) ? 0 : offset);
+      div.querySelector('.track-alignment')!.textContent = '';
+      this.onTrackUpdate();
+    });
+
+    this.applyMixState(div, track, this.audioEngine.hasSoloedTracks());
+
     return div;
   }
 
+  /**
+   * Refresh mute/solo indicators on all rendered track elements
+   */
+  private updateMixState(): void {
+    const anySoloed = this.audioEngine.hasSoloedTracks();
+    this.audioEngine.getTracks().forEach((track) => {
+      const trackEl = this.getTrackElement(track.id);
+      if (trackEl) {
+        this.applyMixState(trackEl, track, anySoloed);
+      }
+    });
+  }
+
+  private applyMixState(trackEl: HTMLElement, track: AudioTrack, anySoloed: boolean): void {
+    trackEl.querySelector('[data-control="mute"]')?.classList.toggle('active', track.muted);
+    trackEl.querySelector('[data-control="solo"]')?.classList.toggle('active', track.solo);
+    trackEl.classList.toggle('inaudible', !track.isAudible(anySoloed));
+  }
+
   private showLoading(): void {
     this.loadingOverlay.classList.add('active');
   }
@@ -0,0 +1,207 @@
+/**
+ * Decoded PCM audio (one Float32Array per channel, values in [-1, 1])
+ */
+export interface DecodedPCM {
+  sampleRate: number;
+  channelData: Float32Array[];
+}
+
+/**
+ * Pure TypeScript AIFF / AIFF-C decoder.
+ * Supports uncompressed big-endian PCM (8/16/24/32-bit), little-endian 'sowt'
+ * and 32/64-bit float ('fl32'/'fl64') compression types.
+ */
+export class AiffDecoder {
+  /**
+   * Check whether a buffer starts with an AIFF/AIFF-C header
+   */
+  static isAiff(data: ArrayBuffer): boolean {
+    if (data.byteLength < 12) {
+      return false;
+    }
+    const view = new DataView(data);
+    const form = AiffDecoder.readChunkId(view, 0);
+    const type = AiffDecoder.readChunkId(view, 8);
+    return form === 'FORM' && (type === 'AIFF' || type === 'AIFC');
+  }
+
+  /**
+   * Decode an AIFF/AIFF-C file into per-channel float samples
+   */
+  static decode(data: ArrayBuffer): DecodedPCM {
+    if (!AiffDecoder.isAiff(data)) {
+      throw new Error('Not an AIFF file');
+    }
+
+    const view = new DataView(data);
+    let numChannels = 0;
+    let numFrames = 0;
+    let sampleSize = 0;
+    let sampleRate = 0;
+    let compression = 'NONE';
+    let soundOffset = -1;
+    let soundLength = 0;
+
+    // Walk chunks after the 12-byte FORM header
+    let offset = 12;
+    while (offset + 8 <= view.byteLength) {
+      const chunkId = AiffDecoder.readChunkId(view, offset);
+      const chunkSize = view.getUint32(offset + 4);
+      const chunkStart = offset + 8;
+
+      if (
+        (chunkId === 'COMM' && chunkStart + 18 > view.byteLength) ||
+        (chunkId === 'SSND' && chunkStart + 8 > view.byteLength)
+      ) {
+        throw new Error(`Truncated AIFF file: the ${chunkId} chunk header is incomplete`);
+      }
+
+      if (chunkId === 'COMM') {
+        numChannels = view.getInt16(chunkStart);
+        numFrames = view.getUint32(chunkStart + 2);
+        sampleSize = view.getInt16(chunkStart + 6);
+        sampleRate = AiffDecoder.readExtended(view, chunkStart + 8);
+        if (chunkSize >= 22 && chunkStart + 22 <= view.byteLength) {
+          compression = AiffDecoder.readChunkId(view, chunkStart + 18);
+        }
+      } else if (chunkId === 'SSND') {
+        const dataOffset = view.getUint32(chunkStart);
+        soundOffset = chunkStart + 8 + dataOffset;
+        // A truncated file (e.g. a partial copy) decodes the samples that are present
+        soundLength = Math.max(
+          0,
+          Math.min(chunkSize - 8 - dataOffset, view.byteLength - soundOffset)
+        );
+      }
+
+      // Chunks are padded to an even number of bytes
+      offset = chunkStart + chunkSize + (chunkSize % 2);
+    }
+
+    if (numChannels <= 0 || sampleRate <= 0) {
+      throw new Error('AIFF file is missing a valid COMM chunk');
+    }
+    if (soundOffset < 0) {
+      throw new Error('AIFF file is missing an SSND chunk');
+    }
+
+    const channelData: Float32Array[] = [];
+    for (let c = 0; c < numChannels; c++) {
+      channelData.push(new Float32Array(numFrames));
+    }
+
+    const readSample = AiffDecoder.getSampleReader(view, compression, sampleSize);
+    const bytesPerSample = AiffDecoder.getBytesPerSample(compression, sampleSize);
+    const availableFrames = Math.floor(soundLength / (bytesPerSample * numChannels));
+    const framesToRead = Math.min(numFrames, availableFrames);
+
+    let position = soundOffset;
+    for (let i = 0; i < framesToRead; i++) {
+      for (let c = 0; c < numChannels; c++) {
+        channelData[c][i] = readSample(position);
+        position += bytesPerSample;
+      }
+    }
+
+    return { sampleRate, channelData };
+  }
+
+  /**
+   * Read a 4-character chunk identifier
+   */
+  private static readChunkId(view: DataView, offset: number): string {
+    return String.fromCharCode(
+      view.getUint8(offset),
+      view.getUint8(offset + 1),
+      view.getUint8(offset + 2),
+      view.getUint8(offset + 3)
+    );
+  }
+
+  /**
+   * Read an 80-bit IEEE 754 extended precision float (used for AIFF sample rate)
+   */
+  private static readExtended(view: DataView, offset: number): number {
+    const signExponent = view.getUint16(offset);
+    const hiMantissa = view.getUint32(offset + 2);
+    const loMantissa = view.getUint32(offset + 6);
+
+    const sign = signExponent & 0x8000 ? -1 : 1;
+    const exponent = signExponent & 0x7fff;
+
+    if (exponent === 0 && hiMantissa === 0 && loMantissa === 0) {
+      return 0;
+    }
+
+    const unbiased = exponent - 16383;
+    return (
+      sign * (hiMantissa * Math.pow(2, unbiased - 31) + loMantissa * Math.pow(2, unbiased - 63))
+    );
+  }
+
+  private static getBytesPerSample(compression: string, sampleSize: number): number {
+    switch (compression) {
+      case 'fl32':
+      case 'FL32':
+        return 4;
+      case 'fl64':
+      case 'FL64':
+        return 8;
+      default:
+        return Math.ceil(sampleSize / 8);
+    }
+  }
+
+  /**
+   * Build a reader that converts one sample at a byte offset to a float in [-1, 1]
+   */
+  private static getSampleReader(
+    view: DataView,
+    compression: string,
+    sampleSize: number
+  ): (offset: number) => number {
+    switch (compression) {
+      case 'NONE':
+      case 'twos':
+        return AiffDecoder.getIntegerReader(view, sampleSize, false);
+      case 'sowt':
+        return AiffDecoder.getIntegerReader(view, sampleSize, true);
+      case 'fl32':
+      case 'FL32':
+        return (offset) => view.getFloat32(offset);
+      case 'fl64':
+      case 'FL64':
+        return (offset) => view.getFloat64(offset);
+      default:
+        throw new Error(`Unsupported AIFF-C compression type: "${compression}"`);
+    }
+  }
+
+  private static getIntegerReader(
+    view: DataView,
+    sampleSize: number,
+    littleEndian: boolean
+  ): (offset: number) => number {
+    switch (Math.ceil(sampleSize / 8)) {
+      case 1:
+        return (offset) => view.getInt8(offset) / 0x80;
+      case 2:
+        return (offset) => view.getInt16(offset, littleEndian) / 0x8000;
+      case 3:
+        return (offset) => {
+          const b0 = view.getUint8(offset);
+          const b1 = view.getUint8(offset + 1);
+          const b2 = view.getUint8(offset + 2);
+          let value = littleEndian ? (b2 << 16) | (b1 << 8) | b0 : (b0 << 16) | (b1 << 8) | b2;
+          if (value & 0x800000) {
+            value -= 0x1000000;
+          }
+          return value / 0x800000;
+        };
+      case 4:
+        return (offset) => view.getInt32(offset, littleEndian) / 0x80000000;
+      default:
+        throw new Error(`Unsupported AIFF sample size: ${sampleSize} bits`);
+    }
+  }
+}
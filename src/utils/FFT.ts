@@ -0,0 +1,192 @@
+import type { WindowFunction } from '../types/visualizer.types';
+
+/**
+ * Radix-2 FFT for real input, with its tables precomputed per size. A real signal of
+ * `size` samples is transformed as a complex signal of `size / 2` samples (even samples
+ * as real parts, odd samples as imaginary parts) and then split into the real spectrum,
+ * which halves the work of a complex FFT.
+ *
+ * Instances keep working buffers, so use `FFT.forSize()` to share one per size instead
+ * of allocating per call. Not safe for concurrent use (transforms are synchronous).
+ */
+export class FFT {
+  static readonly WINDOW_FUNCTIONS: WindowFunction[] = ['hann', 'hamming', 'blackman-harris'];
+  static readonly MIN_SIZE = 256;
+  static readonly MAX_SIZE = 32768;
+
+  private static instances = new Map<number, FFT>();
+  private static windows = new Map<string, Float32Array>();
+
+  readonly size: number;
+  private readonly half: number;
+  private readonly cosTable: Float64Array; // cos(2πk / size), k < size / 2
+  private readonly sinTable: Float64Array; // sin(2πk / size), k < size / 2
+  private readonly bitReversal: Uint32Array; // Input order of the size / 2 complex FFT
+  private readonly real: Float64Array;
+  private readonly imag: Float64Array;
+
+  /**
+   * @throws Error if the size is not a power of two of at least 2
+   */
+  constructor(size: number) {
+    if (!Number.isInteger(size) || size < 2 || (size & (size - 1)) !== 0) {
+      throw new Error(`FFT size must be a power of two (got ${size})`);
+    }
+
+    this.size = size;
+    this.half = size / 2;
+    this.cosTable = new Float64Array(this.half);
+    this.sinTable = new Float64Array(this.half);
+    for (let k = 0; k < this.half; k++) {
+      const angle = (2 * Math.PI * k) / size;
+      this.cosTable[k] = Math.cos(angle);
+      this.sinTable[k] = Math.sin(angle);
+    }
+
+    this.bitReversal = new Uint32Array(this.half);
+    const bits = Math.log2(this.half);
+    for (let i = 0; i < this.half; i++) {
+      let reversed = 0;
+      for (let bit = 0; bit < bits; bit++) {
+        reversed = (reversed << 1) | ((i >> bit) & 1);
+      }
+      this.bitReversal[i] = reversed;
+    }
+
+    this.real = new Float64Array(this.half);
+    this.imag = new Float64Array(this.half);
+  }
+
+  /**
+   * Shared instance for a size (tables are built on first use)
+   */
+  static forSize(size: number): FFT {
+    let fft = FFT.instances.get(size);
+    if (!fft) {
+      fft = new FFT(size);
+      FFT.instances.set(size, fft);
+    }
+    return fft;
+  }
+
+  /**
+   * Whether a size is a power of two between MIN_SIZE and MAX_SIZE (the sizes offered for
+   * spectrum analysis)
+   */
+  static isSupportedSize(size: number): boolean {
+    return (
+      Number.isInteger(size) &&
+      size >= FFT.MIN_SIZE &&
+      size <= FFT.MAX_SIZE &&
+      (size & (size - 1)) === 0
+    );
+  }
+
+  /**
+   * Symmetric window coefficients for a size, computed once and shared (do not modify)
+   */
+  static getWindow(size: number, type: WindowFunction = 'hann'): Float32Array {
+    const key = `${type}:${size}`;
+    let window = FFT.windows.get(key);
+    if (!window) {
+      window = new Float32Array(size);
+      for (let i = 0; i < size; i++) {
+        const phase = (2 * Math.PI * i) / (size - 1);
+        if (type === 'hamming') {
+          window[i] = 0.54 - 0.46 * Math.cos(phase);
+        } else if (type === 'blackman-harris') {
+          // 4-term, -92 dB side lobes
+          window[i] =
+            0.35875 -
+            0.48829 * Math.cos(phase) +
+            0.14128 * Math.cos(2 * phase) -
+            0.01168 * Math.cos(3 * phase);
+        } else {
+          window[i] = 0.5 * (1 - Math.cos(phase));
+        }
+      }
+      FFT.windows.set(key, window);
+    }
+    return window;
+  }
+
+  /**
+   * Magnitude spectrum of real input: bins 0 to size / 2 - 1, bin k at k * sampleRate / size
+   * @param input - At least `size` samples (only the first `size` are used)
+   * @param window - Coefficients multiplied into the input (e.g. FFT.getWindow(size))
+   * @param output - Buffer to write to (allocated when omitted)
+   */
+  magnitudes(
+    input: Float32Array,
+    window: Float32Array | null = null,
+    output: Float32Array = new Float32Array(this.half)
+  ): Float32Array {
+    this.transform(input, window);
+
+    const { real, imag, half, cosTable, sinTable } = this;
+
+    // DC: the sum of the even and odd parts
+    output[0] = Math.abs(real[0] + imag[0]);
+
+    for (let k = 1; k < half; k++) {
+      // Z[k] and conj(Z[half - k]) give the spectra of the even (E) and odd (O) samples
+      const ar = real[k];
+      const ai = imag[k];
+      const br = real[half - k];
+      const bi = -imag[half - k];
+
+      const evenReal = (ar + br) / 2;
+      const evenImag = (ai + bi) / 2;
+      const oddReal = (ai - bi) / 2;
+      const oddImag = -(ar - br) / 2;
+
+      // X[k] = E[k] + e^(-2πik / size) * O[k]
+      const cos = cosTable[k];
+      const sin = sinTable[k];
+      const xReal = evenReal + cos * oddReal + sin * oddImag;
+      const xImag = evenImag + cos * oddImag - sin * oddReal;
+      output[k] = Math.sqrt(xReal * xReal + xImag * xImag);
+    }
+
+    return output;
+  }
+
+  /**
+   * Complex FFT of the packed input into real/imag (iterative, in place)
+   */
+  private transform(input: Float32Array, window: Float32Array | null): void {
+    const { real, imag, half, bitReversal, cosTable, sinTable, size } = this;
+
+    for (let n = 0; n < half; n++) {
+      const target = bitReversal[n];
+      if (window) {
+        real[target] = input[2 * n] * window[2 * n];
+        imag[target] = input[2 * n + 1] * window[2 * n + 1];
+      } else {
+        real[target] = input[2 * n];
+        imag[target] = input[2 * n + 1];
+      }
+    }
+
+    for (let length = 2; length <= half; length *= 2) {
+      const halfLength = length / 2;
+      const tableStep = size / length; // e^(-2πik / length) is table entry k * size / length
+
+      for (let start = 0; start < half; start += length) {
+        for (let k = 0; k < halfLength; k++) {
+          const cos = cosTable[k * tableStep];
+          const sin = sinTable[k * tableStep];
+          const a = start + k;
+          const b = a + halfLength;
+
+          const tReal = cos * real[b] + sin * imag[b];
+          const tImag = cos * imag[b] - sin * real[b];
+          real[b] = real[a] - tReal;
+          imag[b] = imag[a] - tImag;
+          real[a] += tReal;
+          imag[a] += tImag;
+        }
+      }
+    }
+  }
+}
@@ -1,4 +1,29 @@
+import { AudioDecoderRegistry } from '../core/AudioDecoderRegistry';
+
 export class FileLoader {
+  /**
+   * Validate if file is an audio file supported by a registered decoder
+   */
+  static isAudioFile(file: File): boolean {
+    return AudioDecoderRegistry.isSupported(file);
+  }
+
+  /**
+   * Filter supported audio files from a FileList
+   */
+  static filterAudioFiles(files: FileList | File[]): File[] {
+    const fileArray = Array.from(files);
+    return fileArray.filter((file) => this.isAudioFile(file));
+  }
+
+  /**
+   * Get the accept attribute value for audio file inputs
+   */
+  static getAcceptAttribute(): string {
+    const extensions = AudioDecoderRegistry.getSupportedExtensions().map((ext) => `.${ext}`);
+    return ['audio/*', ...extensions].join(',');
+  }
+
   /**
    * Validate if file is a WAV file
    */
@@ -53,9 +78,9 @@ export class FileLoader {
 
       const files = e.dataTransfer?.files;
       if (files) {
-        const wavFiles = this.filterWavFiles(files);
-        if (wavFiles.length > 0) {
-          onFiles(wavFiles);
+        const audioFiles = this.filterAudioFiles(files);
+        if (audioFiles.length > 0) {
+          onFiles(audioFiles);
         }
       }
     });
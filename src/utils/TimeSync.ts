@@ -39,4 +39,69 @@ export class TimeSync {
   static clampTime(time: number, duration: number): number {
     return Math.max(0, Math.min(time, duration));
   }
+
+  /**
+   * Format time as MM:SS.mmm (millisecond precision, for editable time fields)
+   */
+  static formatTimecode(seconds: number): string {
+    if (!isFinite(seconds) || seconds < 0) {
+      return '00:00.000';
+    }
+
+    const totalMs = Math.round(seconds * 1000);
+    const mins = Math.floor(totalMs / 60000);
+    const secs = Math.floor((totalMs % 60000) / 1000);
+    const ms = totalMs % 1000;
+
+    return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}.${ms.toString().padStart(3, '0')}`;
+  }
+
+  /**
+   * Parse a timecode into seconds. Accepts "ss.ms", "mm:ss.ms" or "hh:mm:ss.ms".
+   * @throws Error if the value is not a valid timecode
+   */
+  static parseTimecode(value: string): number {
+    const parts = value.trim().split(':');
+    const valid =
+      parts.length <= 3 &&
+      parts.every((part, i) =>
+        i === parts.length - 1 ? /^\d+(\.\d+)?$/.test(part) : /^\d+$/.test(part)
+      );
+    if (!valid) {
+      throw new Error(`Invalid time "${value}". Use seconds, mm:ss.ms or hh:mm:ss.ms`);
+    }
+
+    return parts.reduce((total, part) => total * 60 + parseFloat(part), 0);
+  }
+
+  /**
+   * Resolve an optional [start, end) range against a duration.
+   * Missing bounds default to the whole duration; bounds are clamped to [0, duration].
+   * @throws Error if the resolved range is empty
+   */
+  static resolveTimeRange(
+    startTime: number | undefined,
+    endTime: number | undefined,
+    duration: number
+  ): { start: number; end: number } {
+    const start = TimeSync.clampTime(startTime ?? 0, duration);
+    const end = TimeSync.clampTime(endTime ?? duration, duration);
+    if (end <= start) {
+      throw new Error(
+        `Invalid time range: end (${TimeSync.formatTimecode(end)}) must be after start (${TimeSync.formatTimecode(start)})`
+      );
+    }
+    return { start, end };
+  }
+
+  /**
+   * Map a linear playback time onto a loop region (times past loopEnd wrap back to loopStart)
+   */
+  static wrapLoopTime(time: number, loopStart: number, loopEnd: number): number {
+    const loopLength = loopEnd - loopStart;
+    if (loopLength <= 0 || time < loopEnd) {
+      return time;
+    }
+    return loopStart + ((time - loopStart) % loopLength);
+  }
 }
@@ -0,0 +1,195 @@
+import { describe, it, expect } from 'vitest';
+import { AiffDecoder } from '../AiffDecoder';
+
+/**
+ * Encode a sample rate as an 80-bit IEEE 754 extended float
+ */
+function writeExtended(view: DataView, offset: number, value: number): void {
+  const exponent = Math.floor(Math.log2(value));
+  const mantissa = value / Math.pow(2, exponent); // 1.xxx
+  view.setUint16(offset, exponent + 16383);
+  const hi = Math.floor(mantissa * Math.pow(2, 31));
+  view.setUint32(offset + 2, hi);
+  view.setUint32(offset + 6, 0);
+}
+
+/**
+ * Build a minimal AIFF (or AIFF-C) file from per-channel samples
+ */
+function createAiff(options: {
+  channels: number[][];
+  sampleRate: number;
+  sampleSize: 8 | 16 | 24 | 32;
+  compression?: 'sowt' | 'fl32';
+}): ArrayBuffer {
+  const { channels, sampleRate, sampleSize, compression } = options;
+  const isAifc = compression !== undefined;
+  const numChannels = channels.length;
+  const numFrames = channels[0].length;
+  const bytesPerSample = compression === 'fl32' ? 4 : sampleSize / 8;
+  const soundBytes = numFrames * numChannels * bytesPerSample;
+  const commSize = isAifc ? 24 : 18; // AIFC adds compression type + empty pstring
+  const totalSize = 12 + 8 + commSize + 8 + 8 + soundBytes;
+
+  const buffer = new ArrayBuffer(totalSize);
+  const view = new DataView(buffer);
+  const writeId = (offset: number, id: string): void => {
+    for (let i = 0; i < 4; i++) {
+      view.setUint8(offset + i, id.charCodeAt(i));
+    }
+  };
+
+  writeId(0, 'FORM');
+  view.setUint32(4, totalSize - 8);
+  writeId(8, isAifc ? 'AIFC' : 'AIFF');
+
+  let offset = 12;
+  writeId(offset, 'COMM');
+  view.setUint32(offset + 4, commSize);
+  view.setInt16(offset + 8, numChannels);
+  view.setUint32(offset + 10, numFrames);
+  view.setInt16(offset + 14, sampleSize);
+  writeExtended(view, offset + 16, sampleRate);
+  if (isAifc) {
+    writeId(offset + 26, compression);
+  }
+  offset += 8 + commSize;
+
+  writeId(offset, 'SSND');
+  view.setUint32(offset + 4, 8 + soundBytes);
+  view.setUint32(offset + 8, 0);
+  view.setUint32(offset + 12, 0);
+  offset += 16;
+
+  const littleEndian = compression === 'sowt';
+  for (let i = 0; i < numFrames; i++) {
+    for (let c = 0; c < numChannels; c++) {
+      const sample = channels[c][i];
+      if (compression === 'fl32') {
+        view.setFloat32(offset, sample);
+      } else if (sampleSize === 8) {
+        view.setInt8(offset, Math.round(sample * 0x7f));
+      } else if (sampleSize === 16) {
+        view.setInt16(offset, Math.round(sample * 0x7fff), littleEndian);
+      } else if (sampleSize === 24) {
+        const value = Math.round(sample * 0x7fffff) & 0xffffff;
+        view.setUint8(offset, (value >> 16) & 0xff);
+        view.setUint8(offset + 1, (value >> 8) & 0xff);
+        view.setUint8(offset + 2, value & 0xff);
+      } else {
+        view.setInt32(offset, Math.round(sample * 0x7fffffff), littleEndian);
+      }
+      offset += bytesPerSample;
+    }
+  }
+
+  return buffer;
+}
+
+describe('AiffDecoder', () => {
+  describe('isAiff', () => {
+    it('should detect AIFF and AIFF-C headers', () => {
+      const aiff = createAiff({ channels: [[0]], sampleRate: 44100, sampleSize: 16 });
+      const aifc = createAiff({
+        channels: [[0]],
+        sampleRate: 44100,
+        sampleSize: 16,
+        compression: 'sowt',
+      });
+
+      expect(AiffDecoder.isAiff(aiff)).toBe(true);
+      expect(AiffDecoder.isAiff(aifc)).toBe(true);
+    });
+
+    it('should reject non-AIFF data', () => {
+      const riff = new TextEncoder().encode('RIFF\0\0\0\0WAVE').buffer;
+
+      expect(AiffDecoder.isAiff(riff)).toBe(false);
+      expect(AiffDecoder.isAiff(new ArrayBuffer(4))).toBe(false);
+    });
+  });
+
+  describe('decode', () => {
+    it('should decode 16-bit stereo PCM', () => {
+      const left = [0, 0.5, -0.5, 0.25];
+      const right = [0.1, -0.1, 0.9, -0.9];
+      const data = createAiff({ channels: [left, right], sampleRate: 44100, sampleSize: 16 });
+
+      const decoded = AiffDecoder.decode(data);
+
+      expect(decoded.sampleRate).toBe(44100);
+      expect(decoded.channelData).toHaveLength(2);
+      left.forEach((v, i) => expect(decoded.channelData[0][i]).toBeCloseTo(v, 3));
+      right.forEach((v, i) => expect(decoded.channelData[1][i]).toBeCloseTo(v, 3));
+    });
+
+    it('should decode 8-bit, 24-bit and 32-bit PCM', () => {
+      const samples = [0, 0.5, -0.5, 0.75];
+
+      for (const sampleSize of [8, 24, 32] as const) {
+        const data = createAiff({ channels: [samples], sampleRate: 48000, sampleSize });
+        const decoded = AiffDecoder.decode(data);
+
+        expect(decoded.sampleRate).toBe(48000);
+        samples.forEach((v, i) => expect(decoded.channelData[0][i]).toBeCloseTo(v, 1));
+      }
+    });
+
+    it('should decode little-endian AIFF-C (sowt)', () => {
+      const samples = [0.3, -0.6];
+      const data = createAiff({
+        channels: [samples],
+        sampleRate: 96000,
+        sampleSize: 16,
+        compression: 'sowt',
+      });
+
+      const decoded = AiffDecoder.decode(data);
+
+      expect(decoded.sampleRate).toBe(96000);
+      samples.forEach((v, i) => expect(decoded.channelData[0][i]).toBeCloseTo(v, 3));
+    });
+
+    it('should decode 32-bit float AIFF-C (fl32)', () => {
+      const samples = [0.123, -0.456];
+      const data = createAiff({
+        channels: [samples],
+        sampleRate: 22050,
+        sampleSize: 32,
+        compression: 'fl32',
+      });
+
+      const decoded = AiffDecoder.decode(data);
+
+      samples.forEach((v, i) => expect(decoded.channelData[0][i]).toBeCloseTo(v, 5));
+    });
+
+    it('should decode the frames present in a truncated file', () => {
+      const left = [0.1, 0.2, 0.3, 0.4];
+      const right = [-0.1, -0.2, -0.3, -0.4];
+      const data = createAiff({ channels: [left, right], sampleRate: 44100, sampleSize: 16 });
+      // Cut the file in the middle of the third frame (4 bytes per stereo 16-bit frame)
+      const truncated = data.slice(0, data.byteLength - 4 - 2);
+
+      const decoded = AiffDecoder.decode(truncated);
+
+      expect(decoded.channelData[0]).toHaveLength(4);
+      expect(decoded.channelData[0][1]).toBeCloseTo(0.2, 3);
+      expect(decoded.channelData[1][1]).toBeCloseTo(-0.2, 3);
+      expect(Array.from(decoded.channelData[0].slice(2))).toEqual([0, 0]);
+      expect(Array.from(decoded.channelData[1].slice(2))).toEqual([0, 0]);
+    });
+
+    it('should throw a descriptive error when a chunk header is cut off', () => {
+      const data = createAiff({ channels: [[0.5, 0.5]], sampleRate: 44100, sampleSize: 16 });
+      // Keep the SSND chunk id and size but not its offset/block size fields
+      const truncated = data.slice(0, 12 + 8 + 18 + 8 + 4);
+
+      expect(() => AiffDecoder.decode(truncated)).toThrow('Truncated AIFF file');
+    });
+
+    it('should throw for non-AIFF input', () => {
+      expect(() => AiffDecoder.decode(new ArrayBuffer(16))).toThrow('Not an AIFF file');
+    });
+  });
+});
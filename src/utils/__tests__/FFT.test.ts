@@ -0,0 +1,217 @@
+import { describe, it, expect } from 'vitest';
+import { FFT } from '../FFT';
+
+/**
+ * The recursive Cooley-Tukey FFT AudioTrack used before the shared FFT module
+ * (interleaved complex output [real0, imag0, real1, imag1, ...])
+ */
+function recursiveFFT(input: Float32Array): Float32Array {
+  const N = input.length;
+  if (N <= 1) {
+    return new Float32Array([input[0], 0]);
+  }
+
+  const even = new Float32Array(N / 2);
+  const odd = new Float32Array(N / 2);
+  for (let i = 0; i < N / 2; i++) {
+    even[i] = input[i * 2];
+    odd[i] = input[i * 2 + 1];
+  }
+
+  const evenFFT = recursiveFFT(even);
+  const oddFFT = recursiveFFT(odd);
+  const output = new Float32Array(N * 2);
+
+  for (let k = 0; k < N / 2; k++) {
+    const angle = (-2 * Math.PI * k) / N;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    const tReal = cos * oddFFT[k * 2] - sin * oddFFT[k * 2 + 1];
+    const tImag = sin * oddFFT[k * 2] + cos * oddFFT[k * 2 + 1];
+
+    output[k * 2] = evenFFT[k * 2] + tReal;
+    output[k * 2 + 1] = evenFFT[k * 2 + 1] + tImag;
+    output[(k + N / 2) * 2] = evenFFT[k * 2] - tReal;
+    output[(k + N / 2) * 2 + 1] = evenFFT[k * 2 + 1] - tImag;
+  }
+
+  return output;
+}
+
+/**
+ * Hann-windowed magnitudes as AudioTrack computed them before the shared FFT module
+ */
+function referenceMagnitudes(samples: Float32Array): Float32Array {
+  const size = samples.length;
+  const windowed = new Float32Array(samples);
+  for (let i = 0; i < size; i++) {
+    windowed[i] *= 0.5 * (1 - Math.cos((2 * Math.PI * i) / (size - 1)));
+  }
+
+  const spectrum = recursiveFFT(windowed);
+  const magnitudes = new Float32Array(size / 2);
+  for (let i = 0; i < size / 2; i++) {
+    magnitudes[i] = Math.sqrt(spectrum[i * 2] ** 2 + spectrum[i * 2 + 1] ** 2);
+  }
+  return magnitudes;
+}
+
+/**
+ * Direct O(n²) DFT magnitudes
+ */
+function dftMagnitudes(samples: Float32Array): Float64Array {
+  const size = samples.length;
+  const magnitudes = new Float64Array(size / 2);
+  for (let k = 0; k < size / 2; k++) {
+    let real = 0;
+    let imag = 0;
+    for (let n = 0; n < size; n++) {
+      const angle = (-2 * Math.PI * k * n) / size;
+      real += samples[n] * Math.cos(angle);
+      imag += samples[n] * Math.sin(angle);
+    }
+    magnitudes[k] = Math.sqrt(real * real + imag * imag);
+  }
+  return magnitudes;
+}
+
+/**
+ * Deterministic test signal: a few tones plus pseudo-random noise
+ */
+function createSignal(size: number, seed: number = 1): Float32Array {
+  const samples = new Float32Array(size);
+  let state = seed;
+  for (let i = 0; i < size; i++) {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    const noise = state / 2147483648 - 0.5;
+    samples[i] =
+      0.5 * Math.sin((2 * Math.PI * 5 * i) / size) +
+      0.25 * Math.cos((2 * Math.PI * 37.3 * i) / size) +
+      0.1 * noise;
+  }
+  return samples;
+}
+
+function expectClose(actual: ArrayLike<number>, expected: ArrayLike<number>): void {
+  expect(actual.length).toBe(expected.length);
+  let peak = 0;
+  for (let i = 0; i < expected.length; i++) {
+    peak = Math.max(peak, Math.abs(expected[i]));
+  }
+  for (let i = 0; i < expected.length; i++) {
+    // Float32 rounding of the reference, relative to the largest bin
+    expect(Math.abs(actual[i] - expected[i])).toBeLessThan(peak * 1e-5);
+  }
+}
+
+describe('FFT', () => {
+  describe('constructor', () => {
+    it('should reject sizes that are not powers of two', () => {
+      expect(() => new FFT(1000)).toThrow('power of two');
+      expect(() => new FFT(1)).toThrow('power of two');
+      expect(() => new FFT(0)).toThrow('power of two');
+    });
+  });
+
+  describe('forSize', () => {
+    it('should share one instance per size', () => {
+      expect(FFT.forSize(512)).toBe(FFT.forSize(512));
+      expect(FFT.forSize(512)).not.toBe(FFT.forSize(1024));
+    });
+  });
+
+  describe('getWindow', () => {
+    it('should cache the Hann window per size', () => {
+      const window = FFT.getWindow(256);
+
+      expect(FFT.getWindow(256)).toBe(window);
+      expect(window[0]).toBe(0);
+      expect(window[255]).toBeCloseTo(0);
+      expect(window[127]).toBeCloseTo(1, 3);
+    });
+
+    it('should compute Hamming and Blackman-Harris windows', () => {
+      const hamming = FFT.getWindow(257, 'hamming');
+      const blackmanHarris = FFT.getWindow(257, 'blackman-harris');
+
+      expect(hamming).not.toBe(FFT.getWindow(257));
+      expect(hamming[0]).toBeCloseTo(0.08);
+      expect(hamming[128]).toBeCloseTo(1);
+      expect(blackmanHarris[0]).toBeCloseTo(0.00006, 5);
+      expect(blackmanHarris[128]).toBeCloseTo(1);
+    });
+  });
+
+  describe('isSupportedSize', () => {
+    it('should accept powers of two in the analysis range', () => {
+      expect(FFT.isSupportedSize(256)).toBe(true);
+      expect(FFT.isSupportedSize(32768)).toBe(true);
+      expect(FFT.isSupportedSize(128)).toBe(false);
+      expect(FFT.isSupportedSize(3000)).toBe(false);
+    });
+  });
+
+  describe('magnitudes', () => {
+    it('should match a direct DFT', () => {
+      for (const size of [2, 4, 8, 64, 256]) {
+        const samples = createSignal(size, size);
+        expectClose(new FFT(size).magnitudes(samples), dftMagnitudes(samples));
+      }
+    });
+
+    it('should match the previous recursive FFT with a Hann window', () => {
+      for (const size of [256, 1024, 2048, 8192]) {
+        const samples = createSignal(size, 7);
+        const magnitudes = FFT.forSize(size).magnitudes(samples, FFT.getWindow(size));
+
+        expectClose(magnitudes, referenceMagnitudes(samples));
+      }
+    });
+
+    it('should put a pure tone in its bin', () => {
+      const size = 1024;
+      const samples = new Float32Array(size);
+      for (let i = 0; i < size; i++) {
+        samples[i] = Math.sin((2 * Math.PI * 100 * i) / size);
+      }
+
+      const magnitudes = new FFT(size).magnitudes(samples);
+      const peak = magnitudes.indexOf(Math.max(...magnitudes));
+
+      expect(peak).toBe(100);
+      expect(magnitudes[100]).toBeCloseTo(size / 2, 2);
+      expect(magnitudes[99]).toBeLessThan(1e-3);
+    });
+
+    it('should give the sum of the samples at DC', () => {
+      const samples = new Float32Array([1, 2, 3, 4, -1, 0.5, 0, 2]);
+
+      expect(new FFT(8).magnitudes(samples)[0]).toBeCloseTo(11.5);
+    });
+
+    it('should write into the output buffer and give the same result on reuse', () => {
+      const fft = new FFT(512);
+      const output = new Float32Array(256);
+      const first = createSignal(512, 3);
+
+      const result = fft.magnitudes(first, null, output);
+      const copy = new Float32Array(result);
+      fft.magnitudes(createSignal(512, 4), null, output);
+      fft.magnitudes(first, null, output);
+
+      expect(result).toBe(output);
+      expect(Array.from(output)).toEqual(Array.from(copy));
+    });
+
+    it('should only use the first size samples of longer input', () => {
+      const samples = createSignal(128, 9);
+      const longer = new Float32Array(256);
+      longer.set(samples);
+      longer.fill(1, 128);
+
+      expect(Array.from(new FFT(128).magnitudes(longer))).toEqual(
+        Array.from(new FFT(128).magnitudes(samples))
+      );
+    });
+  });
+});
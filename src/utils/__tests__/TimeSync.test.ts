@@ -73,4 +73,69 @@ describe('TimeSync', () => {
       expect(TimeSync.clampTime(10, 10)).toBe(10);
     });
   });
+
+  describe('formatTimecode', () => {
+    it('should format with millisecond precision', () => {
+      expect(TimeSync.formatTimecode(0)).toBe('00:00.000');
+      expect(TimeSync.formatTimecode(65.25)).toBe('01:05.250');
+      expect(TimeSync.formatTimecode(3600)).toBe('60:00.000');
+    });
+
+    it('should handle invalid values', () => {
+      expect(TimeSync.formatTimecode(-1)).toBe('00:00.000');
+      expect(TimeSync.formatTimecode(NaN)).toBe('00:00.000');
+    });
+  });
+
+  describe('parseTimecode', () => {
+    it('should parse seconds, mm:ss.ms and hh:mm:ss.ms', () => {
+      expect(TimeSync.parseTimecode('12.5')).toBe(12.5);
+      expect(TimeSync.parseTimecode('01:05.250')).toBeCloseTo(65.25);
+      expect(TimeSync.parseTimecode('1:00:00')).toBe(3600);
+    });
+
+    it('should round-trip formatted timecodes', () => {
+      expect(TimeSync.parseTimecode(TimeSync.formatTimecode(83.125))).toBeCloseTo(83.125);
+    });
+
+    it('should reject invalid input', () => {
+      expect(() => TimeSync.parseTimecode('abc')).toThrow('Invalid time');
+      expect(() => TimeSync.parseTimecode('1:2:3:4')).toThrow('Invalid time');
+      expect(() => TimeSync.parseTimecode('-5')).toThrow('Invalid time');
+      expect(() => TimeSync.parseTimecode('1.5:00')).toThrow('Invalid time');
+    });
+  });
+
+  describe('resolveTimeRange', () => {
+    it('should default to the whole duration', () => {
+      expect(TimeSync.resolveTimeRange(undefined, undefined, 10)).toEqual({ start: 0, end: 10 });
+    });
+
+    it('should clamp bounds to the duration', () => {
+      expect(TimeSync.resolveTimeRange(-1, 20, 10)).toEqual({ start: 0, end: 10 });
+      expect(TimeSync.resolveTimeRange(2, 5, 10)).toEqual({ start: 2, end: 5 });
+    });
+
+    it('should reject empty ranges', () => {
+      expect(() => TimeSync.resolveTimeRange(5, 5, 10)).toThrow('Invalid time range');
+      expect(() => TimeSync.resolveTimeRange(6, 3, 10)).toThrow('Invalid time range');
+    });
+  });
+
+  describe('wrapLoopTime', () => {
+    it('should leave times before the loop end unchanged', () => {
+      expect(TimeSync.wrapLoopTime(1, 2, 4)).toBe(1);
+      expect(TimeSync.wrapLoopTime(3.5, 2, 4)).toBe(3.5);
+    });
+
+    it('should wrap times past the loop end back into the region', () => {
+      expect(TimeSync.wrapLoopTime(4, 2, 4)).toBe(2);
+      expect(TimeSync.wrapLoopTime(5, 2, 4)).toBe(3);
+      expect(TimeSync.wrapLoopTime(9.5, 2, 4)).toBeCloseTo(3.5);
+    });
+
+    it('should ignore empty loop regions', () => {
+      expect(TimeSync.wrapLoopTime(5, 4, 4)).toBe(5);
+    });
+  });
 });
@@ -42,6 +42,32 @@ export class ColorManager {
     return `rgba(${r}, ${g}, ${b}, ${alpha})`;
   }
 
+  /**
+   * Heatmap colors for a track: black at 0, the track color at 3/4 and white at 255.
+   * Colors are premultiplied by the opacity (drawn over black).
+   * @returns 256 RGB triples (index * 3 is the red component of level index)
+   */
+  static createColorRamp(hex: string, opacity: number = 1): Uint8ClampedArray {
+    const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
+    const color = result ? result.slice(1).map((part) => parseInt(part, 16)) : [255, 255, 255];
+    const ramp = new Uint8ClampedArray(256 * 3);
+    const knee = 0.75;
+
+    for (let level = 0; level < 256; level++) {
+      const position = level / 255;
+      for (let channel = 0; channel < 3; channel++) {
+        // Fade in the track color, then blend it toward white for the loudest levels
+        const value =
+          position <= knee
+            ? color[channel] * (position / knee)
+            : color[channel] + (255 - color[channel]) * ((position - knee) / (1 - knee));
+        ramp[level * 3 + channel] = Math.round(value * opacity);
+      }
+    }
+
+    return ramp;
+  }
+
   /**
    * Validate hex color
    */
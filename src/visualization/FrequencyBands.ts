@@ -0,0 +1,279 @@
+import type { FrequencyScale, SpectrumAnalysis, SpectrumSettings } from '../types/visualizer.types';
+import { FFT } from '../utils/FFT';
+import { SpectrumLevels } from './SpectrumLevels';
+
+/**
+ * One bar of the spectrum layouts, in Hz
+ */
+export interface FrequencyBand {
+  low: number;
+  center: number;
+  high: number;
+}
+
+/**
+ * Maps FFT bins onto the bars of the spectrum layouts: evenly spaced on a linear, log or
+ * mel axis, or standard (base-2, 1 kHz reference) octave and third-octave bands.
+ */
+export class FrequencyBands {
+  static readonly SCALES: FrequencyScale[] = ['linear', 'log', 'mel', 'octave', 'third-octave'];
+  static readonly ANALYSIS_MODES: SpectrumAnalysis[] = ['latest', 'average'];
+
+  static readonly DEFAULT_SETTINGS: SpectrumSettings = {
+    frequencyScale: 'log',
+    minFrequency: 20,
+    maxFrequency: 20000,
+    barCount: 96,
+    fftSize: 4096,
+    windowFunction: 'hann',
+    analysis: 'latest',
+    overlap: 0.5,
+    minDecibels: -90,
+    maxDecibels: 0,
+    showAxis: false,
+  };
+
+  // Frequencies marked on the axis of the spectrum layouts (those inside the bands)
+  static readonly AXIS_FREQUENCIES = [20, 50, 100, 200, 500, 1000, 2000, 5000, 10000, 20000];
+
+  static readonly MAX_BAR_COUNT = 1024;
+  static readonly MAX_OVERLAP = 0.95;
+
+  /**
+   * Complete spectrum settings from a partial, using the defaults for missing values
+   */
+  static resolve(settings?: Partial<SpectrumSettings>): SpectrumSettings {
+    return { ...FrequencyBands.DEFAULT_SETTINGS, ...settings };
+  }
+
+  /**
+   * Check spectrum settings
+   * @throws Error if a setting is out of range
+   */
+  static validate(settings: Partial<SpectrumSettings>): void {
+    const { frequencyScale, minFrequency, maxFrequency, barCount } = settings;
+    const { fftSize, windowFunction, analysis, overlap } = settings;
+    const { minDecibels, maxDecibels, showAxis } = settings;
+
+    if (frequencyScale !== undefined && !FrequencyBands.SCALES.includes(frequencyScale)) {
+      throw new Error(
+        `Invalid frequencyScale: "${frequencyScale}". Must be one of: ${FrequencyBands.SCALES.join(', ')}`
+      );
+    }
+    if (minFrequency !== undefined && !(minFrequency >= 0)) {
+      throw new Error('minFrequency must be 0 Hz or more');
+    }
+    if (maxFrequency !== undefined && !(maxFrequency > 0)) {
+      throw new Error('maxFrequency must be greater than 0 Hz');
+    }
+
+    const resolved = FrequencyBands.resolve(settings);
+    if (resolved.maxFrequency <= resolved.minFrequency) {
+      throw new Error('maxFrequency must be greater than minFrequency');
+    }
+    if (
+      resolved.frequencyScale !== 'linear' &&
+      resolved.frequencyScale !== 'mel' &&
+      resolved.minFrequency <= 0
+    ) {
+      throw new Error(
+        `minFrequency must be greater than 0 Hz for the ${resolved.frequencyScale} scale`
+      );
+    }
+    if (
+      barCount !== undefined &&
+      (!Number.isInteger(barCount) || barCount < 1 || barCount > FrequencyBands.MAX_BAR_COUNT)
+    ) {
+      throw new Error(`barCount must be an integer between 1 and ${FrequencyBands.MAX_BAR_COUNT}`);
+    }
+    if (fftSize !== undefined && !FFT.isSupportedSize(fftSize)) {
+      throw new Error(
+        `fftSize must be a power of two between ${FFT.MIN_SIZE} and ${FFT.MAX_SIZE} (got ${fftSize})`
+      );
+    }
+    if (windowFunction !== undefined && !FFT.WINDOW_FUNCTIONS.includes(windowFunction)) {
+      throw new Error(
+        `Invalid windowFunction: "${windowFunction}". Must be one of: ${FFT.WINDOW_FUNCTIONS.join(', ')}`
+      );
+    }
+    if (analysis !== undefined && !FrequencyBands.ANALYSIS_MODES.includes(analysis)) {
+      throw new Error(
+        `Invalid analysis: "${analysis}". Must be one of: ${FrequencyBands.ANALYSIS_MODES.join(', ')}`
+      );
+    }
+    if (overlap !== undefined && !(overlap >= 0 && overlap <= FrequencyBands.MAX_OVERLAP)) {
+      throw new Error(`overlap must be between 0 and ${FrequencyBands.MAX_OVERLAP}`);
+    }
+    if (
+      minDecibels !== undefined &&
+      !(minDecibels >= SpectrumLevels.FLOOR_DECIBELS && minDecibels < SpectrumLevels.MAX_DECIBELS)
+    ) {
+      throw new Error(
+        `minDecibels must be between ${SpectrumLevels.FLOOR_DECIBELS} and ${SpectrumLevels.MAX_DECIBELS} dBFS`
+      );
+    }
+    if (
+      maxDecibels !== undefined &&
+      !(maxDecibels > SpectrumLevels.FLOOR_DECIBELS && maxDecibels <= SpectrumLevels.MAX_DECIBELS)
+    ) {
+      throw new Error(
+        `maxDecibels must be between ${SpectrumLevels.FLOOR_DECIBELS} and ${SpectrumLevels.MAX_DECIBELS} dBFS`
+      );
+    }
+    if (resolved.maxDecibels <= resolved.minDecibels) {
+      throw new Error('maxDecibels must be greater than minDecibels');
+    }
+    if (showAxis !== undefined && typeof showAxis !== 'boolean') {
+      throw new Error('showAxis must be a boolean');
+    }
+  }
+
+  /**
+   * Bands from low to high frequency
+   * @param topFrequency - Highest analysed frequency (the range is cut off there)
+   */
+  static createBands(settings: SpectrumSettings, topFrequency: number): FrequencyBand[] {
+    const minFrequency = settings.minFrequency;
+    const maxFrequency = Math.min(settings.maxFrequency, topFrequency);
+    if (maxFrequency <= minFrequency) {
+      return [];
+    }
+
+    if (settings.frequencyScale === 'octave' || settings.frequencyScale === 'third-octave') {
+      const fraction = settings.frequencyScale === 'octave' ? 1 : 3;
+      return FrequencyBands.createOctaveBands(minFrequency, maxFrequency, fraction);
+    }
+
+    // Band edges are evenly spaced on the scale
+    const scale = settings.frequencyScale;
+    const scaleMin = FrequencyBands.toScale(minFrequency, scale);
+    const step = (FrequencyBands.toScale(maxFrequency, scale) - scaleMin) / settings.barCount;
+    const bands: FrequencyBand[] = [];
+
+    for (let i = 0; i < settings.barCount; i++) {
+      bands.push({
+        low: FrequencyBands.fromScale(scaleMin + step * i, scale),
+        center: FrequencyBands.fromScale(scaleMin + step * (i + 0.5), scale),
+        high: FrequencyBands.fromScale(scaleMin + step * (i + 1), scale),
+      });
+    }
+
+    return bands;
+  }
+
+  /**
+   * Magnitude of each band: the largest bin inside it, or the magnitude interpolated at
+   * the band's center when the band is narrower than a bin
+   * @param binWidth - Frequency spacing of the bins in Hz (bin i is at i * binWidth)
+   */
+  static aggregate(
+    magnitudes: Float32Array,
+    binWidth: number,
+    bands: FrequencyBand[],
+    output: Float32Array = new Float32Array(bands.length)
+  ): Float32Array {
+    const numBins = magnitudes.length;
+
+    for (let b = 0; b < bands.length; b++) {
+      const band = bands[b];
+      const startBin = Math.ceil(band.low / binWidth);
+      const endBin = Math.min(Math.ceil(band.high / binWidth), numBins);
+
+      if (endBin > startBin) {
+        let max = 0;
+        for (let i = startBin; i < endBin; i++) {
+          if (magnitudes[i] > max) {
+            max = magnitudes[i];
+          }
+        }
+        output[b] = max;
+      } else {
+        const position = band.center / binWidth;
+        const index = Math.floor(position);
+        if (index >= numBins - 1) {
+          output[b] = index === numBins - 1 ? magnitudes[index] : 0;
+        } else {
+          const fraction = position - index;
+          output[b] = magnitudes[index] + (magnitudes[index + 1] - magnitudes[index]) * fraction;
+        }
+      }
+    }
+
+    return output;
+  }
+
+  /**
+   * Position of a frequency along the bars, in bars from the left edge of the first band
+   * (interpolated on a log axis inside a band)
+   * @returns The position, or null if no band contains the frequency
+   */
+  static positionOf(frequency: number, bands: FrequencyBand[]): number | null {
+    for (let b = 0; b < bands.length; b++) {
+      const { low, high } = bands[b];
+      if (frequency >= low && frequency <= high) {
+        const fraction =
+          low > 0
+            ? Math.log(frequency / low) / Math.log(high / low)
+            : (frequency - low) / (high - low);
+        return b + fraction;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Axis label of a frequency (e.g. "500", "2k", "12.5k")
+   */
+  static formatFrequency(hz: number): string {
+    return hz >= 1000 ? `${parseFloat((hz / 1000).toFixed(1))}k` : `${Math.round(hz)}`;
+  }
+
+  /**
+   * Convert Hz to mel (O'Shaughnessy's formula)
+   */
+  static hzToMel(hz: number): number {
+    return 2595 * Math.log10(1 + hz / 700);
+  }
+
+  /**
+   * Convert mel to Hz
+   */
+  static melToHz(mel: number): number {
+    return 700 * (Math.pow(10, mel / 2595) - 1);
+  }
+
+  /**
+   * Bands of 1/fraction octave whose centers (1000 * 2^(n/fraction) Hz) lie in the range
+   */
+  private static createOctaveBands(
+    minFrequency: number,
+    maxFrequency: number,
+    fraction: number
+  ): FrequencyBand[] {
+    const halfBand = Math.pow(2, 1 / (2 * fraction));
+    const first = Math.ceil(fraction * Math.log2(minFrequency / 1000) - 1e-9);
+    const last = Math.floor(fraction * Math.log2(maxFrequency / 1000) + 1e-9);
+    const bands: FrequencyBand[] = [];
+
+    for (let n = first; n <= last; n++) {
+      const center = 1000 * Math.pow(2, n / fraction);
+      bands.push({ low: center / halfBand, center, high: center * halfBand });
+    }
+
+    return bands;
+  }
+
+  private static toScale(hz: number, scale: FrequencyScale): number {
+    if (scale === 'log') {
+      return Math.log(hz);
+    }
+    return scale === 'mel' ? FrequencyBands.hzToMel(hz) : hz;
+  }
+
+  private static fromScale(value: number, scale: FrequencyScale): number {
+    if (scale === 'log') {
+      return Math.exp(value);
+    }
+    return scale === 'mel' ? FrequencyBands.melToHz(value) : value;
+  }
+}
@@ -0,0 +1,80 @@
+import type { WindowFunction } from '../types/visualizer.types';
+import { FFT } from '../utils/FFT';
+
+/**
+ * Calibrates FFT magnitudes as levels in dBFS. The window's coherent gain (the sum of its
+ * coefficients) is divided out, so a full-scale sine reads 0 dBFS whatever the FFT size
+ * or window function, and levels are comparable between songs and settings.
+ */
+export class SpectrumLevels {
+  static readonly FLOOR_DECIBELS = -200; // Level reported for silence
+  static readonly MAX_DECIBELS = 20; // Highest level accepted for a range
+
+  private static scales = new Map<string, number>();
+
+  /**
+   * Factor converting FFT magnitudes to the peak amplitude of a sine: 2 / sum of the window
+   */
+  static amplitudeScale(fftSize: number, windowFunction: WindowFunction): number {
+    const key = `${windowFunction}:${fftSize}`;
+    let scale = SpectrumLevels.scales.get(key);
+    if (scale === undefined) {
+      let sum = 0;
+      for (const coefficient of FFT.getWindow(fftSize, windowFunction)) {
+        sum += coefficient;
+      }
+      scale = 2 / sum;
+      SpectrumLevels.scales.set(key, scale);
+    }
+    return scale;
+  }
+
+  /**
+   * Convert FFT magnitudes to dBFS
+   * @param output - Buffer to write to (by default the magnitudes are converted in place)
+   */
+  static toDecibels(
+    magnitudes: Float32Array,
+    fftSize: number,
+    windowFunction: WindowFunction,
+    output: Float32Array = magnitudes
+  ): Float32Array {
+    const scale = SpectrumLevels.amplitudeScale(fftSize, windowFunction);
+
+    for (let i = 0; i < magnitudes.length; i++) {
+      const amplitude = magnitudes[i] * scale;
+      output[i] =
+        amplitude > 0
+          ? Math.max(20 * Math.log10(amplitude), SpectrumLevels.FLOOR_DECIBELS)
+          : SpectrumLevels.FLOOR_DECIBELS;
+    }
+
+    return output;
+  }
+
+  /**
+   * Position of a level in a dB range: 0 at minDecibels, 1 at maxDecibels (clamped)
+   */
+  static normalize(decibels: number, minDecibels: number, maxDecibels: number): number {
+    const position = (decibels - minDecibels) / (maxDecibels - minDecibels);
+    return Math.max(0, Math.min(1, position));
+  }
+
+  /**
+   * Levels to mark on an axis: multiples of the smallest 1-2-5 step (1 to 50 dB) that
+   * splits the range into at most maxSteps steps, from low to high
+   */
+  static decibelTicks(minDecibels: number, maxDecibels: number, maxSteps: number = 8): number[] {
+    const steps = [1, 2, 5, 10, 20, 50];
+    const range = maxDecibels - minDecibels;
+    const step =
+      steps.find((candidate) => range / candidate <= maxSteps) ??
+      50 * Math.ceil(range / (50 * maxSteps));
+
+    const ticks: number[] = [];
+    for (let level = Math.ceil(minDecibels / step) * step; level <= maxDecibels; level += step) {
+      ticks.push(level);
+    }
+    return ticks;
+  }
+}
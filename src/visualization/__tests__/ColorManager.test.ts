@@ -84,6 +84,26 @@ describe('ColorManager', () => {
     });
   });
 
+  describe('createColorRamp', () => {
+    it('should run from black through the track color to white', () => {
+      const ramp = ColorManager.createColorRamp('#4080C0');
+
+      expect(ramp.length).toBe(256 * 3);
+      expect(Array.from(ramp.slice(0, 3))).toEqual([0, 0, 0]);
+      // Level 255 * 0.75 is close to the track color
+      const knee = Math.round(255 * 0.75) * 3;
+      expect(ramp[knee]).toBeCloseTo(0x40, -1);
+      expect(ramp[knee + 2]).toBeCloseTo(0xc0, -1);
+      expect(Array.from(ramp.slice(255 * 3))).toEqual([255, 255, 255]);
+    });
+
+    it('should scale the colors by the opacity', () => {
+      const ramp = ColorManager.createColorRamp('#FF0000', 0.5);
+
+      expect(Array.from(ramp.slice(255 * 3))).toEqual([128, 128, 128]);
+    });
+  });
+
   describe('isValidHex', () => {
     it('should return true for valid hex colors', () => {
       expect(ColorManager.isValidHex('#FF0000')).toBe(true);
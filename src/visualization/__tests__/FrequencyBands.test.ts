@@ -0,0 +1,234 @@
+import { describe, it, expect } from 'vitest';
+import { FrequencyBands } from '../FrequencyBands';
+import type { SpectrumSettings } from '../../types/visualizer.types';
+
+function settings(overrides: Partial<SpectrumSettings>): SpectrumSettings {
+  return FrequencyBands.resolve(overrides);
+}
+
+describe('FrequencyBands', () => {
+  describe('createBands', () => {
+    it('should split the range evenly for the linear scale', () => {
+      const bands = FrequencyBands.createBands(
+        settings({ frequencyScale: 'linear', minFrequency: 0, maxFrequency: 1000, barCount: 4 }),
+        24000
+      );
+
+      expect(bands.map((band) => band.low)).toEqual([0, 250, 500, 750]);
+      expect(bands[3].high).toBe(1000);
+      expect(bands[0].center).toBe(125);
+    });
+
+    it('should use equal frequency ratios for the log scale', () => {
+      const bands = FrequencyBands.createBands(
+        settings({ frequencyScale: 'log', minFrequency: 20, maxFrequency: 20000, barCount: 3 }),
+        24000
+      );
+
+      expect(bands).toHaveLength(3);
+      expect(bands[0].low).toBeCloseTo(20);
+      expect(bands[0].high).toBeCloseTo(200);
+      expect(bands[1].high).toBeCloseTo(2000);
+      expect(bands[2].high).toBeCloseTo(20000);
+      expect(bands[0].center).toBeCloseTo(Math.sqrt(20 * 200));
+    });
+
+    it('should use equal mel steps for the mel scale', () => {
+      const bands = FrequencyBands.createBands(
+        settings({ frequencyScale: 'mel', minFrequency: 0, maxFrequency: 8000, barCount: 10 }),
+        24000
+      );
+      const melWidths = bands.map(
+        (band) => FrequencyBands.hzToMel(band.high) - FrequencyBands.hzToMel(band.low)
+      );
+
+      expect(bands[0].low).toBeCloseTo(0);
+      expect(bands[9].high).toBeCloseTo(8000);
+      melWidths.forEach((width) => expect(width).toBeCloseTo(melWidths[0]));
+      // Low bands are narrower in Hz than high bands
+      expect(bands[0].high - bands[0].low).toBeLessThan(bands[9].high - bands[9].low);
+    });
+
+    it('should create standard octave bands within the range', () => {
+      const bands = FrequencyBands.createBands(
+        settings({ frequencyScale: 'octave', minFrequency: 30, maxFrequency: 17000, barCount: 4 }),
+        24000
+      );
+
+      expect(bands.map((band) => Math.round(band.center))).toEqual([
+        31, 63, 125, 250, 500, 1000, 2000, 4000, 8000, 16000,
+      ]);
+      expect(bands[5].low).toBeCloseTo(1000 / Math.SQRT2);
+      expect(bands[5].high).toBeCloseTo(1000 * Math.SQRT2);
+    });
+
+    it('should create three bands per octave for third-octave', () => {
+      const bands = FrequencyBands.createBands(
+        settings({ frequencyScale: 'third-octave', minFrequency: 1000, maxFrequency: 2000 }),
+        24000
+      );
+
+      expect(bands).toHaveLength(4);
+      expect(bands[0].center).toBeCloseTo(1000);
+      expect(bands[3].center).toBeCloseTo(2000);
+      expect(bands[0].high).toBeCloseTo(bands[1].low);
+    });
+
+    it('should cut the range off at the top analysed frequency', () => {
+      const bands = FrequencyBands.createBands(
+        settings({ frequencyScale: 'linear', minFrequency: 0, maxFrequency: 20000, barCount: 2 }),
+        1000
+      );
+
+      expect(bands[1].high).toBe(1000);
+    });
+
+    it('should return no bands when the range is above the analysed frequencies', () => {
+      const bands = FrequencyBands.createBands(
+        settings({ minFrequency: 2000, maxFrequency: 20000 }),
+        1000
+      );
+
+      expect(bands).toEqual([]);
+    });
+  });
+
+  describe('aggregate', () => {
+    it('should take the largest bin inside each band', () => {
+      // Bins at 0, 10, 20, ... 70 Hz
+      const magnitudes = new Float32Array([1, 5, 2, 3, 0, 8, 4, 6]);
+      const bands = [
+        { low: 0, center: 20, high: 40 },
+        { low: 40, center: 60, high: 80 },
+      ];
+
+      const result = FrequencyBands.aggregate(magnitudes, 10, bands);
+
+      expect(Array.from(result)).toEqual([5, 8]);
+    });
+
+    it('should interpolate at the center of bands narrower than a bin', () => {
+      const magnitudes = new Float32Array([0, 2, 4, 6]);
+      const bands = [{ low: 12, center: 15, high: 18 }];
+
+      const result = FrequencyBands.aggregate(magnitudes, 10, bands);
+
+      expect(result[0]).toBeCloseTo(3);
+    });
+
+    it('should give zero for bands above the last bin', () => {
+      const magnitudes = new Float32Array([1, 1, 1, 1]);
+      const bands = [{ low: 100, center: 105, high: 110 }];
+
+      expect(FrequencyBands.aggregate(magnitudes, 10, bands)[0]).toBe(0);
+    });
+
+    it('should write into a provided output buffer', () => {
+      const output = new Float32Array(1);
+      const result = FrequencyBands.aggregate(
+        new Float32Array([1, 2]),
+        10,
+        [{ low: 0, center: 5, high: 20 }],
+        output
+      );
+
+      expect(result).toBe(output);
+      expect(output[0]).toBe(2);
+    });
+  });
+
+  describe('positionOf', () => {
+    const bands = [
+      { low: 100, center: 200, high: 400 },
+      { low: 400, center: 800, high: 1600 },
+    ];
+
+    it('should interpolate on a log axis inside a band', () => {
+      expect(FrequencyBands.positionOf(100, bands)).toBeCloseTo(0);
+      expect(FrequencyBands.positionOf(200, bands)).toBeCloseTo(0.5);
+      expect(FrequencyBands.positionOf(800, bands)).toBeCloseTo(1.5);
+    });
+
+    it('should interpolate linearly in a band starting at 0 Hz', () => {
+      expect(FrequencyBands.positionOf(25, [{ low: 0, center: 50, high: 100 }])).toBeCloseTo(0.25);
+    });
+
+    it('should return null outside the bands', () => {
+      expect(FrequencyBands.positionOf(50, bands)).toBeNull();
+      expect(FrequencyBands.positionOf(2000, bands)).toBeNull();
+    });
+  });
+
+  describe('formatFrequency', () => {
+    it('should label kilohertz with a k suffix', () => {
+      expect(FrequencyBands.formatFrequency(50)).toBe('50');
+      expect(FrequencyBands.formatFrequency(2000)).toBe('2k');
+      expect(FrequencyBands.formatFrequency(12500)).toBe('12.5k');
+    });
+  });
+
+  describe('validate', () => {
+    it('should accept the default settings', () => {
+      expect(() => FrequencyBands.validate(FrequencyBands.DEFAULT_SETTINGS)).not.toThrow();
+    });
+
+    it('should reject unknown scales', () => {
+      expect(() => FrequencyBands.validate({ frequencyScale: 'bark' as never })).toThrow(
+        'Invalid frequencyScale'
+      );
+    });
+
+    it('should reject an empty frequency range', () => {
+      expect(() => FrequencyBands.validate({ minFrequency: 5000, maxFrequency: 100 })).toThrow(
+        'maxFrequency must be greater than minFrequency'
+      );
+    });
+
+    it('should require a positive minimum for log and octave scales', () => {
+      expect(() => FrequencyBands.validate({ frequencyScale: 'log', minFrequency: 0 })).toThrow();
+      expect(() =>
+        FrequencyBands.validate({ frequencyScale: 'octave', minFrequency: 0 })
+      ).toThrow();
+      expect(() =>
+        FrequencyBands.validate({ frequencyScale: 'linear', minFrequency: 0 })
+      ).not.toThrow();
+    });
+
+    it('should reject invalid bar counts', () => {
+      expect(() => FrequencyBands.validate({ barCount: 0 })).toThrow('barCount');
+      expect(() => FrequencyBands.validate({ barCount: 2.5 })).toThrow('barCount');
+      expect(() => FrequencyBands.validate({ barCount: 5000 })).toThrow('barCount');
+    });
+
+    it('should reject unsupported FFT sizes', () => {
+      expect(() => FrequencyBands.validate({ fftSize: 3000 })).toThrow('fftSize');
+      expect(() => FrequencyBands.validate({ fftSize: 128 })).toThrow('fftSize');
+      expect(() => FrequencyBands.validate({ fftSize: 65536 })).toThrow('fftSize');
+      expect(() => FrequencyBands.validate({ fftSize: 8192 })).not.toThrow();
+    });
+
+    it('should reject unknown window functions and analysis modes', () => {
+      expect(() => FrequencyBands.validate({ windowFunction: 'kaiser' as never })).toThrow(
+        'Invalid windowFunction'
+      );
+      expect(() => FrequencyBands.validate({ analysis: 'peak' as never })).toThrow(
+        'Invalid analysis'
+      );
+    });
+
+    it('should reject overlaps outside 0 to 0.95', () => {
+      expect(() => FrequencyBands.validate({ overlap: -0.1 })).toThrow('overlap');
+      expect(() => FrequencyBands.validate({ overlap: 1 })).toThrow('overlap');
+      expect(() => FrequencyBands.validate({ overlap: 0.75 })).not.toThrow();
+    });
+
+    it('should reject an empty or out of range level range', () => {
+      expect(() => FrequencyBands.validate({ minDecibels: -20, maxDecibels: -40 })).toThrow(
+        'maxDecibels must be greater than minDecibels'
+      );
+      expect(() => FrequencyBands.validate({ minDecibels: -300 })).toThrow('minDecibels');
+      expect(() => FrequencyBands.validate({ maxDecibels: 40 })).toThrow('maxDecibels');
+      expect(() => FrequencyBands.validate({ minDecibels: -60, maxDecibels: 6 })).not.toThrow();
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { SpectrumLevels } from '../SpectrumLevels';
+import { FFT } from '../../utils/FFT';
+import type { WindowFunction } from '../../types/visualizer.types';
+
+/**
+ * Level in dBFS of the peak bin of a sine, centered on a bin
+ */
+function sinePeakLevel(amplitude: number, fftSize: number, windowFunction: WindowFunction): number {
+  const samples = new Float32Array(fftSize);
+  for (let i = 0; i < fftSize; i++) {
+    samples[i] = amplitude * Math.sin((2 * Math.PI * 32 * i) / fftSize);
+  }
+  const magnitudes = FFT.forSize(fftSize).magnitudes(
+    samples,
+    FFT.getWindow(fftSize, windowFunction)
+  );
+  return SpectrumLevels.toDecibels(magnitudes, fftSize, windowFunction)[32];
+}
+
+describe('SpectrumLevels', () => {
+  describe('toDecibels', () => {
+    it('should read a full-scale sine as 0 dBFS at any FFT size and window', () => {
+      for (const fftSize of [256, 2048, 16384]) {
+        for (const windowFunction of FFT.WINDOW_FUNCTIONS) {
+          expect(sinePeakLevel(1, fftSize, windowFunction)).toBeCloseTo(0, 1);
+        }
+      }
+    });
+
+    it('should read half amplitude as -6 dBFS', () => {
+      expect(sinePeakLevel(0.5, 4096, 'hann')).toBeCloseTo(-6.02, 1);
+    });
+
+    it('should give silence the floor level', () => {
+      const levels = SpectrumLevels.toDecibels(new Float32Array(4), 1024, 'hann');
+
+      expect(Array.from(levels)).toEqual(Array(4).fill(SpectrumLevels.FLOOR_DECIBELS));
+    });
+
+    it('should convert in place unless given an output buffer', () => {
+      const magnitudes = new Float32Array([512, 256]);
+      const output = new Float32Array(2);
+
+      expect(SpectrumLevels.toDecibels(magnitudes, 1024, 'hann', output)).toBe(output);
+      expect(magnitudes[0]).toBe(512);
+      expect(SpectrumLevels.toDecibels(magnitudes, 1024, 'hann')).toBe(magnitudes);
+      expect(magnitudes[0]).toBeCloseTo(output[0]);
+    });
+  });
+
+  describe('normalize', () => {
+    it('should map the dB range onto 0 to 1, clamped', () => {
+      expect(SpectrumLevels.normalize(-45, -90, 0)).toBe(0.5);
+      expect(SpectrumLevels.normalize(-120, -90, 0)).toBe(0);
+      expect(SpectrumLevels.normalize(6, -90, 0)).toBe(1);
+    });
+  });
+
+  describe('decibelTicks', () => {
+    it('should use the smallest 1-2-5 step that fits', () => {
+      expect(SpectrumLevels.decibelTicks(-90, 0)).toEqual([-80, -60, -40, -20, 0]);
+      expect(SpectrumLevels.decibelTicks(-24, 0)).toEqual([-20, -15, -10, -5, 0]);
+      expect(SpectrumLevels.decibelTicks(-6, 0)).toEqual([-6, -5, -4, -3, -2, -1, 0]);
+    });
+  });
+});
@@ -0,0 +1,8 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Directory serving ffmpeg-core.js/.wasm (default: <base>/ffmpeg) */
+  readonly VITE_FFMPEG_CORE_URL?: string;
+  /** Optional CDN directory tried when the self-hosted core fails to load */
+  readonly VITE_FFMPEG_CDN_URL?: string;
+}